@@ -1,53 +1,100 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { Upload, Zap, Download, RefreshCw, Scissors, ArrowRight, Plus, ChevronRight, Settings2, X, PenTool, PaintBucket, Highlighter, Scan, GripHorizontal, Layers, Activity, CheckCircle, RotateCcw, FileCode, Ruler, Maximize2 } from 'lucide-react';
-import { AppState, Stitch, StitchType, ProcessingConfig, DesignStyle, Hoop, VectorLayer } from './types';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { Upload, Zap, Download, RefreshCw, Scissors, ArrowRight, Plus, ChevronRight, Settings2, X, PenTool, PaintBucket, Highlighter, Scan, GripHorizontal, Layers, Activity, CheckCircle, RotateCcw, FileCode, FileText, Ruler, Maximize2 } from 'lucide-react';
+import { AppState, Stitch, StitchType, ProcessingConfig, DesignStyle, Hoop, VectorLayer, ExportFormat, ThreadBrand, ThreadColor, TatamiUnderlayMode, FillPattern, LayerStitchSettings, PatchBorderConfig, BorderMode, SatinCornerStyle, RunMotif, Point, SequenceReport, VectorizeOptions, VectorizePreset } from './types';
 import { simplifyImageWithAI } from './services/geminiService';
-import { prepareVectorLayers, digitizeDesign } from './services/imageProcessor';
+import { cleanupImageLocally } from './services/localCleanup';
+import { coversArea, prepareVectorLayers, digitizeDesign, removeHiddenFill } from './services/imageProcessor';
 import { createExpFile, downloadBlob } from './services/expExporter';
 import { createDstFile } from './services/dstExporter';
+import { DST_TRIM_JUMP_COUNT } from './services/exportUtils';
+import { createPesFile } from './services/pesExporter';
+import { createJefFile } from './services/jefExporter';
+import { createVp3File } from './services/vp3Exporter';
+import { importMachineFile, isMachineFile } from './services/embroideryImporter';
+import { createWorksheetSvg } from './services/worksheetExporter';
+import { createAppliqueCutSvg } from './services/appliqueExporter';
+import { computeStitchStats, DEFAULT_MACHINE_PROFILE, formatStatsNote, MachineProfile, STATS_NOTE_FORMATS } from './services/stitchStats';
+import { DEFAULT_CUSTOM_OFFSETS, DEFAULT_FILL_STITCH_LENGTHS, FILL_PATTERNS } from './services/fillPatterns';
+import { DEFAULT_CUSTOM_MOTIF, formatRunMotif, parseRunMotif, RUN_MOTIFS } from './services/runMotifs';
+import { DEFAULT_THREAD_BRAND, findNearestThread, getThreadBrandLabel, matchLayerThreads } from './services/threadCatalog';
+import { combineLayers, DEFAULT_MERGE_TOLERANCE, LayerEdit, mergeSimilarLayers, moveLayer } from './services/layerManager';
+import { DEFAULT_VECTORIZE_OPTIONS } from './services/vectorizeOptions';
+import { DEFAULT_PATCH_BORDER, HOOPS } from './services/designPresets';
 import Preview from './components/Preview';
-
-const HOOPS: Hoop[] = [
-    { name: '100x100 (4x4")', width: 100, height: 100, shape: 'rect' },
-    { name: '130x180 (5x7")', width: 130, height: 180, shape: 'rect' },
-    { name: '160x260 (6x10")', width: 160, height: 260, shape: 'rect' },
-    { name: 'Bernina Large Oval', width: 145, height: 255, shape: 'oval' },
-    { name: 'Bernina Midi', width: 100, height: 130, shape: 'rect' },
-];
+import ThreadPanel from './components/ThreadPanel';
+import LayerInspector from './components/LayerInspector';
+import LayerManager from './components/LayerManager';
+import VectorizePanel from './components/VectorizePanel';
 
 const App: React.FC = () => {
     const [state, setState] = useState<AppState>(AppState.IDLE);
 
     // Data State
     const [originalImage, setOriginalImage] = useState<string | null>(null);
-    const [processedImage, setProcessedImage] = useState<string | null>(null); // Bitmap (Gemini)
+    const [processedImage, setProcessedImage] = useState<string | null>(null); // Bitmap (Gemini or local cleanup)
+    const [cleanupMode, setCleanupMode] = useState<'ai' | 'local'>('ai'); // Step 1: vision call or offline cleanup
+    const [bitmapSource, setBitmapSource] = useState<'ai' | 'local'>('ai'); // What made processedImage
+    const [visionNotice, setVisionNotice] = useState<string | null>(null); // Vision failed, local cleanup used instead
     const [vectorLayers, setVectorLayers] = useState<VectorLayer[]>([]); // Geometry (Potrace)
     const [svgPreview, setSvgPreview] = useState<string | null>(null);
     const [stitches, setStitches] = useState<Stitch[]>([]);
+    const [sequenceReport, setSequenceReport] = useState<SequenceReport | null>(null); // Travel saved by the sewing order
     const [designDims, setDesignDims] = useState<{ width: number; height: number }>({ width: 100, height: 100 });
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
+    const [importedFileName, setImportedFileName] = useState<string | null>(null); // .dst/.exp loaded straight into Preview
+    const [designName, setDesignName] = useState('SR_LUCAS'); // Uploaded file name, written into the machine file headers
 
     // UI State
     const [isMobileSettingsOpen, setIsMobileSettingsOpen] = useState(false);
 
     // --- CONFIGURATION STATE ---
     const [designStyle, setDesignStyle] = useState<DesignStyle>('patch_fill');
+    const [centerlineTrace, setCenterlineTrace] = useState(true); // Vintage: redwork along the middle of each line
     const [targetWidth, setTargetWidth] = useState(100);
     const [colorCount, setColorCount] = useState(4);
+    const [vectorizePreset, setVectorizePreset] = useState<VectorizePreset>('balanced');
+    const [vectorizeOptions, setVectorizeOptions] = useState<VectorizeOptions>(DEFAULT_VECTORIZE_OPTIONS);
     const [selectedHoop, setSelectedHoop] = useState<Hoop>(HOOPS[0]);
-    const [exportFormat, setExportFormat] = useState<'exp' | 'dst'>('exp');
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('exp');
+    const [threadBrand, setThreadBrand] = useState<ThreadBrand>(DEFAULT_THREAD_BRAND);
 
     // --- ENGINEERING PARAMS ---
     const [stitchType, setStitchType] = useState<StitchType>('tatami');
     const [density, setDensity] = useState(0.40);
     const [pullComp, setPullComp] = useState(0.25);
     const [enableUnderlay, setEnableUnderlay] = useState(true);
+    const [tatamiUnderlay, setTatamiUnderlay] = useState<TatamiUnderlayMode>('auto');
     const [satinWidth, setSatinWidth] = useState(3.5);
+    const [satinCornerStyle, setSatinCornerStyle] = useState<SatinCornerStyle>('auto');
     const [tatamiAngle, setTatamiAngle] = useState(45);
+    const [fillPattern, setFillPattern] = useState<FillPattern>('brick');
+    const [fillStitchLengths, setFillStitchLengths] = useState<Record<FillPattern, number>>(DEFAULT_FILL_STITCH_LENGTHS);
+    const [fillCustomOffsets, setFillCustomOffsets] = useState<number[]>(DEFAULT_CUSTOM_OFFSETS);
+    const [patchBorder, setPatchBorder] = useState<PatchBorderConfig>(DEFAULT_PATCH_BORDER);
+    const [runMotif, setRunMotif] = useState<RunMotif>('zigzag');
+    const [runMotifCustom, setRunMotifCustom] = useState<Point[]>(DEFAULT_CUSTOM_MOTIF);
     const [trimJump, setTrimJump] = useState(2.0);
     const [stitchLength, setStitchLength] = useState(2.5); // New Parameter
+    const [machineSpm, setMachineSpm] = useState(DEFAULT_MACHINE_PROFILE.speedSpm);
+    const [dstTrimJumps, setDstTrimJumps] = useState(DST_TRIM_JUMP_COUNT); // Must match the machine's trim setting
+
+    // Global values each layer starts from (the inspector overrides them per layer)
+    const layerDefaults: Required<LayerStitchSettings> = {
+        stitchType, densityMm: density, tatamiAngle, pullCompensationMm: pullComp,
+        enableUnderlay, tatamiUnderlay, satinColumnWidthMm: satinWidth
+    };
+
+    // Threads by colorIndex: one per layer, the border sews after them (imported files have none)
+    const stitchThreads = useMemo(() => [
+        ...vectorLayers.map(l => l.thread),
+        patchBorder.mode !== 'none' ? findNearestThread(patchBorder.color, threadBrand) : undefined
+    ], [vectorLayers, patchBorder, threadBrand]);
+
+    // --- PRODUCTION STATS (Preview, worksheet, export metadata) ---
+    const machineProfile: MachineProfile = useMemo(() => ({ ...DEFAULT_MACHINE_PROFILE, speedSpm: machineSpm }), [machineSpm]);
+    const stitchStats = useMemo(() => computeStitchStats(stitches, machineProfile), [stitches, machineProfile]);
 
     const handleMainStyleSelect = (category: 'vintage' | 'patch') => {
         if (category === 'vintage') {
@@ -84,9 +131,32 @@ const App: React.FC = () => {
 
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file) {
+        if (file) setDesignName(file.name.replace(/\.[^.]+$/, ''));
+        if (file && isMachineFile(file.name)) {
+            // Legacy machine file: skip Vision/Vector stages and go straight to Preview
             const reader = new FileReader();
             reader.onload = (evt) => {
+                try {
+                    const design = importMachineFile(file.name, new Uint8Array(evt.target?.result as ArrayBuffer));
+                    setOriginalImage(null);
+                    setProcessedImage(null);
+                    setVectorLayers([]);
+                    setStitches(design.stitches);
+                    setSequenceReport(null);
+                    setDesignDims({ width: design.width, height: design.height });
+                    setImportedFileName(file.name);
+                    setErrorMsg(null);
+                    setState(AppState.PREVIEW);
+                } catch (err: unknown) {
+                    setErrorMsg("Import Error: " + (err instanceof Error ? err.message : String(err)));
+                    setState(AppState.ERROR);
+                }
+            };
+            reader.readAsArrayBuffer(file);
+        } else if (file) {
+            const reader = new FileReader();
+            reader.onload = (evt) => {
+                setImportedFileName(null);
                 setOriginalImage(evt.target?.result as string);
                 setProcessedImage(null);
                 setVectorLayers([]);
@@ -103,6 +173,7 @@ const App: React.FC = () => {
         try {
             setState(AppState.ANALYZING);
             setErrorMsg(null);
+            setVisionNotice(null);
 
             // Check if it's an SVG
             if (originalImage.startsWith('data:image/svg+xml') || originalImage.endsWith('.svg')) {
@@ -113,8 +184,24 @@ const App: React.FC = () => {
                 return;
             }
 
-            const aiBitmap = await simplifyImageWithAI(originalImage, "", colorCount, designStyle);
-            setProcessedImage(aiBitmap);
+            const cleanupOptions = { colorCount, designStyle };
+            if (cleanupMode === 'local') {
+                setProcessedImage(await cleanupImageLocally(originalImage, cleanupOptions));
+                setBitmapSource('local');
+                setState(AppState.REVIEW_BITMAP);
+                return;
+            }
+
+            try {
+                const aiBitmap = await simplifyImageWithAI(originalImage, "", colorCount, designStyle);
+                setProcessedImage(aiBitmap);
+                setBitmapSource('ai');
+            } catch (visionErr: unknown) {
+                // No API key, offline or quota: the local cleanup still gets the design to the next step
+                setProcessedImage(await cleanupImageLocally(originalImage, cleanupOptions));
+                setBitmapSource('local');
+                setVisionNotice((visionErr instanceof Error && visionErr.message) || "Vision Error");
+            }
             setState(AppState.REVIEW_BITMAP);
         } catch (err: any) {
             setErrorMsg(err.message || "Vision Error");
@@ -128,13 +215,14 @@ const App: React.FC = () => {
         try {
             setState(AppState.VECTORIZING);
             const config: ProcessingConfig = {
-                designStyle, widthMm: targetWidth, stitchType, densityMm: density, satinColumnWidthMm: satinWidth,
-                pullCompensationMm: pullComp, enableUnderlay, tatamiAngle, colorCount, maxStitchLengthMm: stitchLength,
+                designStyle, centerlineTrace, widthMm: targetWidth, stitchType, densityMm: density, satinColumnWidthMm: satinWidth, satinCornerStyle,
+                pullCompensationMm: pullComp, enableUnderlay, tatamiUnderlay, tatamiAngle, colorCount, maxStitchLengthMm: stitchLength,
+                fillPattern, fillStitchLengthMm: fillStitchLengths, fillCustomOffsets, border: patchBorder, runMotif, runMotifCustom, vectorize: vectorizeOptions,
                 minStitchLengthMm: 0.3, trimJumpDistanceMm: trimJump
             };
 
             const result = await prepareVectorLayers(processedImage, config);
-            setVectorLayers(result.layers);
+            setVectorLayers(matchLayerThreads(mergeSimilarLayers(result.layers, DEFAULT_MERGE_TOLERANCE, stitchType).layers, threadBrand));
             setSvgPreview(result.svgPreview);
             setDesignDims({ width: result.width, height: result.height });
             setState(AppState.REVIEW_VECTORS);
@@ -144,14 +232,56 @@ const App: React.FC = () => {
         }
     };
 
+    // THREADS: Nearest real thread per layer, manual choices are locked
+    const handleThreadBrandChange = (brand: ThreadBrand) => {
+        setThreadBrand(brand);
+        setVectorLayers(prev => matchLayerThreads(prev, brand));
+    };
+
+    const handleLayerThreadChange = (layerIndex: number, thread: ThreadColor | null) => {
+        setVectorLayers(prev => prev.map((layer, i) => {
+            if (i !== layerIndex) return layer;
+            return thread
+                ? { ...layer, thread, threadLocked: true }
+                : { ...layer, thread: findNearestThread(layer.color, threadBrand), threadLocked: false };
+        }));
+    };
+
+    // LAYER MANAGEMENT: merge, combine and restack; the border layer follows its new index
+    const applyLayerEdit = ({ layers, indexMap }: LayerEdit) => {
+        setVectorLayers(matchLayerThreads(layers, threadBrand));
+        setPatchBorder(prev => ({ ...prev, layerIndex: Math.max(0, indexMap[prev.layerIndex] ?? 0) }));
+    };
+
+    // LAYER SETTINGS: undefined drops the override, the layer follows the global config again.
+    // A layer that starts or stops covering its inside changes what shows of the layers below it
+    const handleLayerSettingsChange = (layerIndex: number, settings: LayerStitchSettings | undefined) => {
+        setVectorLayers(prev => {
+            const next = prev.map((layer, i) => {
+                if (i !== layerIndex) return layer;
+                const { settings: _, ...rest } = layer;
+                return settings ? { ...rest, settings } : rest;
+            });
+            const covered = coversArea(prev[layerIndex]?.settings?.stitchType ?? stitchType);
+            return covered === coversArea(settings?.stitchType ?? stitchType) ? next : removeHiddenFill(next, stitchType);
+        });
+    };
+
+    // Same for the global stitch type, on the layers that follow it
+    const globalCovers = coversArea(stitchType);
+    useEffect(() => {
+        setVectorLayers(prev => (prev.length > 1 ? removeHiddenFill(prev, stitchType) : prev));
+    }, [globalCovers]);
+
     // STEP 3: DIGITIZE (Physics Engine)
     const handleDigitize = useCallback(() => {
         if (vectorLayers.length === 0) return;
         try {
             setState(AppState.DIGITIZING);
             const config: ProcessingConfig = {
-                designStyle, widthMm: targetWidth, stitchType, densityMm: density, satinColumnWidthMm: satinWidth,
-                pullCompensationMm: pullComp, enableUnderlay, tatamiAngle, colorCount, maxStitchLengthMm: stitchLength,
+                designStyle, centerlineTrace, widthMm: targetWidth, stitchType, densityMm: density, satinColumnWidthMm: satinWidth, satinCornerStyle,
+                pullCompensationMm: pullComp, enableUnderlay, tatamiUnderlay, tatamiAngle, colorCount, maxStitchLengthMm: stitchLength,
+                fillPattern, fillStitchLengthMm: fillStitchLengths, fillCustomOffsets, border: patchBorder, runMotif, runMotifCustom, vectorize: vectorizeOptions,
                 minStitchLengthMm: designStyle === 'vintage' ? 0.1 : 0.2, trimJumpDistanceMm: trimJump
             };
 
@@ -159,13 +289,14 @@ const App: React.FC = () => {
             setTimeout(() => {
                 const result = digitizeDesign(vectorLayers, config);
                 setStitches(result.stitches);
+                setSequenceReport(result.sequence);
                 setState(AppState.PREVIEW);
             }, 50);
         } catch (err: any) {
             setErrorMsg("Physics Error: " + err.message);
             setState(AppState.ERROR);
         }
-    }, [vectorLayers, designStyle, targetWidth, stitchType, density, satinWidth, pullComp, enableUnderlay, tatamiAngle, trimJump, stitchLength]);
+    }, [vectorLayers, designStyle, centerlineTrace, targetWidth, stitchType, density, satinWidth, pullComp, enableUnderlay, tatamiUnderlay, tatamiAngle, fillPattern, fillStitchLengths, fillCustomOffsets, patchBorder, satinCornerStyle, runMotif, runMotifCustom, vectorizeOptions, trimJump, stitchLength]);
 
     // LIVE UPDATE: When in preview, if params change, re-run Physics only
     useEffect(() => {
@@ -175,20 +306,58 @@ const App: React.FC = () => {
             }, 200); // Debounce
             return () => clearTimeout(timer);
         }
-    }, [density, pullComp, trimJump, satinWidth, tatamiAngle, enableUnderlay, stitchLength]);
+    }, [vectorLayers, density, pullComp, trimJump, satinWidth, tatamiAngle, enableUnderlay, tatamiUnderlay, fillPattern, fillStitchLengths, fillCustomOffsets, patchBorder, satinCornerStyle, runMotif, runMotifCustom, stitchLength]);
 
-    const handleDownload = () => {
+    // Format is passed explicitly: the buttons set state and download in the same click
+    const handleDownload = (format: ExportFormat = exportFormat) => {
         if (stitches.length === 0) return;
-        if (exportFormat === 'exp') {
+        setExportFormat(format);
+        const threads = stitchThreads;
+        if (format === 'exp') {
             const data = createExpFile(stitches);
             downloadBlob(data, 'design_bernia_srlucas.exp');
+        } else if (format === 'pes') {
+            const data = createPesFile(stitches, { designName, threads });
+            downloadBlob(data, 'design_bernia_srlucas.pes');
+        } else if (format === 'jef') {
+            const data = createJefFile(stitches, selectedHoop);
+            downloadBlob(data, 'design_bernia_srlucas.jef');
+        } else if (format === 'vp3') {
+            const data = createVp3File(stitches, {
+                notes: formatStatsNote(stitchStats, machineProfile),
+                threads: threads.map(t => t && { catalogNumber: t.code, description: t.name, brand: getThreadBrandLabel(t.brand) })
+            });
+            downloadBlob(data, 'design_bernia_srlucas.vp3');
         } else {
-            const data = createDstFile(stitches, designDims.width, designDims.height);
+            const data = createDstFile(stitches, designDims.width, designDims.height, { designName, trimJumpCount: dstTrimJumps });
             downloadBlob(data, 'design_bernia_srlucas.dst');
         }
     };
 
+    // Appliqué fabric pieces for the cutting plotter (SVG, cuts 1:1)
+    const appliqueLayers = vectorLayers.filter(l => (l.settings?.stitchType ?? stitchType) === 'applique');
+    const handleDownloadCutLines = () => {
+        const svg = createAppliqueCutSvg(appliqueLayers);
+        if (svg) downloadBlob(new TextEncoder().encode(svg), 'design_bernia_srlucas_corte.svg');
+    };
+
+    // Job sheet for the machine operator (SVG, prints 1:1 on A4)
+    const handleDownloadWorksheet = () => {
+        if (stitches.length === 0) return;
+        const colors = Array.from(new Set(stitches.filter(s => s.hexColor).map(s => s.hexColor as string)));
+        const svg = createWorksheetSvg({
+            design: { width: designDims.width, height: designDims.height, stitches, colors },
+            hoop: selectedHoop,
+            designName,
+            threads: stitchThreads,
+            machine: machineProfile
+        });
+        downloadBlob(new TextEncoder().encode(svg), 'design_bernia_srlucas_folha.svg');
+    };
+
     const handleReset = () => {
+        setImportedFileName(null);
+        setDesignName('SR_LUCAS');
         setOriginalImage(null);
         setProcessedImage(null);
         setVectorLayers([]);
@@ -197,6 +366,7 @@ const App: React.FC = () => {
     };
 
     const isVintage = designStyle === 'vintage';
+    const isRunStitch = ['running', 'bean', 'motif', 'estitch'].includes(stitchType);
     const isPatch = designStyle === 'patch_line' || designStyle === 'patch_fill';
 
     return (
@@ -229,7 +399,7 @@ const App: React.FC = () => {
                     <div className="absolute inset-0 opacity-5" style={{ backgroundImage: 'radial-gradient(#000 1px, transparent 1px)', backgroundSize: '20px 20px' }}></div>
 
                     {/* 0. IDLE (Upload) */}
-                    {!originalImage && (
+                    {!originalImage && !importedFileName && (
                         <div className="text-center space-y-4 animate-fade-in z-10">
                             <div className="w-20 h-20 bg-white border-2 border-dashed border-[#D8B066] rounded-2xl mx-auto flex items-center justify-center">
                                 <Plus className="text-[#D8B066]" />
@@ -238,7 +408,7 @@ const App: React.FC = () => {
                             <p className="text-sm text-neutral-500 max-w-xs mx-auto">Carregue uma imagem para iniciar o pipeline de engenharia de bordado.</p>
                             <label className="inline-flex items-center gap-2 bg-[#1C1C1C] text-white px-6 py-3 rounded-xl font-medium cursor-pointer shadow-lg hover:bg-[#333] transition-colors">
                                 <Upload size={18} /> Carregar Imagem
-                                <input type="file" accept="image/png, image/jpeg, image/svg+xml" onChange={handleFileUpload} className="hidden" id="file-upload" />
+                                <input type="file" accept="image/png, image/jpeg, image/svg+xml, .dst, .exp" onChange={handleFileUpload} className="hidden" id="file-upload" />
                             </label>
                         </div>
                     )}
@@ -254,7 +424,7 @@ const App: React.FC = () => {
 
                             {/* Processed (or Loading) */}
                             <div className="flex-1 bg-white p-2 rounded-xl border border-neutral-200 shadow-lg relative flex flex-col items-center justify-center">
-                                <span className="absolute top-4 left-4 bg-[#2A4F60] text-white text-xs px-2 py-1 rounded backdrop-blur">IA Vision</span>
+                                <span className="absolute top-4 left-4 bg-[#2A4F60] text-white text-xs px-2 py-1 rounded backdrop-blur">{(processedImage ? bitmapSource : cleanupMode) === 'local' ? 'Limpeza Local' : 'IA Vision'}</span>
 
                                 {state === AppState.ANALYZING ? (
                                     <div className="text-center">
@@ -304,6 +474,7 @@ const App: React.FC = () => {
                                 widthMm={designDims.width}
                                 heightMm={designDims.height}
                                 hoop={selectedHoop}
+                                stats={stitchStats}
                                 className="h-full shadow-2xl border border-[#E8E6E2]"
                             />
                         </div>
@@ -339,6 +510,12 @@ const App: React.FC = () => {
                                     <button onClick={() => handlePatchSubModeSelect('fill')} className={`flex-1 py-1.5 text-xs font-medium rounded ${designStyle === 'patch_fill' ? 'bg-white shadow text-[#2A4F60]' : 'text-neutral-400'}`}>Preenchimento</button>
                                 </div>
                             )}
+                            {isVintage && (
+                                <div className="bg-neutral-50 p-1 rounded-lg flex mb-4 border border-neutral-200">
+                                    <button onClick={() => setCenterlineTrace(true)} className={`flex-1 py-1.5 text-xs font-medium rounded ${centerlineTrace ? 'bg-white shadow text-[#2A4F60]' : 'text-neutral-400'}`}>Linha Central</button>
+                                    <button onClick={() => setCenterlineTrace(false)} className={`flex-1 py-1.5 text-xs font-medium rounded ${!centerlineTrace ? 'bg-white shadow text-[#2A4F60]' : 'text-neutral-400'}`}>Contornos</button>
+                                </div>
+                            )}
                             {designStyle === 'patch_fill' && (
                                 <div className="flex items-center justify-between">
                                     <label className="text-sm font-medium">Cores</label>
@@ -349,6 +526,27 @@ const App: React.FC = () => {
                                 </div>
                             )}
 
+                            {state === AppState.REVIEW_BITMAP && isPatch && (
+                                <div className="mt-6">
+                                    <VectorizePanel
+                                        preset={vectorizePreset}
+                                        options={vectorizeOptions}
+                                        onChange={(preset, options) => { setVectorizePreset(preset); setVectorizeOptions(options); }}
+                                    />
+                                </div>
+                            )}
+
+                            <div className="mt-6">
+                                <label className="text-xs font-semibold text-neutral-500 block mb-2">Pré-processamento</label>
+                                <div className="bg-neutral-50 p-1 rounded-lg flex border border-neutral-200">
+                                    <button onClick={() => setCleanupMode('ai')} className={`flex-1 py-1.5 text-xs font-medium rounded ${cleanupMode === 'ai' ? 'bg-white shadow text-[#2A4F60]' : 'text-neutral-400'}`}>IA Vision</button>
+                                    <button onClick={() => setCleanupMode('local')} className={`flex-1 py-1.5 text-xs font-medium rounded ${cleanupMode === 'local' ? 'bg-white shadow text-[#2A4F60]' : 'text-neutral-400'}`}>Limpeza Local</button>
+                                </div>
+                                {visionNotice && (
+                                    <p className="text-[10px] text-amber-600 mt-2">IA indisponível ({visionNotice}): foi usada a limpeza local.</p>
+                                )}
+                            </div>
+
                             <div className="mt-8 pt-6 border-t border-dashed border-neutral-200">
                                 {state === AppState.REVIEW_BITMAP ? (
                                     <div className="flex flex-col gap-3">
@@ -375,6 +573,31 @@ const App: React.FC = () => {
                             <p className="text-xs text-neutral-500 mb-6">
                                 Os contornos foram extraídos matematicamente. Verifique a qualidade das linhas antes de aplicar os pontos.
                             </p>
+                            {vectorLayers.length > 0 && (
+                                <div className="mb-6">
+                                    <LayerManager
+                                        layers={vectorLayers}
+                                        onMove={(from, to) => applyLayerEdit(moveLayer(vectorLayers, from, to, stitchType))}
+                                        onCombine={(into, from) => applyLayerEdit(combineLayers(vectorLayers, into, from, stitchType))}
+                                        onMergeSimilar={(tolerance) => applyLayerEdit(mergeSimilarLayers(vectorLayers, tolerance, stitchType))}
+                                    />
+                                </div>
+                            )}
+                            {vectorLayers.length > 0 && (
+                                <div className="mb-6 pt-4 border-t border-dashed border-neutral-200">
+                                    <ThreadPanel
+                                        layers={vectorLayers}
+                                        brand={threadBrand}
+                                        onBrandChange={handleThreadBrandChange}
+                                        onThreadChange={handleLayerThreadChange}
+                                    />
+                                </div>
+                            )}
+                            {vectorLayers.length > 0 && (
+                                <div className="mb-6 pt-4 border-t border-dashed border-neutral-200">
+                                    <LayerInspector layers={vectorLayers} defaults={layerDefaults} onSettingsChange={handleLayerSettingsChange} />
+                                </div>
+                            )}
                             <div className="flex flex-col gap-3">
                                 <button onClick={() => setState(AppState.REVIEW_BITMAP)} className="w-full py-3 bg-white border border-neutral-200 text-neutral-600 rounded-xl font-medium flex items-center justify-center gap-2 hover:bg-neutral-50 transition-colors">
                                     Voltar
@@ -399,10 +622,17 @@ const App: React.FC = () => {
                                     </select>
                                 </div>
 
+                                <div>
+                                    <label className="text-xs font-semibold text-neutral-500 mb-1.5 block">Saltos por Corte (DST)</label>
+                                    <select value={dstTrimJumps} onChange={(e) => setDstTrimJumps(Number(e.target.value))} className="w-full bg-neutral-50 border border-neutral-200 rounded-lg h-10 px-3 text-sm">
+                                        {[1, 2, 3, 4, 5, 6, 7, 8].map(n => <option key={n} value={n}>{n}{n === DST_TRIM_JUMP_COUNT ? ' (padrão Tajima)' : ''}</option>)}
+                                    </select>
+                                </div>
+
                                 <div>
                                     <label className="text-xs font-semibold text-neutral-500 mb-1.5 block">Tipo de Ponto</label>
-                                    <div className="flex gap-2">
-                                        {['running', 'satin', 'tatami'].map(t => (
+                                    <div className="flex flex-wrap gap-2">
+                                        {['running', 'bean', 'motif', 'estitch', 'satin', 'tatami', 'applique'].map(t => (
                                             <button key={t} onClick={() => setStitchType(t as StitchType)} className={`px-3 py-1.5 rounded-lg border text-xs capitalize ${stitchType === t ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`}>
                                                 {t}
                                             </button>
@@ -415,13 +645,13 @@ const App: React.FC = () => {
 
                                     {/* STITCH LENGTH (Running: Stitch Len, Satin/Tatami: Max/Split Len) */}
                                     <div className="flex justify-between items-center">
-                                        <label className="text-xs font-medium flex items-center gap-1"><Ruler size={12} /> {stitchType === 'running' ? 'Comp. Ponto' : 'Split / Max'}</label>
+                                        <label className="text-xs font-medium flex items-center gap-1"><Ruler size={12} /> {stitchType === 'motif' ? 'Comp. Motivo' : stitchType === 'estitch' ? 'Espaçamento' : isRunStitch ? 'Comp. Ponto' : 'Split / Max'}</label>
                                         <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{stitchLength}mm</span>
                                     </div>
                                     <input type="range" min="1.0" max="12.0" step="0.5" value={stitchLength} onChange={(e) => setStitchLength(Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
 
                                     {/* DENSITY (Only for Satin/Tatami) */}
-                                    {stitchType !== 'running' && (
+                                    {!isRunStitch && (
                                         <>
                                             <div className="flex justify-between items-center">
                                                 <label className="text-xs font-medium flex items-center gap-1"><Scan size={12} /> Densidade (mm)</label>
@@ -431,14 +661,85 @@ const App: React.FC = () => {
                                         </>
                                     )}
 
+                                    {/* FILL PATTERN (Only for Tatami, each pattern keeps its own stitch length) */}
+                                    {stitchType === 'tatami' && (
+                                        <>
+                                            <div className="grid grid-cols-3 gap-1">
+                                                {FILL_PATTERNS.map(({ id, label }) => (
+                                                    <button key={id} onClick={() => setFillPattern(id)} className={`py-1.5 rounded-lg border text-[10px] ${fillPattern === id ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`}>
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <div className="flex justify-between items-center">
+                                                <label className="text-xs font-medium flex items-center gap-1"><Ruler size={12} /> Comp. Enchimento</label>
+                                                <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{fillStitchLengths[fillPattern]}mm</span>
+                                            </div>
+                                            <input type="range" min="2.0" max="7.0" step="0.5" value={fillStitchLengths[fillPattern]} onChange={(e) => setFillStitchLengths(prev => ({ ...prev, [fillPattern]: Number(e.target.value) }))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+                                            {fillPattern === 'custom' && (
+                                                <input
+                                                    key={fillCustomOffsets.join(',')}
+                                                    defaultValue={fillCustomOffsets.join(', ')}
+                                                    onBlur={(e) => {
+                                                        const offsets = e.target.value.split(/[\s,;]+/).filter(Boolean).map(Number).filter(n => Number.isFinite(n));
+                                                        setFillCustomOffsets(offsets.length > 0 ? offsets : DEFAULT_CUSTOM_OFFSETS);
+                                                    }}
+                                                    placeholder="0, 0.25, 0.5, 0.75"
+                                                    title="Deslocamento por linha (fração do ponto), repete"
+                                                    className="w-full bg-neutral-50 border border-neutral-200 rounded-lg h-8 px-2 text-xs font-mono"
+                                                />
+                                            )}
+                                        </>
+                                    )}
+
+                                    {/* MOTIF / E-STITCH WIDTH (Motif: presets or custom needle points) */}
+                                    {(stitchType === 'motif' || stitchType === 'estitch') && (
+                                        <>
+                                            {stitchType === 'motif' && (
+                                                <div className="grid grid-cols-4 gap-1">
+                                                    {RUN_MOTIFS.map(({ id, label }) => (
+                                                        <button key={id} onClick={() => setRunMotif(id)} className={`py-1.5 rounded-lg border text-[10px] ${runMotif === id ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`}>
+                                                            {label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            {stitchType === 'motif' && runMotif === 'custom' && (
+                                                <input
+                                                    key={formatRunMotif(runMotifCustom)}
+                                                    defaultValue={formatRunMotif(runMotifCustom)}
+                                                    onBlur={(e) => {
+                                                        const points = parseRunMotif(e.target.value);
+                                                        setRunMotifCustom(points.length > 0 ? points : DEFAULT_CUSTOM_MOTIF);
+                                                    }}
+                                                    placeholder="0,0 0.25,1 0.5,0 0.75,-1"
+                                                    title="Pontos x,y por repetição (x 0..1 ao longo, y -1..1 na largura)"
+                                                    className="w-full bg-neutral-50 border border-neutral-200 rounded-lg h-8 px-2 text-xs font-mono"
+                                                />
+                                            )}
+                                            <div className="flex justify-between items-center">
+                                                <label className="text-xs font-medium flex items-center gap-1"><Maximize2 size={12} /> {stitchType === 'motif' ? 'Largura Motivo' : 'Comp. Pontas'}</label>
+                                                <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{satinWidth}mm</span>
+                                            </div>
+                                            <input type="range" min="1.0" max="8.0" step="0.5" value={satinWidth} onChange={(e) => setSatinWidth(Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+                                        </>
+                                    )}
+
                                     {/* SATIN WIDTH (Only for Satin) */}
-                                    {stitchType === 'satin' && (
+                                    {(stitchType === 'satin' || stitchType === 'applique') && (
                                         <>
                                             <div className="flex justify-between items-center">
                                                 <label className="text-xs font-medium flex items-center gap-1"><Maximize2 size={12} /> Largura Coluna</label>
                                                 <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{satinWidth}mm</span>
                                             </div>
                                             <input type="range" min="1.0" max="8.0" step="0.5" value={satinWidth} onChange={(e) => setSatinWidth(Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+                                            <div className="grid grid-cols-4 gap-1">
+                                                {([['auto', 'Auto'], ['mitre', 'Mitra'], ['cap', 'Capa'], ['lap', 'Sobrep.']] as [SatinCornerStyle, string][]).map(([style, label]) => (
+                                                    <button key={style} onClick={() => setSatinCornerStyle(style)} title="Cantos da coluna" className={`py-1.5 rounded-lg border text-[10px] ${satinCornerStyle === style ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`}>
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
                                         </>
                                     )}
 
@@ -454,6 +755,19 @@ const App: React.FC = () => {
                                         <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{trimJump}mm</span>
                                     </div>
                                     <input type="range" min="1.0" max="10.0" step="0.5" value={trimJump} onChange={(e) => setTrimJump(Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+                                    {sequenceReport && (
+                                        <p className="text-[10px] text-neutral-400">
+                                            Sequência otimizada: −{Math.max(0, sequenceReport.trimsBefore - sequenceReport.trimsAfter)} cortes · −{Math.max(0, sequenceReport.jumpMmBefore - sequenceReport.jumpMmAfter).toFixed(0)}mm de saltos
+                                            ({sequenceReport.trimsAfter} cortes, {sequenceReport.jumpMmAfter.toFixed(0)}mm)
+                                        </p>
+                                    )}
+
+                                    {/* MACHINE SPEED (Stats only, does not change the stitches) */}
+                                    <div className="flex justify-between items-center">
+                                        <label className="text-xs font-medium flex items-center gap-1"><Activity size={12} /> Velocidade Máquina</label>
+                                        <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{machineSpm} SPM</span>
+                                    </div>
+                                    <input type="range" min="300" max="1200" step="50" value={machineSpm} onChange={(e) => setMachineSpm(Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
 
                                     <div className="flex items-center justify-between py-2 border-t border-dashed border-neutral-200">
                                         <span className="text-xs font-medium">Smart Underlay</span>
@@ -461,21 +775,109 @@ const App: React.FC = () => {
                                             <div className={`w-3 h-3 bg-white rounded-full absolute top-0.5 transition-all ${enableUnderlay ? 'left-4' : 'left-0.5'}`}></div>
                                         </button>
                                     </div>
+
+                                    {/* TATAMI UNDERLAY MODE (Auto sizes it from each shape's area) */}
+                                    {stitchType === 'tatami' && enableUnderlay && (
+                                        <div className="grid grid-cols-4 gap-1">
+                                            {([['auto', 'Auto'], ['edge', 'Contorno'], ['fill', 'Enchim.'], ['edge_fill', 'Ambos']] as [TatamiUnderlayMode, string][]).map(([mode, label]) => (
+                                                <button key={mode} onClick={() => setTatamiUnderlay(mode)} className={`py-1.5 rounded-lg border text-[10px] ${tatamiUnderlay === mode ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`}>
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
+
+                                {/* SATIN BORDER (Merrow look, sews last over the edge of the fill) */}
+                                {vectorLayers.length > 0 && !importedFileName && (
+                                    <div className="pt-4 border-t border-dashed border-neutral-200 space-y-3">
+                                        <label className="text-xs font-semibold text-neutral-500 block">Borda Cetim</label>
+                                        <div className="grid grid-cols-3 gap-1">
+                                            {([['none', 'Sem'], ['layer', 'Camada'], ['silhouette', 'Silhueta']] as [BorderMode, string][]).map(([mode, label]) => (
+                                                <button key={mode} onClick={() => setPatchBorder(prev => ({ ...prev, mode }))} className={`py-1.5 rounded-lg border text-[10px] ${patchBorder.mode === mode ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`}>
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {patchBorder.mode === 'layer' && (
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {vectorLayers.map((l, i) => (
+                                                    <button key={i} onClick={() => setPatchBorder(prev => ({ ...prev, layerIndex: i }))} title={`Camada ${i + 1}`} className={`w-7 h-7 rounded-md border-2 ${patchBorder.layerIndex === i ? 'border-[#2A4F60]' : 'border-neutral-200'}`} style={{ backgroundColor: l.thread?.hex || l.color }} />
+                                                ))}
+                                            </div>
+                                        )}
+                                        {patchBorder.mode !== 'none' && (
+                                            <>
+                                                <div className="flex justify-between items-center">
+                                                    <label className="text-xs font-medium flex items-center gap-1"><Maximize2 size={12} /> Largura Borda</label>
+                                                    <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{patchBorder.widthMm}mm</span>
+                                                </div>
+                                                <input type="range" min="2.0" max="10.0" step="0.5" value={patchBorder.widthMm} onChange={(e) => setPatchBorder(prev => ({ ...prev, widthMm: Number(e.target.value) }))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+                                                <div className="flex justify-between items-center">
+                                                    <label className="text-xs font-medium flex items-center gap-1"><GripHorizontal size={12} /> Sobreposição</label>
+                                                    <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{patchBorder.overlapMm}mm</span>
+                                                </div>
+                                                <input type="range" min="0.0" max="2.0" step="0.1" value={patchBorder.overlapMm} onChange={(e) => setPatchBorder(prev => ({ ...prev, overlapMm: Number(e.target.value) }))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+                                                <div className="flex items-center justify-between">
+                                                    <label className="text-xs font-medium">Cor da Borda</label>
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="text-[10px] font-mono text-neutral-400">{findNearestThread(patchBorder.color, threadBrand).code}</span>
+                                                        <input type="color" value={patchBorder.color} onChange={(e) => setPatchBorder(prev => ({ ...prev, color: e.target.value }))} className="w-8 h-6 rounded border border-neutral-200" />
+                                                    </div>
+                                                </div>
+                                                <div className="flex items-center justify-between">
+                                                    <span className="text-xs font-medium">Underlay da Borda</span>
+                                                    <button onClick={() => setPatchBorder(prev => ({ ...prev, underlay: !prev.underlay }))} className={`w-8 h-4 rounded-full transition-colors ${patchBorder.underlay ? 'bg-[#2A4F60]' : 'bg-neutral-300'} relative`}>
+                                                        <div className={`w-3 h-3 bg-white rounded-full absolute top-0.5 transition-all ${patchBorder.underlay ? 'left-4' : 'left-0.5'}`}></div>
+                                                    </button>
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* PER LAYER OVERRIDES (imported machine files have no layers) */}
+                                {vectorLayers.length > 0 && !importedFileName && (
+                                    <div className="pt-4 border-t border-dashed border-neutral-200">
+                                        <LayerInspector layers={vectorLayers} defaults={layerDefaults} onSettingsChange={handleLayerSettingsChange} />
+                                    </div>
+                                )}
                             </div>
 
                             <div className="mt-8 pt-6 border-t border-dashed border-neutral-200 flex flex-col gap-3">
                                 <div className="flex gap-2">
-                                    <button onClick={() => { setExportFormat('exp'); handleDownload(); }} className="flex-1 py-3 bg-[#1C1C1C] text-white rounded-xl font-medium shadow-lg hover:bg-black flex items-center justify-center gap-2">
+                                    <button onClick={() => handleDownload('exp')} className="flex-1 py-3 bg-[#1C1C1C] text-white rounded-xl font-medium shadow-lg hover:bg-black flex items-center justify-center gap-2">
                                         <Download size={18} /> EXP
                                     </button>
-                                    <button onClick={() => { setExportFormat('dst'); handleDownload(); }} className="flex-1 py-3 bg-white border border-[#E8E6E2] text-[#1C1C1C] rounded-xl font-medium shadow-sm hover:bg-neutral-50 flex items-center justify-center gap-2">
+                                    <button onClick={() => handleDownload('dst')} className="flex-1 py-3 bg-white border border-[#E8E6E2] text-[#1C1C1C] rounded-xl font-medium shadow-sm hover:bg-neutral-50 flex items-center justify-center gap-2">
                                         <FileCode size={18} /> DST
                                     </button>
                                 </div>
-                                <button onClick={() => setState(AppState.REVIEW_VECTORS)} className="w-full py-3 text-xs text-neutral-400 hover:text-neutral-600">
-                                    Voltar à Geometria
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(['pes', 'jef', 'vp3'] as ExportFormat[]).map(f => (
+                                        <button key={f} onClick={() => handleDownload(f)} className="py-2 bg-white border border-[#E8E6E2] text-[#1C1C1C] rounded-xl text-xs font-medium uppercase shadow-sm hover:bg-neutral-50 flex items-center justify-center gap-1.5">
+                                            <FileCode size={14} /> {f}
+                                        </button>
+                                    ))}
+                                </div>
+                                <button onClick={handleDownloadWorksheet} className="w-full py-2 bg-white border border-dashed border-[#D8B066] text-[#1C1C1C] rounded-xl text-xs font-medium shadow-sm hover:bg-neutral-50 flex items-center justify-center gap-1.5">
+                                    <FileText size={14} /> Folha de Produção
                                 </button>
+                                <p className="text-[10px] text-center text-neutral-400">
+                                    Tempo e consumo de linha vão nas notas do {STATS_NOTE_FORMATS.map(f => f.toUpperCase()).join(', ')} e na Folha de Produção; DST, EXP, PES e JEF não têm campo de texto.
+                                </p>
+                                {appliqueLayers.length > 0 && (
+                                    <button onClick={handleDownloadCutLines} className="w-full py-2 bg-white border border-dashed border-[#D8B066] text-[#1C1C1C] rounded-xl text-xs font-medium shadow-sm hover:bg-neutral-50 flex items-center justify-center gap-1.5">
+                                        <Scissors size={14} /> Linha de Corte (Aplicação)
+                                    </button>
+                                )}
+                                {importedFileName ? (
+                                    <p className="text-[10px] text-center text-neutral-400 font-mono">Importado: {importedFileName}</p>
+                                ) : (
+                                    <button onClick={() => setState(AppState.REVIEW_VECTORS)} className="w-full py-3 text-xs text-neutral-400 hover:text-neutral-600">
+                                        Voltar à Geometria
+                                    </button>
+                                )}
                             </div>
                         </section>
                     )}
@@ -484,7 +886,7 @@ const App: React.FC = () => {
                 </div>
             </aside>
 
-            {!isMobileSettingsOpen && originalImage && (
+            {!isMobileSettingsOpen && (originalImage || importedFileName) && (
                 <button onClick={() => setIsMobileSettingsOpen(true)} className="md:hidden fixed bottom-6 right-6 w-14 h-14 bg-[#1C1C1C] text-white rounded-full shadow-xl flex items-center justify-center z-40">
                     <Settings2 />
                 </button>
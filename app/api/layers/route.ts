@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TracingConfig } from '../../../types';
+import { validateTracingConfig } from '../../../services/vectorizeOptions';
+import { vectorizeFile } from '../../../services/serverVectorizer';
+
+// Bitmap (PNG/JPEG/WebP) or SVG upload to VectorLayer[] JSON, traced entirely on the server
+export async function POST(req: NextRequest) {
+    try {
+        const formData = await req.formData();
+        const file = formData.get('image') as File;
+
+        if (!file) {
+            return NextResponse.json({ error: 'No image provided' }, { status: 400 });
+        }
+
+        // 1. Validate the request before any decoding
+        let config: TracingConfig;
+        try {
+            const rawConfig = formData.get('config');
+            config = validateTracingConfig(rawConfig ? JSON.parse(rawConfig as string) : null);
+        } catch (error) {
+            return NextResponse.json({ error: 'Invalid config', details: error instanceof Error ? error.message : String(error) }, { status: 400 });
+        }
+
+        const buffer = Buffer.from(await file.arrayBuffer());
+        console.log(`[API] Layers request received. Buffer size: ${buffer.length}, style: ${config.designStyle}`);
+
+        // 2. Decode and trace to layers in mm
+        const design = await vectorizeFile(buffer, config);
+        console.log(`[API] Layers traced: ${design.layers.length}`);
+
+        return NextResponse.json(design);
+
+    } catch (error) {
+        console.error('[API] Layer tracing error details:', error);
+        return NextResponse.json(
+            { error: 'Layer tracing failed', details: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
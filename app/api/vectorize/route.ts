@@ -1,36 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { vectorize, ColorMode, Hierarchical, PathSimplifyMode } from '@neplex/vectorizer';
+import { VectorizeOptions } from '../../../types';
+import { MAX_VECTORIZE_COLORS, validateVectorizeOptions } from '../../../services/vectorizeOptions';
+import { decodeImage, vectorizeWithVTracer } from '../../../services/serverVectorizer';
 
 export async function POST(req: NextRequest) {
     try {
         const formData = await req.formData();
         const file = formData.get('image') as File;
-        const colorCount = parseInt(formData.get('colorCount') as string) || 4;
 
         if (!file) {
             return NextResponse.json({ error: 'No image provided' }, { status: 400 });
         }
 
+        // 1. Validate the request before any decoding
+        const colorCount = Number(formData.get('colorCount') ?? 4);
+        if (!Number.isInteger(colorCount) || colorCount < 1 || colorCount > MAX_VECTORIZE_COLORS) {
+            return NextResponse.json({ error: 'Invalid colorCount', details: `Must be a whole number from 1 to ${MAX_VECTORIZE_COLORS}` }, { status: 400 });
+        }
+        let options: VectorizeOptions;
+        try {
+            const rawOptions = formData.get('options');
+            options = validateVectorizeOptions(rawOptions ? JSON.parse(rawOptions as string) : null);
+        } catch (error) {
+            return NextResponse.json({ error: 'Invalid options', details: error instanceof Error ? error.message : String(error) }, { status: 400 });
+        }
+
         const arrayBuffer = await file.arrayBuffer();
         const buffer = Buffer.from(arrayBuffer);
 
-        console.log(`[API] Vectorize request received. Buffer size: ${buffer.length}`);
+        console.log(`[API] Vectorize request received. Buffer size: ${buffer.length}, colors: ${colorCount}`);
 
-        // VTracer (via @neplex/vectorizer) Configuration
+        // 2. Decode to RGBA, quantize to exactly colorCount colours (background keyed out) and trace
         console.log('[API] Calling vectorize...');
-        const svg = await vectorize(buffer, {
-            colorMode: 0, // ColorMode.Color
-            colorPrecision: 6,
-            filterSpeckle: 4,
-            cornerThreshold: 60,
-            hierarchical: 0, // Hierarchical.Stacked
-            mode: 2, // PathSimplifyMode.Spline
-            layerDifference: 16,
-            pathPrecision: 8,
-            lengthThreshold: 10,
-            maxIterations: 10,
-            spliceThreshold: 45
-        } as any);
+        const svg = await vectorizeWithVTracer(await decodeImage(buffer), { colorCount, vectorize: options });
         console.log('[API] Vectorization successful. SVG length:', svg.length);
 
         return new NextResponse(svg, {
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { LayerStitchSettings, StitchType, TatamiUnderlayMode, VectorLayer } from '../types';
+import { RotateCcw } from 'lucide-react';
+
+interface LayerInspectorProps {
+  layers: VectorLayer[];
+  defaults: Required<LayerStitchSettings>; // Global values, shown while a layer has no override
+  onSettingsChange: (layerIndex: number, settings: LayerStitchSettings | undefined) => void; // undefined = follow the global config
+}
+
+const STITCH_TYPES: [StitchType, string][] = [
+  ['running', 'Corrido'], ['bean', 'Feijão'], ['motif', 'Motivo'], ['estitch', 'Ponto E'], ['satin', 'Cetim'], ['tatami', 'Tatami'],
+  ['applique', 'Aplicação']
+];
+const RUN_TYPES: StitchType[] = ['running', 'bean', 'motif', 'estitch'];
+const UNDERLAY_MODES: [TatamiUnderlayMode, string][] = [['auto', 'Auto'], ['edge', 'Contorno'], ['fill', 'Enchim.'], ['edge_fill', 'Ambos']];
+
+const optionClass = (active: boolean) =>
+  `py-1.5 rounded-lg border text-[10px] ${active ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`;
+
+interface FieldProps {
+  label: string;
+  value: string;
+  overridden: boolean;
+  onReset: () => void;
+  children: React.ReactNode;
+}
+
+// Label row: overridden values are marked and can be reset to the global one
+const Field: React.FC<FieldProps> = ({ label, value, overridden, onReset, children }) => (
+  <div className="space-y-1.5">
+    <div className="flex justify-between items-center">
+      <label className={`text-xs font-medium ${overridden ? 'text-[#D8B066]' : ''}`}>{label}</label>
+      <div className="flex items-center gap-1">
+        <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{value}</span>
+        {overridden && (
+          <button onClick={onReset} title="Usar valor global" className="text-neutral-400 hover:text-neutral-600">
+            <RotateCcw size={10} />
+          </button>
+        )}
+      </div>
+    </div>
+    {children}
+  </div>
+);
+
+const LayerInspector: React.FC<LayerInspectorProps> = ({ layers, defaults, onSettingsChange }) => {
+  const [selected, setSelected] = useState(0);
+  const index = Math.min(selected, layers.length - 1);
+  const layer = layers[index];
+  if (!layer) return null;
+
+  const settings = layer.settings || {};
+  const effective = { ...defaults, ...settings };
+
+  const set = <K extends keyof LayerStitchSettings>(key: K, value: LayerStitchSettings[K]) =>
+    onSettingsChange(index, { ...settings, [key]: value });
+
+  const reset = (...keys: (keyof LayerStitchSettings)[]) => {
+    const next = { ...settings };
+    keys.forEach(key => delete next[key]);
+    onSettingsChange(index, Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const isSet = (key: keyof LayerStitchSettings) => settings[key] !== undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-semibold text-neutral-500">Inspetor de Camadas</label>
+        {layer.settings && (
+          <button onClick={() => onSettingsChange(index, undefined)} className="text-[10px] text-neutral-400 hover:text-neutral-600">
+            Repor global
+          </button>
+        )}
+      </div>
+
+      {/* Layer picker (dot = layer has its own settings) */}
+      <div className="flex flex-wrap gap-1.5">
+        {layers.map((l, i) => (
+          <button
+            key={i}
+            onClick={() => setSelected(i)}
+            title={`Camada ${i + 1}`}
+            className={`relative w-7 h-7 rounded-md border-2 ${i === index ? 'border-[#2A4F60]' : 'border-neutral-200'}`}
+            style={{ backgroundColor: l.thread?.hex || l.color }}
+          >
+            {l.settings && <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-[#D8B066]" />}
+          </button>
+        ))}
+      </div>
+
+      <Field label={`Camada ${index + 1} · Tipo de Ponto`} value={STITCH_TYPES.find(([type]) => type === effective.stitchType)?.[1] || ''} overridden={isSet('stitchType')} onReset={() => reset('stitchType')}>
+        <div className="grid grid-cols-3 gap-1">
+          {STITCH_TYPES.map(([type, label]) => (
+            <button key={type} onClick={() => set('stitchType', type)} className={optionClass(effective.stitchType === type)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      {!RUN_TYPES.includes(effective.stitchType) && (
+        <Field label="Densidade" value={`${effective.densityMm}mm`} overridden={isSet('densityMm')} onReset={() => reset('densityMm')}>
+          <input type="range" min="0.3" max="1.0" step="0.05" value={effective.densityMm} onChange={(e) => set('densityMm', Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+        </Field>
+      )}
+
+      {effective.stitchType === 'tatami' && (
+        <Field label="Ângulo" value={`${effective.tatamiAngle}°`} overridden={isSet('tatamiAngle')} onReset={() => reset('tatamiAngle')}>
+          <input type="range" min="0" max="175" step="5" value={effective.tatamiAngle} onChange={(e) => set('tatamiAngle', Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+        </Field>
+      )}
+
+      {['satin', 'applique', 'motif', 'estitch'].includes(effective.stitchType) && (
+        <Field label={effective.stitchType === 'satin' || effective.stitchType === 'applique' ? 'Largura Coluna' : 'Largura'} value={`${effective.satinColumnWidthMm}mm`} overridden={isSet('satinColumnWidthMm')} onReset={() => reset('satinColumnWidthMm')}>
+          <input type="range" min="1.0" max="8.0" step="0.5" value={effective.satinColumnWidthMm} onChange={(e) => set('satinColumnWidthMm', Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+        </Field>
+      )}
+
+      <Field label="Compensação (Pull)" value={`${effective.pullCompensationMm}mm`} overridden={isSet('pullCompensationMm')} onReset={() => reset('pullCompensationMm')}>
+        <input type="range" min="0.0" max="0.6" step="0.05" value={effective.pullCompensationMm} onChange={(e) => set('pullCompensationMm', Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+      </Field>
+
+      <Field label="Underlay" value={effective.enableUnderlay ? 'On' : 'Off'} overridden={isSet('enableUnderlay') || isSet('tatamiUnderlay')} onReset={() => reset('enableUnderlay', 'tatamiUnderlay')}>
+        <div className="grid grid-cols-5 gap-1">
+          <button onClick={() => set('enableUnderlay', false)} className={optionClass(!effective.enableUnderlay)}>Off</button>
+          {effective.stitchType === 'tatami' ? UNDERLAY_MODES.map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => onSettingsChange(index, { ...settings, enableUnderlay: true, tatamiUnderlay: mode })}
+              className={optionClass(effective.enableUnderlay && effective.tatamiUnderlay === mode)}
+            >
+              {label}
+            </button>
+          )) : (
+            <button onClick={() => set('enableUnderlay', true)} className={optionClass(effective.enableUnderlay)}>On</button>
+          )}
+        </div>
+      </Field>
+    </div>
+  );
+};
+
+export default LayerInspector;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { VectorLayer } from '../types';
+import { DEFAULT_MERGE_TOLERANCE } from '../services/layerManager';
+import { ChevronDown, ChevronUp, Merge } from 'lucide-react';
+
+interface LayerManagerProps {
+  layers: VectorLayer[];
+  onMove: (from: number, to: number) => void;
+  onCombine: (into: number, from: number) => void;
+  onMergeSimilar: (tolerance: number) => void;
+}
+
+const iconButton = 'p-1 rounded text-neutral-400 hover:text-[#2A4F60] hover:bg-neutral-100 disabled:opacity-30 disabled:hover:bg-transparent';
+
+// Sewing order, listed top of the stack first (the last layer sews last, on top of the others)
+const LayerManager: React.FC<LayerManagerProps> = ({ layers, onMove, onCombine, onMergeSimilar }) => {
+  const [tolerance, setTolerance] = useState(DEFAULT_MERGE_TOLERANCE);
+  const stack = layers.map((layer, i) => ({ layer, i })).reverse();
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-semibold text-neutral-500 block">Camadas (topo primeiro)</label>
+
+      <div className="space-y-1">
+        {stack.map(({ layer, i }) => (
+          <div key={i} className="flex items-center gap-2">
+            <span className="w-5 h-5 rounded border border-neutral-200 shrink-0" style={{ backgroundColor: layer.thread?.hex || layer.color }} />
+            <span className="flex-1 min-w-0 text-xs truncate">
+              Camada {i + 1} <span className="text-neutral-400 font-mono">· {layer.paths.length} contornos</span>
+            </span>
+            <button onClick={() => onMove(i, i + 1)} disabled={i === layers.length - 1} title="Subir (bordar depois)" className={iconButton}>
+              <ChevronUp size={14} />
+            </button>
+            <button onClick={() => onMove(i, i - 1)} disabled={i === 0} title="Descer (bordar antes)" className={iconButton}>
+              <ChevronDown size={14} />
+            </button>
+            <button onClick={() => onCombine(i - 1, i)} disabled={i === 0} title="Juntar à camada de baixo" className={iconButton}>
+              <Merge size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5 pt-2">
+        <div className="flex justify-between items-center">
+          <label className="text-xs font-medium">Tolerância de Cor</label>
+          <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">ΔE {tolerance}</span>
+        </div>
+        <input type="range" min="1" max="20" step="1" value={tolerance} onChange={(e) => setTolerance(Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+        <button onClick={() => onMergeSimilar(tolerance)} disabled={layers.length < 2} className="w-full py-1.5 rounded-lg border border-neutral-200 text-xs text-neutral-600 hover:bg-neutral-50 disabled:opacity-50">
+          Fundir cores semelhantes
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LayerManager;
@@ -1,7 +1,8 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { Stitch, Hoop } from '../types';
-import { Play, Pause, SkipBack, ZoomIn, ZoomOut, Move, Maximize, Eye, EyeOff } from 'lucide-react';
+import { StitchStats, formatDuration, formatMeters } from '../services/stitchStats';
+import { Play, Pause, SkipBack, ZoomIn, ZoomOut, Move, Maximize, Eye, EyeOff, Clock } from 'lucide-react';
 
 interface PreviewProps {
   stitches: Stitch[];
@@ -10,9 +11,10 @@ interface PreviewProps {
   color?: string;
   className?: string;
   hoop: Hoop; // Receive selected hoop from parent
+  stats?: StitchStats; // Sew time and thread consumption, computed by the parent
 }
 
-const Preview: React.FC<PreviewProps> = ({ stitches, widthMm, heightMm, color = '#C44A4A', className, hoop }) => {
+const Preview: React.FC<PreviewProps> = ({ stitches, widthMm, heightMm, color = '#C44A4A', className, hoop, stats }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -423,6 +425,30 @@ const Preview: React.FC<PreviewProps> = ({ stitches, widthMm, heightMm, color =
                 {hoop.name}
                 {!(widthMm <= hoop.width && heightMm <= hoop.height) && <span className="font-bold">⚠️ OVERFLOW</span>}
              </div>
+
+             {/* Production Stats */}
+             {stats && stats.stitchCount > 0 && (
+                <div className="mt-2 w-52 bg-white/90 backdrop-blur-md rounded-lg shadow-sm border border-[#E8E6E2] p-3 text-[10px] font-mono text-[#1C1C1C] space-y-1.5">
+                    <div className="flex items-center gap-1.5 text-xs font-bold text-[#2A4F60]">
+                        <Clock size={12} /> {formatDuration(stats.estimatedSeconds)}
+                    </div>
+                    <div className="flex justify-between text-neutral-500">
+                        <span>{stats.stitchCount.toLocaleString('pt-PT')} pts</span>
+                        <span>{stats.trimCount} trims · {stats.jumpCount} saltos</span>
+                    </div>
+                    <div className="flex justify-between border-t border-dashed border-neutral-200 pt-1.5">
+                        <span>Linha {formatMeters(stats.topThreadMeters)}</span>
+                        <span>Bobina {formatMeters(stats.bobbinMeters)}</span>
+                    </div>
+                    {stats.colors.map((c, i) => (
+                        <div key={i} className="flex items-center gap-1.5 text-neutral-500">
+                            <span className="w-2.5 h-2.5 rounded-sm border border-neutral-300 shrink-0" style={{ backgroundColor: c.hexColor }} />
+                            <span className="flex-1">{c.stitchCount.toLocaleString('pt-PT')}</span>
+                            <span>{formatMeters(c.topThreadMeters)} / {formatMeters(c.bobbinMeters)}</span>
+                        </div>
+                    ))}
+                </div>
+             )}
         </div>
 
         {/* Viewport Toolbar */}
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ThreadBrand, ThreadColor, VectorLayer } from '../types';
+import { THREAD_BRANDS, THREAD_CATALOGS, rankThreads } from '../services/threadCatalog';
+import { Lock } from 'lucide-react';
+
+interface ThreadPanelProps {
+  layers: VectorLayer[];
+  brand: ThreadBrand;
+  onBrandChange: (brand: ThreadBrand) => void;
+  onThreadChange: (layerIndex: number, thread: ThreadColor | null) => void; // null = back to automatic match
+}
+
+const SUGGESTIONS = 6; // Closest threads listed first in the override menu
+
+const threadKey = (t: ThreadColor) => `${t.brand}:${t.code}:${t.name}`;
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({ layers, brand, onBrandChange, onThreadChange }) => {
+  const catalog = THREAD_CATALOGS[brand];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-xs font-semibold text-neutral-500 mb-1.5 block">Marca de Linha</label>
+        <select value={brand} onChange={(e) => onBrandChange(e.target.value as ThreadBrand)} className="w-full bg-neutral-50 border border-neutral-200 rounded-lg h-10 px-3 text-sm">
+          {THREAD_BRANDS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+        </select>
+      </div>
+
+      {layers.map((layer, i) => {
+        const suggestions = rankThreads(layer.color, brand, SUGGESTIONS);
+        const selectedKey = layer.threadLocked && layer.thread ? threadKey(layer.thread) : 'auto';
+
+        return (
+          <div key={i} className="flex items-center gap-2">
+            {/* Source colour -> thread colour */}
+            <div className="flex shrink-0 rounded-md overflow-hidden border border-neutral-200" title={`Original ${layer.color}`}>
+              <span className="w-4 h-8" style={{ backgroundColor: layer.color }} />
+              <span className="w-4 h-8" style={{ backgroundColor: layer.thread?.hex || layer.color }} />
+            </div>
+            <select
+              value={selectedKey}
+              onChange={(e) => {
+                if (e.target.value === 'auto') return onThreadChange(i, null);
+                const thread = catalog.find(t => threadKey(t) === e.target.value);
+                if (thread) onThreadChange(i, thread);
+              }}
+              className="flex-1 min-w-0 bg-neutral-50 border border-neutral-200 rounded-lg h-8 px-2 text-xs font-mono"
+            >
+              <option value="auto">
+                Auto{layer.thread && !layer.threadLocked ? ` · ${layer.thread.code} ${layer.thread.name}` : ''}
+              </option>
+              <optgroup label="Mais próximas">
+                {suggestions.map(({ thread, deltaE }) => (
+                  <option key={threadKey(thread)} value={threadKey(thread)}>
+                    {thread.code} {thread.name} (ΔE {deltaE.toFixed(1)})
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Catálogo">
+                {catalog.filter(t => !suggestions.some(s => s.thread === t)).map(t => (
+                  <option key={threadKey(t)} value={threadKey(t)}>{t.code} {t.name}</option>
+                ))}
+              </optgroup>
+            </select>
+            {layer.threadLocked && <Lock size={12} className="text-neutral-400 shrink-0" />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ThreadPanel;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { VectorizeOptions, VectorizePreset } from '../types';
+import { VECTORIZE_LIMITS, VECTORIZE_PRESETS } from '../services/vectorizeOptions';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+interface VectorizePanelProps {
+  preset: VectorizePreset;
+  options: VectorizeOptions;
+  onChange: (preset: VectorizePreset, options: VectorizeOptions) => void; // Editing a value switches to 'custom'
+}
+
+const optionClass = (active: boolean) =>
+  `py-1.5 rounded-lg border text-[10px] ${active ? 'border-[#2A4F60] text-[#2A4F60] bg-[#2A4F60]/5' : 'border-neutral-200 text-neutral-500'}`;
+
+const MODES: [VectorizeOptions['mode'], string][] = [['spline', 'Curvas'], ['polygon', 'Polígono'], ['none', 'Píxel']];
+const HIERARCHIES: [VectorizeOptions['hierarchical'], string][] = [['stacked', 'Empilhado'], ['cutout', 'Recortado']];
+
+const VectorizePanel: React.FC<VectorizePanelProps> = ({ preset, options, onChange }) => {
+  const [advanced, setAdvanced] = useState(false);
+  const set = <K extends keyof VectorizeOptions>(key: K, value: VectorizeOptions[K]) => onChange('custom', { ...options, [key]: value });
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-semibold text-neutral-500 block">Vetorização</label>
+      <div className="grid grid-cols-2 gap-1">
+        {VECTORIZE_PRESETS.map(p => (
+          <button key={p.id} onClick={() => onChange(p.id, p.options)} className={optionClass(preset === p.id)}>
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      <button onClick={() => setAdvanced(!advanced)} className="flex items-center gap-1 text-[10px] text-neutral-400 hover:text-neutral-600">
+        {advanced ? <ChevronUp size={12} /> : <ChevronDown size={12} />} Avançado{preset === 'custom' ? ' (personalizado)' : ''}
+      </button>
+
+      {advanced && (
+        <div className="space-y-3">
+          {(Object.keys(VECTORIZE_LIMITS) as (keyof typeof VECTORIZE_LIMITS)[]).map(key => {
+            const limits = VECTORIZE_LIMITS[key];
+            return (
+              <div key={key} className="space-y-1">
+                <div className="flex justify-between items-center">
+                  <label className="text-xs font-medium">{limits.label}</label>
+                  <span className="text-[10px] font-mono bg-neutral-100 px-1 rounded">{options[key]}</span>
+                </div>
+                <input type="range" min={limits.min} max={limits.max} step={limits.step} value={options[key]} onChange={(e) => set(key, Number(e.target.value))} className="w-full h-1 bg-neutral-200 rounded-full accent-[#2A4F60]" />
+              </div>
+            );
+          })}
+          <div className="grid grid-cols-3 gap-1">
+            {MODES.map(([mode, label]) => (
+              <button key={mode} onClick={() => set('mode', mode)} className={optionClass(options.mode === mode)}>{label}</button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            {HIERARCHIES.map(([hierarchical, label]) => (
+              <button key={hierarchical} onClick={() => set('hierarchical', hierarchical)} className={optionClass(options.hierarchical === hierarchical)}>{label}</button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VectorizePanel;
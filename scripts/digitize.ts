@@ -0,0 +1,160 @@
+import { readdir, readFile, stat, mkdir, writeFile } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { parseArgs } from 'util';
+import { DesignStyle, ThreadBrand } from '../types';
+import { applyConfigOverrides, BATCH_FORMATS, BatchFormat, digitizeFile } from '../services/batchDigitizer';
+import { findHoop, HOOPS, styleDefaults } from '../services/designPresets';
+import { THREAD_BRANDS } from '../services/threadCatalog';
+import { VECTORIZE_PRESETS } from '../services/vectorizeOptions';
+
+// Image or SVG (or a folder of them) to .dst/.exp plus a .json summary, without the app or the vision step.
+const USAGE = `Usage: npm run digitize -- <file|folder>... [options]
+
+  --style <vintage|patch_line|patch_fill>   Design style (default patch_fill)
+  --width <mm>                              Design width (default 100)
+  --hoop <name|WxH>                         Hoop (default "${HOOPS[0].name}"): ${HOOPS.map(h => `${h.width}x${h.height}`).join(', ')}
+  --colors <n>                              Patch colour count (default from the style)
+  --preset <${VECTORIZE_PRESETS.map(p => p.id).join('|')}>   Patch tracing preset
+  --threads <${THREAD_BRANDS.map(b => b.id).join('|')}>
+  --config <file.json>                      ProcessingConfig overrides
+  --set <field=value>                       One override, repeatable (JSON values, e.g. border.mode=silhouette, densityMm=0.42)
+  --format <dst,exp>                        Files to write (default both)
+  --out <dir>                               Output folder (default: next to each input)
+  --concurrency <n>                         Files in flight at once (default 2)`;
+
+const INPUT_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.svg'];
+
+const fail = (message: string): never => {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// field=value, dotted fields nest one level (border.mode=silhouette)
+const parseSet = (assignment: string, into: Record<string, unknown>) => {
+    const eq = assignment.indexOf('=');
+    if (eq <= 0) return fail(`Invalid --set "${assignment}": expected field=value`);
+    const [key, field] = assignment.slice(0, eq).split('.');
+    const raw = assignment.slice(eq + 1);
+    let value: unknown;
+    try { value = JSON.parse(raw); } catch { value = raw; }
+    if (!field) {
+        into[key] = value;
+        return;
+    }
+    const inner = into[key] ?? {};
+    if (!isRecord(inner)) return fail(`Invalid --set "${assignment}": "${key}" is not an object`);
+    into[key] = { ...inner, [field]: value };
+};
+
+const listInputs = async (paths: string[]): Promise<string[]> => {
+    const files: string[] = [];
+    for (const path of paths) {
+        if ((await stat(path)).isDirectory()) {
+            (await readdir(path)).sort()
+                .filter(name => INPUT_EXTENSIONS.includes(extname(name).toLowerCase()))
+                .forEach(name => files.push(join(path, name)));
+        } else {
+            files.push(path);
+        }
+    }
+    return files;
+};
+
+// Runs `work` over the items with at most `limit` in flight
+const runPool = async <T>(items: T[], limit: number, work: (item: T) => Promise<void>) => {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) await work(items[next++]);
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            style: { type: 'string', default: 'patch_fill' },
+            width: { type: 'string' },
+            hoop: { type: 'string' },
+            colors: { type: 'string' },
+            preset: { type: 'string' },
+            threads: { type: 'string' },
+            config: { type: 'string' },
+            set: { type: 'string', multiple: true },
+            format: { type: 'string', default: BATCH_FORMATS.join(',') },
+            out: { type: 'string' },
+            concurrency: { type: 'string', default: '2' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+    if (positionals.length === 0) return fail('No input given');
+
+    // 1. Settings: style defaults, then the config file, then the flags
+    const overrides: unknown = values.config ? JSON.parse(await readFile(values.config, 'utf8')) : {};
+    if (!isRecord(overrides)) return fail(`${values.config} must hold a JSON object`);
+    if (values.width !== undefined) overrides.widthMm = Number(values.width);
+    if (values.colors !== undefined) overrides.colorCount = Number(values.colors);
+    if (values.preset !== undefined) {
+        const preset = VECTORIZE_PRESETS.find(p => p.id === values.preset);
+        if (!preset) return fail(`Unknown preset "${values.preset}"`);
+        const vectorize = overrides.vectorize ?? {};
+        if (!isRecord(vectorize)) return fail('Config "vectorize" must be an object');
+        overrides.vectorize = { ...preset.options, ...vectorize };
+    }
+    (values.set || []).forEach(assignment => parseSet(assignment, overrides));
+
+    const style = values.style as DesignStyle;
+    if (!['vintage', 'patch_line', 'patch_fill'].includes(style)) return fail(`Unknown style "${style}"`);
+    let config = styleDefaults(style);
+    try {
+        config = applyConfigOverrides(config, overrides);
+    } catch (error) {
+        return fail(error instanceof Error ? error.message : String(error));
+    }
+
+    const hoop = values.hoop ? findHoop(values.hoop) : HOOPS[0];
+    if (!hoop) return fail(`Unknown hoop "${values.hoop}"`);
+    const threadBrand = (values.threads || undefined) as ThreadBrand | undefined;
+    if (threadBrand && !THREAD_BRANDS.some(b => b.id === threadBrand)) return fail(`Unknown thread brand "${threadBrand}"`);
+    const formats = values.format.split(',').map(f => f.trim().toLowerCase()) as BatchFormat[];
+    if (formats.some(f => !BATCH_FORMATS.includes(f))) return fail(`Formats must be among ${BATCH_FORMATS.join(', ')}`);
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) return fail('--concurrency must be a whole number of at least 1');
+
+    // 2. Inputs
+    const inputs = await listInputs(positionals);
+    if (inputs.length === 0) return fail('No images or SVGs found');
+
+    // 3. Digitize; one failing file does not stop the batch
+    let failed = 0;
+    await runPool(inputs, concurrency, async input => {
+        const name = basename(input, extname(input));
+        const outDir = values.out || dirname(input);
+        try {
+            const { files, summary } = await digitizeFile({ name, buffer: await readFile(input), config, hoop, formats, threadBrand });
+            await mkdir(outDir, { recursive: true });
+            for (const file of files) await writeFile(join(outDir, `${name}.${file.format}`), file.data);
+            await writeFile(join(outDir, `${name}.json`), JSON.stringify(summary, null, 2));
+            const overflow = summary.hoop.fits ? '' : `  OVERFLOW (${hoop.name})`;
+            console.log(`OK    ${input}  ${summary.stats.stitchCount} stitches, ${summary.layers.length} colours, ${summary.widthMm.toFixed(0)}x${summary.heightMm.toFixed(0)}mm, ${summary.estimatedTime}${overflow}`);
+        } catch (error) {
+            failed++;
+            console.log(`FAIL  ${input}  ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    console.log(`\n${inputs.length - failed}/${inputs.length} designs digitized`);
+    process.exit(failed > 0 ? 1 : 0);
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,15 @@
+import { runExportRoundTripSuite } from '../services/exportVerification';
+
+// Encodes/decodes synthetic designs through DST and EXP and exits non-zero on any drift.
+const results = runExportRoundTripSuite();
+let failed = 0;
+
+results.forEach(r => {
+    const status = r.failures.length === 0 ? 'PASS' : 'FAIL';
+    console.log(`${status}  ${r.format.toUpperCase()}  ${r.caseName}`);
+    r.failures.forEach(f => console.log(`        ${f}`));
+    if (r.failures.length > 0) failed++;
+});
+
+console.log(`\n${results.length - failed}/${results.length} round trips passed`);
+process.exit(failed > 0 ? 1 : 0);
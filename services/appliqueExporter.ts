@@ -0,0 +1,44 @@
+import { VectorLayer } from '../types';
+
+/**
+ * APPLIQUÉ CUT LINES
+ *
+ * Fabric pieces for a cutting plotter (SVG in mm units, cuts 1:1):
+ * - One group per appliqué layer (one fabric each), one closed path per contour, holes included.
+ * - Pieces follow the placement line; the cover satin overhangs it, so the raw edge stays hidden.
+ * - Pieces keep their place in the design, the sheet doubles as a placement template.
+ */
+
+const MARGIN = 5;
+
+const fmt = (n: number) => n.toFixed(2);
+
+export const createAppliqueCutSvg = (layers: VectorLayer[]): string => {
+    const contours = layers.reduce((n, l) => n + l.paths.length, 0);
+    if (contours === 0) return '';
+
+    // 1. Extents (stitch Y points up, SVG Y points down)
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    layers.forEach(l => l.paths.forEach(path => path.forEach(p => {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    })));
+    const width = maxX - minX + MARGIN * 2;
+    const height = maxY - minY + MARGIN * 2;
+    const toSheet = (x: number, y: number) => `${fmt(x - minX + MARGIN)} ${fmt(maxY - y + MARGIN)}`;
+
+    // 2. Cut paths
+    const out: string[] = [];
+    out.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}mm" height="${fmt(height)}mm" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`);
+    layers.forEach((layer, i) => {
+        const d = layer.paths
+            .filter(path => path.length > 2)
+            .map(path => `M${path.map(p => toSheet(p.x, p.y)).join(' L')} Z`)
+            .join(' ');
+        out.push(`<g id="applique-${i + 1}" data-color="${layer.thread?.hex || layer.color}">`);
+        out.push(`<path d="${d}" fill="none" fill-rule="evenodd" stroke="#000000" stroke-width="0.1"/>`);
+        out.push('</g>');
+    });
+    out.push('</svg>');
+    return out.join('\n');
+};
@@ -0,0 +1,137 @@
+import { Hoop, ProcessingConfig, SequenceReport, ThreadBrand } from '../types';
+import { vectorizeFile } from './serverVectorizer';
+import { digitizeDesign } from './imageProcessor';
+import { createDstFile } from './dstExporter';
+import { createExpFile } from './expExporter';
+import { computeStitchStats, formatDuration, StitchStats } from './stitchStats';
+import { DEFAULT_MERGE_TOLERANCE, mergeSimilarLayers } from './layerManager';
+import { DEFAULT_THREAD_BRAND, matchLayerThreads } from './threadCatalog';
+import { fitsHoop } from './designPresets';
+import { validateTracingConfig, validateVectorizeOptions } from './vectorizeOptions';
+
+/**
+ * HEADLESS DIGITIZING (Node only, used by scripts/digitize.ts)
+ *
+ * One image or SVG to machine files with no UI and no vision step: the bitmap is traced as it is,
+ * so it should already be flat (a cleaned up logo, a line drawing or an SVG).
+ * The steps are the app's: trace to layers, merge near-identical colours, match threads,
+ * digitize, then encode and summarize.
+ */
+
+export type BatchFormat = 'dst' | 'exp';
+export const BATCH_FORMATS: BatchFormat[] = ['dst', 'exp'];
+
+export interface DigitizeJob {
+    name: string; // Written into the DST header, names the output files
+    buffer: Buffer;
+    config: ProcessingConfig;
+    hoop: Hoop;
+    formats: BatchFormat[];
+    threadBrand?: ThreadBrand;
+}
+
+// JSON written next to the machine files
+export interface DesignSummary {
+    name: string;
+    designStyle: ProcessingConfig['designStyle'];
+    widthMm: number;
+    heightMm: number;
+    hoop: { name: string, fits: boolean };
+    layers: { color: string, thread?: string, paths: number }[];
+    sequence: SequenceReport;
+    stats: StitchStats;
+    estimatedTime: string;
+}
+
+export interface DigitizeOutput {
+    files: { format: BatchFormat, data: Uint8Array }[];
+    summary: DesignSummary;
+}
+
+export const digitizeFile = async ({ name, buffer, config, hoop, formats, threadBrand = DEFAULT_THREAD_BRAND }: DigitizeJob): Promise<DigitizeOutput> => {
+    // 1. Trace (same pipeline as /api/layers)
+    const design = await vectorizeFile(buffer, config);
+    if (design.layers.length === 0) throw new Error('Nothing to digitize: no shapes were traced');
+
+    // 2. Merge near-identical colours and pick threads, as the app does after vectorizing
+    const layers = matchLayerThreads(mergeSimilarLayers(design.layers, DEFAULT_MERGE_TOLERANCE, config.stitchType).layers, threadBrand);
+
+    // 3. Stitches
+    const { stitches, sequence } = digitizeDesign(layers, config);
+    if (stitches.length === 0) throw new Error('Nothing to digitize: no stitches were generated');
+
+    // 4. Machine files and summary
+    const files = formats.map(format => ({
+        format,
+        data: format === 'dst' ? createDstFile(stitches, design.width, design.height, { designName: name }) : createExpFile(stitches)
+    }));
+    const stats = computeStitchStats(stitches);
+
+    return {
+        files,
+        summary: {
+            name,
+            designStyle: config.designStyle,
+            widthMm: design.width,
+            heightMm: design.height,
+            hoop: { name: hoop.name, fits: fitsHoop(hoop, design.width, design.height) },
+            layers: layers.map(l => ({ color: l.color, thread: l.thread && `${l.thread.code} ${l.thread.name}`, paths: l.paths.length })),
+            sequence,
+            stats,
+            estimatedTime: formatDuration(stats.estimatedSeconds)
+        }
+    };
+};
+
+const typeName = (value: unknown) => (Array.isArray(value) ? 'array' : typeof value);
+
+// String fields that only take one of a few values (the unions in types.ts)
+const CHOICES: Record<string, string[]> = {
+    designStyle: ['vintage', 'patch_line', 'patch_fill'],
+    stitchType: ['running', 'bean', 'motif', 'estitch', 'satin', 'tatami', 'applique'],
+    satinCornerStyle: ['auto', 'mitre', 'cap', 'lap'],
+    tatamiUnderlay: ['auto', 'edge', 'fill', 'edge_fill'],
+    fillPattern: ['brick', 'twill', 'random', 'diamond', 'cross', 'custom'],
+    runMotif: ['zigzag', 'blanket', 'cross', 'custom'],
+    'border.mode': ['none', 'layer', 'silhouette'],
+};
+
+const checkValue = (path: string, value: unknown, current: unknown) => {
+    if (typeName(value) !== typeName(current)) throw new Error(`Config "${path}" must be a ${typeName(current)}`);
+    const choices = CHOICES[path];
+    if (choices && !choices.includes(value as string)) throw new Error(`Config "${path}" must be one of ${choices.join(', ')}`);
+};
+
+/**
+ * Config with overrides on top (parsed JSON, nested objects merge one level deep). Unknown fields
+ * and values of the wrong type throw, naming the field; the tracing fields get the same checks as
+ * /api/layers.
+ */
+export const applyConfigOverrides = (config: ProcessingConfig, overrides: Record<string, unknown>): ProcessingConfig => {
+    const result: Record<string, unknown> = { ...config };
+    Object.keys(overrides).forEach(key => {
+        const current = (config as unknown as Record<string, unknown>)[key];
+        const value = overrides[key];
+        if (current === undefined) throw new Error(`Unknown config field "${key}"`);
+        checkValue(key, value, current);
+
+        if (key === 'vectorize') {
+            result.vectorize = validateVectorizeOptions({ ...config.vectorize, ...(value as object) });
+        } else if (typeName(current) === 'object') {
+            const inner = current as Record<string, unknown>;
+            Object.keys(value as object).forEach(field => {
+                const fieldValue = (value as Record<string, unknown>)[field];
+                if (inner[field] === undefined) throw new Error(`Unknown config field "${key}.${field}"`);
+                checkValue(`${key}.${field}`, fieldValue, inner[field]);
+            });
+            result[key] = { ...inner, ...(value as object) };
+        } else {
+            result[key] = value;
+        }
+    });
+
+    const merged = result as unknown as ProcessingConfig;
+    const { designStyle, centerlineTrace, widthMm, colorCount, vectorize } = merged;
+    validateTracingConfig({ designStyle, centerlineTrace, widthMm, colorCount, vectorize });
+    return merged;
+};
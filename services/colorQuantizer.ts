@@ -0,0 +1,145 @@
+/**
+ * COLOUR QUANTIZATION (raw RGBA, no canvas)
+ *
+ * Reduces a bitmap to exactly N flat colours before tracing, so the tracer makes one layer per
+ * requested thread colour:
+ * - Background: near-white or transparent pixels connected to the image border are keyed out
+ *   (alpha 0). The tracer skips keyed pixels, so the fabric is not traced as a layer.
+ * - Palette: k-means on a sample of the remaining pixels, seeded with greedy k-means++ from a fixed
+ *   seed, so the same image always gives the same palette.
+ * - Every subject pixel takes its nearest palette colour: no anti-aliased edge shades are left to
+ *   become layers of their own.
+ */
+
+const BACKGROUND_MIN_RGB = 230;
+const MAX_SAMPLES = 20000;
+const ITERATIONS = 10;
+
+export type Color3 = [number, number, number]; // RGB or Lab
+
+const distSq = (a: Color3, b: Color3) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+// Colour of pixel i over white (half transparent edges count as the lighter colour they show)
+export const pixelOverWhite = (rgba: ArrayLike<number>, i: number): Color3 => {
+    const a = rgba[i * 4 + 3] / 255;
+    return [0, 1, 2].map(c => rgba[i * 4 + c] * a + 255 * (1 - a)) as Color3;
+};
+
+// 1 = background: transparent pixels, plus near-white pixels reached from the image border
+export const keyBackground = (rgba: ArrayLike<number>, w: number, h: number): Uint8Array => {
+    const background = new Uint8Array(w * h);
+    const candidate = (i: number) => {
+        if (rgba[i * 4 + 3] < 128) return true;
+        const [r, g, b] = pixelOverWhite(rgba, i);
+        return r > BACKGROUND_MIN_RGB && g > BACKGROUND_MIN_RGB && b > BACKGROUND_MIN_RGB;
+    };
+
+    const stack: number[] = [];
+    const seed = (i: number) => {
+        if (!background[i] && candidate(i)) { background[i] = 1; stack.push(i); }
+    };
+    for (let x = 0; x < w; x++) { seed(x); seed((h - 1) * w + x); }
+    for (let y = 0; y < h; y++) { seed(y * w); seed(y * w + w - 1); }
+    while (stack.length > 0) {
+        const i = stack.pop()!;
+        const x = i % w, y = (i - x) / w;
+        if (x > 0) seed(i - 1);
+        if (x < w - 1) seed(i + 1);
+        if (y > 0) seed(i - w);
+        if (y < h - 1) seed(i + w);
+    }
+    for (let i = 0; i < w * h; i++) if (rgba[i * 4 + 3] < 128) background[i] = 1;
+    return background;
+};
+
+// Index of the nearest centre
+export const nearestColor = (c: Color3, centres: Color3[]): number => {
+    let best = 0, bestD = Infinity;
+    centres.forEach((centre, k) => {
+        const d = distSq(c, centre);
+        if (d < bestD) { bestD = d; best = k; }
+    });
+    return best;
+};
+
+/**
+ * k-means on colour samples in any three channel space (RGB here, Lab for the local cleanup).
+ * At most `count` centres: fewer when the samples have fewer distinct colours.
+ */
+export const clusterColors = (samples: Color3[], count: number): Color3[] => {
+    if (samples.length === 0 || count < 1) return [];
+
+    // 1. k-means++ seeds (fixed LCG seed, so the same image always gives the same palette).
+    // Greedy: of a few candidates per seed (the first drawn uniformly) keep the one that lowers the
+    // total cost most, so a thin band of anti-aliased edge shades, far from everything but only a few
+    // pixels, does not take a seed
+    let state = 1;
+    const random = () => { state = (state * 16807) % 2147483647; return state / 2147483647; };
+    const centres: Color3[] = [];
+    let nearest = samples.map(() => Infinity);
+    const trials = 2 + Math.floor(Math.log(count));
+    while (centres.length < count) {
+        const total = nearest.reduce((sum, d) => sum + d, 0);
+        if (total === 0) break; // Fewer distinct colours than asked for
+        let best: { idx: number, cost: number, nearest: number[] } | null = null;
+        for (let t = 0; t < trials; t++) {
+            let idx = 0;
+            if (centres.length === 0) idx = Math.floor(random() * samples.length);
+            else {
+                let pick = random() * total;
+                while (idx < samples.length - 1 && pick >= nearest[idx]) pick -= nearest[idx++];
+            }
+            const candidate = samples.map((s, k) => Math.min(nearest[k], distSq(s, samples[idx])));
+            const cost = candidate.reduce((sum, d) => sum + d, 0);
+            if (!best || cost < best.cost) best = { idx, cost, nearest: candidate };
+        }
+        centres.push(samples[best!.idx]);
+        nearest = best!.nearest;
+    }
+
+    // 2. Lloyd iterations
+    for (let iter = 0; iter < ITERATIONS; iter++) {
+        const sums = centres.map(() => [0, 0, 0, 0]);
+        samples.forEach(s => {
+            const sum = sums[nearestColor(s, centres)];
+            sum[0] += s[0]; sum[1] += s[1]; sum[2] += s[2]; sum[3]++;
+        });
+        sums.forEach((sum, k) => {
+            if (sum[3] > 0) centres[k] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+        });
+    }
+    return centres;
+};
+
+/**
+ * Quantized copy of the image: background keyed out, every other pixel one of at most `count`
+ * colours (exactly `count` when the image has that many distinct ones).
+ */
+export const quantizeToColors = (rgba: ArrayLike<number>, w: number, h: number, count: number): Uint8ClampedArray => {
+    const out = new Uint8ClampedArray(w * h * 4);
+    const background = keyBackground(rgba, w, h);
+    const subject: number[] = [];
+    for (let i = 0; i < w * h; i++) if (!background[i]) subject.push(i);
+    if (subject.length === 0 || count < 1) return out;
+
+    // 1. Palette from a sample of the subject
+    const step = Math.max(1, Math.floor(subject.length / MAX_SAMPLES));
+    const samples: Color3[] = [];
+    for (let k = 0; k < subject.length; k += step) samples.push(pixelOverWhite(rgba, subject[k]));
+    const centres = clusterColors(samples, count);
+    const palette = centres.map(c => c.map(Math.round) as Color3);
+
+    // 2. Paint every subject pixel with its palette colour (cached per source colour)
+    const cache = new Map<number, number>();
+    subject.forEach(i => {
+        const c = pixelOverWhite(rgba, i);
+        const key = (Math.round(c[0]) << 16) | (Math.round(c[1]) << 8) | Math.round(c[2]);
+        let k = cache.get(key);
+        if (k === undefined) { k = nearestColor(c, centres); cache.set(key, k); }
+        out[i * 4] = palette[k][0];
+        out[i * 4 + 1] = palette[k][1];
+        out[i * 4 + 2] = palette[k][2];
+        out[i * 4 + 3] = 255;
+    });
+    return out;
+};
@@ -0,0 +1,67 @@
+import { DesignStyle, Hoop, PatchBorderConfig, ProcessingConfig } from '../types';
+import { DEFAULT_CUSTOM_OFFSETS, DEFAULT_FILL_STITCH_LENGTHS } from './fillPatterns';
+import { DEFAULT_CUSTOM_MOTIF } from './runMotifs';
+import { DEFAULT_VECTORIZE_OPTIONS } from './vectorizeOptions';
+
+/**
+ * DESIGN PRESETS (shared by the app and the command line)
+ *
+ * - Hoops offered by the app.
+ * - The settings a new design starts from, and what picking a style changes on top of them (the
+ *   same values the style buttons in the app set).
+ */
+
+export const HOOPS: Hoop[] = [
+    { name: '100x100 (4x4")', width: 100, height: 100, shape: 'rect' },
+    { name: '130x180 (5x7")', width: 130, height: 180, shape: 'rect' },
+    { name: '160x260 (6x10")', width: 160, height: 260, shape: 'rect' },
+    { name: 'Bernina Large Oval', width: 145, height: 255, shape: 'oval' },
+    { name: 'Bernina Midi', width: 100, height: 130, shape: 'rect' },
+];
+
+export const DEFAULT_PATCH_BORDER: PatchBorderConfig = { mode: 'none', layerIndex: 0, widthMm: 4.0, color: '#1C1C1C', overlapMm: 0.8, underlay: true };
+
+// Same rule as the Preview overflow badge
+export const fitsHoop = (hoop: Hoop, widthMm: number, heightMm: number) => widthMm <= hoop.width && heightMm <= hoop.height;
+
+// Hoop by exact name, by the size at the start of the name ("130x180") or by its width x height
+export const findHoop = (query: string): Hoop | undefined => {
+    const q = query.trim().toLowerCase();
+    return HOOPS.find(h => h.name.toLowerCase() === q)
+        || HOOPS.find(h => h.name.toLowerCase().startsWith(q))
+        || HOOPS.find(h => `${h.width}x${h.height}` === q);
+};
+
+const BASE_CONFIG: ProcessingConfig = {
+    designStyle: 'patch_fill',
+    centerlineTrace: true,
+    widthMm: 100,
+    stitchType: 'tatami',
+    densityMm: 0.40,
+    satinColumnWidthMm: 3.5,
+    satinCornerStyle: 'auto',
+    pullCompensationMm: 0.25,
+    enableUnderlay: true,
+    tatamiUnderlay: 'auto',
+    tatamiAngle: 45,
+    fillPattern: 'brick',
+    fillStitchLengthMm: DEFAULT_FILL_STITCH_LENGTHS,
+    fillCustomOffsets: DEFAULT_CUSTOM_OFFSETS,
+    border: DEFAULT_PATCH_BORDER,
+    runMotif: 'zigzag',
+    runMotifCustom: DEFAULT_CUSTOM_MOTIF,
+    maxStitchLengthMm: 2.5,
+    minStitchLengthMm: 0.2,
+    trimJumpDistanceMm: 2.0,
+    colorCount: 4,
+    vectorize: DEFAULT_VECTORIZE_OPTIONS,
+};
+
+const STYLE_PRESETS: Record<DesignStyle, Partial<ProcessingConfig>> = {
+    vintage: { stitchType: 'running', colorCount: 1, satinColumnWidthMm: 2.5, pullCompensationMm: 0.1, maxStitchLengthMm: 2.5, minStitchLengthMm: 0.1 },
+    patch_line: { stitchType: 'satin', colorCount: 1, satinColumnWidthMm: 3.0, maxStitchLengthMm: 7.0 },
+    patch_fill: { stitchType: 'tatami', colorCount: 4, pullCompensationMm: 0.3, densityMm: 0.38, maxStitchLengthMm: 7.0 },
+};
+
+export const styleDefaults = (designStyle: DesignStyle): ProcessingConfig =>
+    ({ ...BASE_CONFIG, ...STYLE_PRESETS[designStyle], designStyle });
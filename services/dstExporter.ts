@@ -1,4 +1,5 @@
 import { Stitch } from '../types';
+import { DST_TRIM_JUMP_COUNT } from './exportUtils';
 
 /**
  * Encodes stitches into Tajima .DST Binary Format.
@@ -7,18 +8,47 @@ import { Stitch } from '../types';
  * Structure:
  * - Header (512 bytes)
  * - Body (3 bytes per stitch command)
+ *
+ * DST has no trim opcode: machines trim on a run of consecutive jumps, so each 'trim'
+ * is written as `trimJumpCount` small jumps that return to the same point.
  */
 
+export interface DstExportOptions {
+    designName?: string; // Written to the LA field (16 chars max)
+    trimJumpCount?: number; // Jumps per trim (default DST_TRIM_JUMP_COUNT, match the machine setting)
+}
+
+// Helper: 5 balanced ternary digits (weights 1, 3, 9, 27, 81), valid for -121..121
+const toBalancedTernary = (value: number): number[] => {
+    const digits: number[] = [];
+    let v = value;
+    for (let i = 0; i < 5; i++) {
+        let r = ((v % 3) + 3) % 3;
+        if (r === 2) r = -1;
+        digits.push(r);
+        v = (v - r) / 3;
+    }
+    return digits;
+};
+
 // Helper: Bit manipulation for Tajima encoding
 // Tajima encodes X and Y changes into 3 bytes using a specific bit interleaving pattern.
 const encodeTajimaStitch = (dx: number, dy: number, type: 'stitch' | 'jump' | 'stop' | 'end') => {
     const b = new Uint8Array(3);
-    let x = dx;
-    let y = dy;
+    const x = dx;
+    const y = dy;
     let jump = type === 'jump';
     let stop = type === 'stop';
     let end = type === 'end';
 
+    // Bits 0 and 1 of byte 2 are always set in a valid record
+    b[2] |= 0b00000011;
+
+    if (end) {
+        b[2] = 0xF3; // End of design
+        return b;
+    }
+
     // Set Control Bits (Byte 2)
     // Bit 7 and 6 are status bits
     // 00 = Normal, 11 = Jump or Stop (distinguished by other bits usually, but DST is weird)
@@ -33,39 +63,63 @@ const encodeTajimaStitch = (dx: number, dy: number, type: 'stitch' | 'jump' | 's
         b[2] |= 0b01000000; // Set bit 6 (Stop/Color Change)
     }
 
+    // Deltas are written in balanced ternary (digits -1/0/+1 for weights 1, 3, 9, 27, 81).
+    // A greedy "if (y >= 9)" cascade cannot reach every value in -121..121 and drifts.
+    const [y1, y3, y9, y27, y81] = toBalancedTernary(y);
+    const [x1, x3, x9, x27, x81] = toBalancedTernary(x);
+
     // Map bits for Y
-    if (y >= 1) { b[0] |= 0x01; y -= 1; }
-    if (y <= -1) { b[0] |= 0x02; y += 1; }
-    if (y >= 9) { b[0] |= 0x04; y -= 9; }
-    if (y <= -9) { b[0] |= 0x08; y += 9; }
-    if (y >= 3) { b[1] |= 0x80; y -= 3; }
-    if (y <= -3) { b[1] |= 0x40; y += 3; }
-    if (y >= 27) { b[1] |= 0x20; y -= 27; }
-    if (y <= -27) { b[1] |= 0x10; y += 27; }
-    if (y >= 81) { b[2] |= 0x04; y -= 81; }
-    if (y <= -81) { b[2] |= 0x08; y += 81; }
+    if (y1 > 0) b[0] |= 0x01;
+    if (y1 < 0) b[0] |= 0x02;
+    if (y9 > 0) b[0] |= 0x04;
+    if (y9 < 0) b[0] |= 0x08;
+    if (y3 > 0) b[1] |= 0x80;
+    if (y3 < 0) b[1] |= 0x40;
+    if (y27 > 0) b[1] |= 0x20;
+    if (y27 < 0) b[1] |= 0x10;
+    if (y81 > 0) b[2] |= 0x04;
+    if (y81 < 0) b[2] |= 0x08;
 
     // Map bits for X
-    if (x >= 1) { b[0] |= 0x80; x -= 1; }
-    if (x <= -1) { b[0] |= 0x40; x += 1; }
-    if (x >= 9) { b[0] |= 0x20; x -= 9; }
-    if (x <= -9) { b[0] |= 0x10; x += 9; }
-    if (x >= 3) { b[1] |= 0x08; x -= 3; }
-    if (x <= -3) { b[1] |= 0x04; x += 3; }
-    if (x >= 27) { b[1] |= 0x02; x -= 27; }
-    if (x <= -27) { b[1] |= 0x01; x += 27; }
-    if (x >= 81) { b[2] |= 0x10; x -= 81; }
-    if (x <= -81) { b[2] |= 0x20; x += 81; }
+    if (x1 > 0) b[0] |= 0x80;
+    if (x1 < 0) b[0] |= 0x40;
+    if (x9 > 0) b[0] |= 0x20;
+    if (x9 < 0) b[0] |= 0x10;
+    if (x3 > 0) b[1] |= 0x08;
+    if (x3 < 0) b[1] |= 0x04;
+    if (x27 > 0) b[1] |= 0x02;
+    if (x27 < 0) b[1] |= 0x01;
+    if (x81 > 0) b[2] |= 0x10;
+    if (x81 < 0) b[2] |= 0x20;
 
     return b;
 };
 
-export const createDstFile = (stitches: Stitch[], widthMm: number, heightMm: number): Uint8Array => {
+// Helper: Trim as a jump wiggle (+2, -4, +4 ... back to 0), zero-length jumps are ignored by some machines
+const trimJumpSequence = (count: number): number[] => {
+    const steps: number[] = [];
+    let offset = 0;
+    for (let k = 0; k < count - 1; k++) {
+        const step = k === 0 ? 2 : (offset > 0 ? -4 : 4);
+        steps.push(step);
+        offset += step;
+    }
+    steps.push(-offset);
+    return steps;
+};
+
+// Helper: Header numbers, sign + 5 digits (e.g. AX:-00123)
+const formatSigned = (value: number) => `${value < 0 ? '-' : '+'}${Math.abs(value).toString().padStart(5, '0')}`;
+
+export const createDstFile = (stitches: Stitch[], widthMm: number, heightMm: number, options: DstExportOptions = {}): Uint8Array => {
+    const trimJumpCount = Math.max(1, Math.round(options.trimJumpCount ?? DST_TRIM_JUMP_COUNT));
+
     // 1. Calculate Extents and convert to 0.1mm integers
     // DST coordinates are relative, but header needs absolute bounding box in 0.1mm
     let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
     let currentX = 0, currentY = 0;
     let stitchCount = 0;
+    let stopCount = 0;
 
     // Buffer for body
     const bodyParts: Uint8Array[] = [];
@@ -107,10 +161,28 @@ export const createDstFile = (stitches: Stitch[], widthMm: number, heightMm: num
             stitchCount++; // Does intermediate jump count as stitch? In DST usually yes.
         }
 
+        if (s.type === 'trim') {
+            // Reach the trim point first (normally already there), then the jump run the machine trims on
+            if (dx !== 0 || dy !== 0) {
+                bodyParts.push(encodeTajimaStitch(dx, dy, 'jump'));
+                currentX += dx;
+                currentY += dy;
+                stitchCount++;
+            }
+            for (const step of trimJumpSequence(trimJumpCount)) {
+                bodyParts.push(encodeTajimaStitch(step, step, 'jump'));
+                stitchCount++;
+            }
+            continue;
+        }
+
         // Final step
         let type: 'stitch' | 'jump' | 'stop' = 'stitch';
         if (s.type === 'jump') type = 'jump';
-        if (s.type === 'color_change') type = 'stop';
+        if (s.type === 'color_change') {
+            type = 'stop';
+            stopCount++;
+        }
 
         bodyParts.push(encodeTajimaStitch(dx, dy, type));
         
@@ -122,26 +194,34 @@ export const createDstFile = (stitches: Stitch[], widthMm: number, heightMm: num
     // End of file command
     bodyParts.push(encodeTajimaStitch(0, 0, 'end'));
 
+    if (minX === Infinity) {
+        minX = maxX = minY = maxY = 0;
+    }
+
     // 2. Build Header (512 Bytes)
     const header = new Uint8Array(512).fill(32); // Fill with spaces (ASCII 32)
 
-    const writeString = (str: string, offset: number) => {
+    // Every field is closed with a carriage return
+    const writeField = (str: string, offset: number) => {
         for (let i = 0; i < str.length; i++) {
             header[offset + i] = str.charCodeAt(i);
         }
+        header[offset + str.length] = 0x0D;
     };
 
-    // Construct Label (LA)
-    const label = "SR_LUCAS"; 
-    writeString(`LA:${label.padEnd(16, ' ')}`, 0);
+    // Construct Label (LA) - printable ASCII only, 16 chars
+    const label = (options.designName || 'SR_LUCAS')
+        .normalize('NFD')
+        .replace(/[^\x20-\x7E]/g, '')
+        .trim()
+        .slice(0, 16) || 'SR_LUCAS';
+    writeField(`LA:${label.padEnd(16, ' ')}`, 0);
 
-    // Stitch Count (ST) - 7 digits
-    writeString(`ST:${stitchCount.toString().padStart(7, '0')}`, 23);
+    // Stitch Count (ST) - 7 digits, every record except the END marker
+    writeField(`ST:${stitchCount.toString().padStart(7, '0')}`, 20);
 
-    // Color Change Count (CO) - 3 digits (Currently 0 or 1 based on logic)
-    // For now we just count explicitly
-    const coCount = stitches.filter(s => s.type === 'color_change').length;
-    writeString(`CO:${coCount.toString().padStart(3, '0')}`, 39);
+    // Color Change Count (CO) - 3 digits, the stop records actually written
+    writeField(`CO:${stopCount.toString().padStart(3, '0')}`, 31);
 
     // Extents (+X, -X, +Y, -Y) - 5 digits
     // DST coordinates center is roughly user defined, but usually 0,0 is center.
@@ -152,21 +232,23 @@ export const createDstFile = (stitches: Stitch[], widthMm: number, heightMm: num
     const pY = Math.max(0, maxY);
     const nY = Math.abs(Math.min(0, minY));
 
-    writeString(`+X:${pX.toString().padStart(5, '0')}`, 54);
-    writeString(`-X:${nX.toString().padStart(5, '0')}`, 69);
-    writeString(`+Y:${pY.toString().padStart(5, '0')}`, 84);
-    writeString(`-Y:${nY.toString().padStart(5, '0')}`, 99);
+    writeField(`+X:${pX.toString().padStart(5, '0')}`, 38);
+    writeField(`-X:${nX.toString().padStart(5, '0')}`, 47);
+    writeField(`+Y:${pY.toString().padStart(5, '0')}`, 56);
+    writeField(`-Y:${nY.toString().padStart(5, '0')}`, 65);
 
-    // Author/Copyright (AX, AY, MX, MY usually implied delta to last point, or 0)
-    writeString("AX:+00000", 114);
-    writeString("AY:+00000", 129);
-    writeString("MX:+00000", 144);
-    writeString("MY:+00000", 159);
+    // AX/AY: Needle position at the end of the design, relative to the start (0,0)
+    // MX/MY: Same for the previous file of a multi-volume design (not used)
+    writeField(`AX:${formatSigned(currentX)}`, 74);
+    writeField(`AY:${formatSigned(currentY)}`, 84);
+    writeField(`MX:${formatSigned(0)}`, 94);
+    writeField(`MY:${formatSigned(0)}`, 104);
 
-    // PD (Previous Design? Usually emulated 000000)
-    writeString("PD:******", 174); // Often ******* or 000000
+    // PD: Previous design of a multi-volume set
+    writeField("PD:******", 114);
 
-    // 0x1A (EOF for header) usually at byte 511? DST doesn't strictly enforce it but good practice.
+    // 0x1A closes the text part of the header
+    header[124] = 0x1A;
     
     // 3. Combine Header and Body
     const totalSize = 512 + bodyParts.length * 3;
@@ -0,0 +1,121 @@
+import { Stitch } from '../types';
+import { decodeJumpRun, DST_TRIM_JUMP_COUNT } from './exportUtils';
+
+/**
+ * Decodes Tajima .DST files into the Stitch model (inverse of createDstFile).
+ *
+ * - Header (512 bytes): only the label (LA:) is read, extents are recomputed from the body.
+ * - Body: 3 bytes per record, X/Y deltas interleaved in balanced-ternary bits (see encodeTajimaStitch).
+ *   - Byte 2 bit 7: Jump. Bits 7+6: Stop / Colour change. 0xF3: End.
+ * - DST has no trim opcode: the machine trims on DST_TRIM_JUMP_COUNT or more consecutive tiny jumps
+ *   in place, so such runs become a 'trim'. Long moves split over several jumps stay one 'jump'.
+ */
+
+export interface DstRecord {
+    dx: number;
+    dy: number;
+    type: 'stitch' | 'jump' | 'stop' | 'end';
+}
+
+// Inverse of encodeTajimaStitch: bits -> (dx, dy) in 0.1mm
+export const decodeTajimaStitch = (b0: number, b1: number, b2: number): DstRecord => {
+    let dx = 0;
+    let dy = 0;
+
+    if (b0 & 0x01) dy += 1;
+    if (b0 & 0x02) dy -= 1;
+    if (b0 & 0x04) dy += 9;
+    if (b0 & 0x08) dy -= 9;
+    if (b1 & 0x80) dy += 3;
+    if (b1 & 0x40) dy -= 3;
+    if (b1 & 0x20) dy += 27;
+    if (b1 & 0x10) dy -= 27;
+    if (b2 & 0x04) dy += 81;
+    if (b2 & 0x08) dy -= 81;
+
+    if (b0 & 0x80) dx += 1;
+    if (b0 & 0x40) dx -= 1;
+    if (b0 & 0x20) dx += 9;
+    if (b0 & 0x10) dx -= 9;
+    if (b1 & 0x08) dx += 3;
+    if (b1 & 0x04) dx -= 3;
+    if (b1 & 0x02) dx += 27;
+    if (b1 & 0x01) dx -= 27;
+    if (b2 & 0x10) dx += 81;
+    if (b2 & 0x20) dx -= 81;
+
+    if ((b2 & 0xF3) === 0xF3) return { dx, dy, type: 'end' };
+    if ((b2 & 0xC0) === 0xC0) return { dx, dy, type: 'stop' };
+    if (b2 & 0x80) return { dx, dy, type: 'jump' };
+    return { dx, dy, type: 'stitch' };
+};
+
+export interface DstParseOptions {
+    trimJumpCount?: number; // Consecutive tiny jumps read as a trim (default DST_TRIM_JUMP_COUNT)
+}
+
+export const parseDstFile = (data: Uint8Array, options: DstParseOptions = {}): { stitches: Stitch[], label: string } => {
+    if (data.length < 512) throw new Error("DST file too short (missing 512 byte header)");
+
+    const trimJumpCount = options.trimJumpCount ?? DST_TRIM_JUMP_COUNT;
+
+    // 1. Header label
+    let label = '';
+    const headerText = String.fromCharCode(...Array.from(data.subarray(0, 20)));
+    if (headerText.startsWith('LA:')) {
+        label = headerText.slice(3).split('\r')[0].trim();
+    }
+
+    // 2. Decode records
+    const records: DstRecord[] = [];
+    for (let offset = 512; offset + 2 < data.length; offset += 3) {
+        const rec = decodeTajimaStitch(data[offset], data[offset + 1], data[offset + 2]);
+        records.push(rec);
+        if (rec.type === 'end') break;
+    }
+
+    // Older exports closed the file with a bare stop (0xC0) instead of 0xF3
+    const last = records[records.length - 1];
+    if (last && last.type === 'stop' && last.dx === 0 && last.dy === 0) {
+        last.type = 'end';
+    }
+
+    // 3. Rebuild absolute positions (mm)
+    const stitches: Stitch[] = [];
+    let x = 0;
+    let y = 0;
+    let colorIndex = 0;
+
+    for (let i = 0; i < records.length; i++) {
+        const rec = records[i];
+
+        if (rec.type === 'jump') {
+            // Collapse the whole jump run into moves, a trim only where the run carries its signature
+            const run: DstRecord[] = [];
+            while (i < records.length && records[i].type === 'jump') run.push(records[i++]);
+            i--;
+
+            stitches.push(...decodeJumpRun({ x, y }, run, trimJumpCount, colorIndex));
+            run.forEach(r => { x += r.dx; y += r.dy; });
+            continue;
+        }
+
+        x += rec.dx;
+        y += rec.dy;
+
+        if (rec.type === 'stop') {
+            colorIndex++;
+            stitches.push({ x: x / 10, y: y / 10, type: 'color_change', colorIndex, isStructure: true });
+        } else if (rec.type === 'end') {
+            break;
+        } else {
+            stitches.push({ x: x / 10, y: y / 10, type: 'stitch', colorIndex });
+        }
+    }
+
+    if (stitches.length > 0) {
+        stitches.push({ ...stitches[stitches.length - 1], type: 'end' });
+    }
+
+    return { stitches, label };
+};
@@ -0,0 +1,59 @@
+import { EmbroideryDesign, Stitch } from '../types';
+import { parseDstFile } from './dstImporter';
+import { parseExpFile } from './expImporter';
+
+/**
+ * Entry point for machine files uploaded by clients (.dst / .exp).
+ * DST and EXP carry no thread colours, so each colour block gets a placeholder
+ * from IMPORT_THREAD_COLORS that the user can recolour before re-exporting.
+ */
+
+export const IMPORT_THREAD_COLORS = ['#C44A4A', '#2A4F60', '#D8B066', '#1C1C1C', '#5D5D5D', '#6B8E23', '#8E4585', '#E07B39'];
+
+export const isMachineFile = (fileName: string) => /\.(dst|exp)$/i.test(fileName);
+
+// Shift the design so its bounding box is centred on 0,0 (Preview and hoop checks assume this)
+const centerStitches = (stitches: Stitch[]): { stitches: Stitch[], width: number, height: number } => {
+    const positioned = stitches.filter(s => s.type !== 'end');
+    if (positioned.length === 0) return { stitches, width: 0, height: 0 };
+
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    positioned.forEach(s => {
+        if (s.x < minX) minX = s.x;
+        if (s.x > maxX) maxX = s.x;
+        if (s.y < minY) minY = s.y;
+        if (s.y > maxY) maxY = s.y;
+    });
+    const cx = (minX + maxX) / 2;
+    const cy = (minY + maxY) / 2;
+
+    return {
+        stitches: stitches.map(s => ({ ...s, x: s.x - cx, y: s.y - cy })),
+        width: maxX - minX,
+        height: maxY - minY
+    };
+};
+
+export const importMachineFile = (fileName: string, data: Uint8Array): EmbroideryDesign => {
+    let decoded: Stitch[];
+    if (/\.dst$/i.test(fileName)) {
+        decoded = parseDstFile(data).stitches;
+    } else if (/\.exp$/i.test(fileName)) {
+        decoded = parseExpFile(data).stitches;
+    } else {
+        throw new Error(`Unsupported machine file: ${fileName}`);
+    }
+
+    if (decoded.length === 0) throw new Error("The file contains no stitches");
+
+    const colored = decoded.map(s => ({
+        ...s,
+        hexColor: IMPORT_THREAD_COLORS[(s.colorIndex ?? 0) % IMPORT_THREAD_COLORS.length]
+    }));
+    const { stitches, width, height } = centerStitches(colored);
+
+    const colorCount = stitches.reduce((max, s) => Math.max(max, s.colorIndex ?? 0), 0) + 1;
+    const colors = Array.from({ length: colorCount }, (_, i) => IMPORT_THREAD_COLORS[i % IMPORT_THREAD_COLORS.length]);
+
+    return { width, height, stitches, colors };
+};
@@ -0,0 +1,96 @@
+import { Stitch } from '../types';
+import { decodeJumpRun } from './exportUtils';
+
+/**
+ * Decodes Melco / Bernina .EXP files into the Stitch model (inverse of createExpFile).
+ *
+ * - Stitch: signed 8-bit dx, dy (0.1mm).
+ * - 0x80 prefix marks a command, followed by two argument bytes:
+ *   - 0x80 0x01 xx xx: Stop / Colour change (a final stop is the end of design)
+ *   - 0x80 0x04 dx dy: Jump
+ *   - 0x80 0x80 xx xx: Trim (some dialects)
+ * - Like DST, a run of EXP_TRIM_JUMP_COUNT or more tiny jumps in place is read as a trim.
+ */
+
+export const EXP_TRIM_JUMP_COUNT = 3;
+
+const toSigned8 = (b: number) => (b > 127 ? b - 256 : b);
+
+type ExpRecord = { dx: number, dy: number, type: 'stitch' | 'jump' | 'stop' | 'trim' };
+
+export interface ExpParseOptions {
+    trimJumpCount?: number; // Consecutive tiny jumps read as a trim (default EXP_TRIM_JUMP_COUNT)
+}
+
+export const parseExpFile = (data: Uint8Array, options: ExpParseOptions = {}): { stitches: Stitch[] } => {
+    const trimJumpCount = options.trimJumpCount ?? EXP_TRIM_JUMP_COUNT;
+
+    // 1. Decode records
+    const records: ExpRecord[] = [];
+    let offset = 0;
+    while (offset + 1 < data.length) {
+        const b0 = data[offset];
+        const b1 = data[offset + 1];
+
+        if (b0 === 0x80) {
+            const dx = offset + 3 < data.length ? toSigned8(data[offset + 2]) : 0;
+            const dy = offset + 3 < data.length ? toSigned8(data[offset + 3]) : 0;
+            if (b1 & 0x01) {
+                records.push({ dx: 0, dy: 0, type: 'stop' });
+            } else if (b1 === 0x04) {
+                records.push({ dx, dy, type: 'jump' });
+            } else if (b1 === 0x80) {
+                records.push({ dx: 0, dy: 0, type: 'trim' });
+            }
+            // Unknown commands are skipped with their arguments
+            offset += 4;
+            continue;
+        }
+
+        records.push({ dx: toSigned8(b0), dy: toSigned8(b1), type: 'stitch' });
+        offset += 2;
+    }
+
+    // Trailing stops are the "end of design" marker, not colour changes
+    while (records.length > 0 && records[records.length - 1].type === 'stop') {
+        records.pop();
+    }
+
+    // 2. Rebuild absolute positions (mm)
+    const stitches: Stitch[] = [];
+    let x = 0;
+    let y = 0;
+    let colorIndex = 0;
+
+    for (let i = 0; i < records.length; i++) {
+        const rec = records[i];
+
+        if (rec.type === 'jump') {
+            // Collapse the whole jump run into moves, a trim only where the run carries its signature
+            const run: ExpRecord[] = [];
+            while (i < records.length && records[i].type === 'jump') run.push(records[i++]);
+            i--;
+
+            stitches.push(...decodeJumpRun({ x, y }, run, trimJumpCount, colorIndex));
+            run.forEach(r => { x += r.dx; y += r.dy; });
+            continue;
+        }
+
+        if (rec.type === 'trim') {
+            stitches.push({ x: x / 10, y: y / 10, type: 'trim', colorIndex, isStructure: true });
+        } else if (rec.type === 'stop') {
+            colorIndex++;
+            stitches.push({ x: x / 10, y: y / 10, type: 'color_change', colorIndex, isStructure: true });
+        } else {
+            x += rec.dx;
+            y += rec.dy;
+            stitches.push({ x: x / 10, y: y / 10, type: 'stitch', colorIndex });
+        }
+    }
+
+    if (stitches.length > 0) {
+        stitches.push({ ...stitches[stitches.length - 1], type: 'end' });
+    }
+
+    return { stitches };
+};
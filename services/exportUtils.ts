@@ -0,0 +1,167 @@
+import { Stitch } from '../types';
+
+/**
+ * Shared helpers for the binary machine-format exporters (PES, JEF, VP3...) and importers.
+ *
+ * The DST and EXP writers predate this module and keep their own inline logic.
+ */
+
+export interface ColorBlock {
+    hexColor: string;
+    colorIndex: number;
+    stitches: Stitch[]; // Everything sewn with this thread (stitches, jumps, trims)
+}
+
+export interface Rgb {
+    r: number;
+    g: number;
+    b: number;
+}
+
+// Machine formats work in 0.1mm integer units
+export const toMachineUnits = (mm: number) => Math.round(mm * 10);
+
+export const hexToRgb = (hex: string): Rgb => {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    if (!result) return { r: 0, g: 0, b: 0 };
+    return { r: parseInt(result[1], 16), g: parseInt(result[2], 16), b: parseInt(result[3], 16) };
+};
+
+// Nearest palette entry by plain RGB distance (palettes here are machine defaults, not thread charts)
+export const findNearestPaletteIndex = (hex: string, palette: Rgb[]): number => {
+    const target = hexToRgb(hex);
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+        const p = palette[i];
+        const d = (p.r - target.r) ** 2 + (p.g - target.g) ** 2 + (p.b - target.b) ** 2;
+        if (d < bestDist) { bestDist = d; best = i; }
+    }
+    return best;
+};
+
+/**
+ * Splits the flat stitch stream from digitizeDesign into one block per thread.
+ * A 'color_change' stitch opens a new block and carries the colour of the next thread.
+ * The trailing 'end' command is dropped, writers emit their own terminator.
+ */
+export const getColorBlocks = (stitches: Stitch[]): ColorBlock[] => {
+    const blocks: ColorBlock[] = [];
+    let current: ColorBlock | null = null;
+
+    for (const s of stitches) {
+        if (s.type === 'end') break;
+
+        if (s.type === 'color_change' || !current) {
+            current = { hexColor: s.hexColor || '#000000', colorIndex: s.colorIndex ?? blocks.length, stitches: [] };
+            blocks.push(current);
+            if (s.type === 'color_change') continue;
+        }
+        current.stitches.push(s);
+    }
+
+    // Drop blocks that only carry structure moves (e.g. a colour change right before 'end')
+    return blocks.filter(b => b.stitches.some(s => s.type === 'stitch'));
+};
+
+// Bounding box in 0.1mm units (machine Y axis points up, same as our mm space)
+export const getStitchExtents = (stitches: Stitch[]) => {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const s of stitches) {
+        if (s.type === 'end') continue;
+        const x = toMachineUnits(s.x);
+        const y = toMachineUnits(s.y);
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+    }
+    if (minX === Infinity) return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+    return { minX, maxX, minY, maxY };
+};
+
+// Jumps per trim in DST (no trim opcode): written by createDstFile, read back by parseDstFile.
+// Tajima machines ship trimming on 3, the operator can change it on the machine.
+export const DST_TRIM_JUMP_COUNT = 3;
+
+// Largest delta (0.1mm, either axis) of a jump that is part of a trim signature
+export const TRIM_SIGNATURE_MAX_UNITS = 5;
+
+/**
+ * Reads a run of consecutive jump records back into moves (mm). Formats without a trim opcode
+ * (DST, EXP) mark a trim with `trimJumpCount` or more tiny jumps in place: zero moves or a back and
+ * forth wiggle. Long travel split into several full-size records is only a jump, never a trim.
+ */
+export const decodeJumpRun = (
+    start: { x: number, y: number },
+    deltas: { dx: number, dy: number }[],
+    trimJumpCount: number,
+    colorIndex: number
+): Stitch[] => {
+    let x = start.x, y = start.y;
+    let wiggle = 0, wiggleX = x, wiggleY = y;
+    let trimAt: { x: number, y: number } | null = null;
+
+    for (const { dx, dy } of deltas) {
+        if (Math.abs(dx) <= TRIM_SIGNATURE_MAX_UNITS && Math.abs(dy) <= TRIM_SIGNATURE_MAX_UNITS) {
+            if (wiggle === 0) { wiggleX = x; wiggleY = y; }
+            wiggle++;
+            if (wiggle >= trimJumpCount && !trimAt) trimAt = { x: wiggleX, y: wiggleY };
+        } else {
+            wiggle = 0;
+        }
+        x += dx;
+        y += dy;
+    }
+
+    const moves: Stitch[] = [];
+    let pos = start;
+    if (trimAt) {
+        if (trimAt.x !== pos.x || trimAt.y !== pos.y) moves.push({ x: trimAt.x / 10, y: trimAt.y / 10, type: 'jump', colorIndex, isStructure: true });
+        moves.push({ x: trimAt.x / 10, y: trimAt.y / 10, type: 'trim', colorIndex, isStructure: true });
+        pos = trimAt;
+    }
+    if (x !== pos.x || y !== pos.y) moves.push({ x: x / 10, y: y / 10, type: 'jump', colorIndex, isStructure: true });
+    return moves;
+};
+
+/**
+ * Growable little/big-endian byte writer.
+ * Formats with placeholders (block lengths, offsets) are patched with the set* helpers.
+ */
+export const createByteWriter = (initialSize: number = 4096) => {
+    let buffer = new Uint8Array(initialSize);
+    let length = 0;
+
+    const ensure = (n: number) => {
+        if (length + n <= buffer.length) return;
+        let size = buffer.length * 2;
+        while (size < length + n) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(buffer.subarray(0, length));
+        buffer = next;
+    };
+
+    const view = () => new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+    return {
+        get position() { return length; },
+        u8: (v: number) => { ensure(1); buffer[length++] = v & 0xFF; },
+        u16le: (v: number) => { ensure(2); view().setUint16(length, v & 0xFFFF, true); length += 2; },
+        u16be: (v: number) => { ensure(2); view().setUint16(length, v & 0xFFFF, false); length += 2; },
+        u24le: (v: number) => { ensure(3); buffer[length++] = v & 0xFF; buffer[length++] = (v >> 8) & 0xFF; buffer[length++] = (v >> 16) & 0xFF; },
+        u24be: (v: number) => { ensure(3); buffer[length++] = (v >> 16) & 0xFF; buffer[length++] = (v >> 8) & 0xFF; buffer[length++] = v & 0xFF; },
+        i32le: (v: number) => { ensure(4); view().setInt32(length, v, true); length += 4; },
+        i32be: (v: number) => { ensure(4); view().setInt32(length, v, false); length += 4; },
+        f32le: (v: number) => { ensure(4); view().setFloat32(length, v, true); length += 4; },
+        ascii: (str: string) => { ensure(str.length); for (let i = 0; i < str.length; i++) buffer[length++] = str.charCodeAt(i) & 0xFF; },
+        bytes: (data: ArrayLike<number>) => { ensure(data.length); for (let i = 0; i < data.length; i++) buffer[length++] = data[i] & 0xFF; },
+        setU16le: (offset: number, v: number) => { view().setUint16(offset, v & 0xFFFF, true); },
+        setU24le: (offset: number, v: number) => { buffer[offset] = v & 0xFF; buffer[offset + 1] = (v >> 8) & 0xFF; buffer[offset + 2] = (v >> 16) & 0xFF; },
+        setI32le: (offset: number, v: number) => { view().setInt32(offset, v, true); },
+        setI32be: (offset: number, v: number) => { view().setInt32(offset, v, false); },
+        toUint8Array: () => buffer.slice(0, length),
+    };
+};
+
+export type ByteWriter = ReturnType<typeof createByteWriter>;
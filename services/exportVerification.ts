@@ -0,0 +1,272 @@
+import { Stitch } from '../types';
+import { createDstFile } from './dstExporter';
+import { createExpFile } from './expExporter';
+import { parseDstFile } from './dstImporter';
+import { parseExpFile } from './expImporter';
+
+/**
+ * ROUND-TRIP VERIFICATION (DST / EXP)
+ *
+ * Encodes synthetic stitch streams with the real exporters, decodes them with the importers
+ * and compares what the machine would sew against what digitizeDesign asked for:
+ * - Absolute needle positions (0.1mm, catches cumulative drift).
+ * - DST header fields: LA, ST, CO, +X, -X, +Y, -Y, AX, AY.
+ * - Command counts: jumps, trims, colour changes, end.
+ *
+ * The synthetic streams follow the digitizeDesign conventions (every design starts within one step
+ * of the hoop centre), plus bare long jumps as client files have them: travel split over several
+ * records must come back as one jump, not as a trim.
+ *
+ * Run with `npm test` (or `npm run verify:exporters` for the report).
+ */
+
+export type VerifiedFormat = 'dst' | 'exp';
+
+export interface RoundTripCase {
+    name: string;
+    stitches: Stitch[];
+}
+
+export interface RoundTripResult {
+    format: VerifiedFormat;
+    caseName: string;
+    failures: string[];
+}
+
+// --- SYNTHETIC STREAMS ---
+
+const run = (from: { x: number, y: number }, to: { x: number, y: number }, steps: number, colorIndex: number): Stitch[] =>
+    Array.from({ length: steps + 1 }, (_, k) => ({
+        x: from.x + (to.x - from.x) * k / steps,
+        y: from.y + (to.y - from.y) * k / steps,
+        type: 'stitch' as const,
+        colorIndex
+    }));
+
+const withEnd = (stitches: Stitch[]): Stitch[] => [...stitches, { ...stitches[stitches.length - 1], type: 'end' }];
+
+const trimAndJump = (last: Stitch, to: { x: number, y: number }): Stitch[] => [
+    { ...last, type: 'trim', isStructure: true },
+    { x: to.x, y: to.y, type: 'jump', colorIndex: last.colorIndex, isStructure: true }
+];
+
+export const buildRoundTripCases = (): RoundTripCase[] => {
+    const cases: RoundTripCase[] = [];
+
+    // 1. Long jumps well beyond the 121-unit (12.1mm) DST step, in every direction
+    {
+        const a = run({ x: -4, y: -3 }, { x: 1, y: -1 }, 8, 0);
+        const b = run({ x: 25, y: 40 }, { x: 30, y: 38 }, 8, 0);
+        const c = run({ x: -45.3, y: 47.7 }, { x: -42, y: 44 }, 6, 0);
+        cases.push({
+            name: 'long-jumps',
+            stitches: withEnd([
+                ...a, ...trimAndJump(a[a.length - 1], b[0]),
+                ...b, ...trimAndJump(b[b.length - 1], c[0]),
+                ...c
+            ])
+        });
+    }
+
+    // 2. Negative coordinates and odd 0.1mm offsets (every quadrant, crossing the origin)
+    {
+        const points: Stitch[] = [];
+        for (let i = 0; i < 120; i++) {
+            const angle = i * 0.21;
+            const r = 3 + i * 0.27;
+            points.push({ x: Math.cos(angle) * r - 0.05, y: Math.sin(angle) * r + 0.03, type: 'stitch', colorIndex: 0 });
+        }
+        cases.push({ name: 'negative-coordinates', stitches: withEnd(points) });
+    }
+
+    // 3. Colour changes (digitizeDesign emits: color_change at last point, then jump)
+    {
+        const red = run({ x: -2, y: 1 }, { x: -10, y: 5 }, 10, 0);
+        const blue = run({ x: 0, y: -10 }, { x: 10, y: -5 }, 10, 1);
+        const gold = run({ x: 15, y: 15 }, { x: 18, y: 22 }, 10, 2);
+        const last1 = red[red.length - 1];
+        const last2 = blue[blue.length - 1];
+        cases.push({
+            name: 'color-changes',
+            stitches: withEnd([
+                ...red,
+                { ...last1, type: 'trim', isStructure: true },
+                { ...last1, type: 'color_change', colorIndex: 1, isStructure: true },
+                { ...blue[0], type: 'jump', isStructure: true },
+                ...blue,
+                { ...last2, type: 'trim', isStructure: true },
+                { ...last2, type: 'color_change', colorIndex: 2, isStructure: true },
+                { ...gold[0], type: 'jump', isStructure: true },
+                ...gold
+            ])
+        });
+    }
+
+    // 4. Trims with short travel and short untrimmed jumps
+    {
+        const a = run({ x: 0, y: 0 }, { x: 6, y: 0 }, 6, 0);
+        const b = run({ x: 8, y: 3 }, { x: 14, y: 3 }, 6, 0);
+        const c = run({ x: 22, y: -9 }, { x: 26, y: -12 }, 6, 0);
+        cases.push({
+            name: 'trims',
+            stitches: withEnd([
+                ...a, ...trimAndJump(a[a.length - 1], b[0]),
+                ...b, { x: c[0].x, y: c[0].y, type: 'jump', colorIndex: 0, isStructure: true }, // 15mm, no trim
+                ...c
+            ])
+        });
+    }
+
+    // 5. Bare long jumps (no trim): 30mm straight and 45mm diagonal, 3 records each
+    {
+        const a = run({ x: -4, y: -2 }, { x: 2, y: -2 }, 6, 0);
+        const b = run({ x: 32, y: -2 }, { x: 36, y: 1 }, 6, 0);
+        const c = run({ x: 4, y: 33 }, { x: 8, y: 36 }, 6, 0);
+        cases.push({
+            name: 'bare-long-jumps',
+            stitches: withEnd([
+                ...a, { x: b[0].x, y: b[0].y, type: 'jump', colorIndex: 0, isStructure: true },
+                ...b, { x: c[0].x, y: c[0].y, type: 'jump', colorIndex: 0, isStructure: true },
+                ...c
+            ])
+        });
+    }
+
+    // 6. Step boundaries: jumps of exactly 121/122/242 units and the longest legal stitch
+    {
+        const stitches: Stitch[] = [{ x: 0.5, y: 0, type: 'stitch', colorIndex: 0 }];
+        stitches.push({ x: 12.6, y: 0, type: 'jump', colorIndex: 0, isStructure: true });
+        stitches.push({ x: 12.9, y: 0.2, type: 'stitch', colorIndex: 0 });
+        stitches.push({ x: 12.9, y: -12.0, type: 'jump', colorIndex: 0, isStructure: true });
+        stitches.push({ x: 12.6, y: -12.3, type: 'stitch', colorIndex: 0 });
+        stitches.push(...trimAndJump(stitches[stitches.length - 1], { x: 12.6 - 24.2, y: -12.3 }));
+        stitches.push({ x: 12.6 - 24.2, y: -12.0, type: 'stitch', colorIndex: 0 });
+        stitches.push({ x: 12.6 - 24.2 + 12.0, y: -12.0 + 12.0, type: 'stitch', colorIndex: 0 });
+        cases.push({ name: 'step-boundaries', stitches: withEnd(stitches) });
+    }
+
+    return cases;
+};
+
+// --- EXPECTATIONS ---
+
+const toUnits = (mm: number) => Math.round(mm * 10);
+
+// Needle penetrations in 0.1mm. Zero-length stitches (e.g. the first tie-in point after a jump)
+// are dropped, encoders are free to skip them.
+const penetrations = (stitches: Stitch[]) => {
+    const result: { x: number, y: number }[] = [];
+    let pos = { x: 0, y: 0 };
+    stitches.forEach(s => {
+        if (s.type === 'end' || s.type === 'trim') return;
+        const p = { x: toUnits(s.x), y: toUnits(s.y) };
+        if (s.type === 'stitch' && (p.x !== pos.x || p.y !== pos.y)) result.push(p);
+        pos = p;
+    });
+    return result;
+};
+
+const countOf = (stitches: Stitch[], type: Stitch['type']) => stitches.filter(s => s.type === type).length;
+
+// Jumps that actually move the needle (zero moves are dropped by the decoders)
+const movingJumps = (stitches: Stitch[]) => {
+    let count = 0;
+    let pos = { x: 0, y: 0 };
+    stitches.forEach(s => {
+        if (s.type === 'end' || s.type === 'trim') return;
+        const p = { x: toUnits(s.x), y: toUnits(s.y) };
+        if (s.type === 'jump' && (p.x !== pos.x || p.y !== pos.y)) count++;
+        pos = p;
+    });
+    return count;
+};
+
+const readDstHeaderField = (data: Uint8Array, key: string): number | null => {
+    const header = String.fromCharCode(...Array.from(data.subarray(0, 512)));
+    const match = new RegExp(`${key.replace(/[+]/g, '\\+')}:\\s*([+-]?\\d+)`).exec(header);
+    return match ? parseInt(match[1], 10) : null;
+};
+
+// --- CHECKS ---
+
+const comparePositions = (expected: Stitch[], decoded: Stitch[], failures: string[]) => {
+    const want = penetrations(expected);
+    const got = penetrations(decoded);
+    if (want.length !== got.length) {
+        failures.push(`stitch count: expected ${want.length}, decoded ${got.length}`);
+    }
+    const n = Math.min(want.length, got.length);
+    for (let i = 0; i < n; i++) {
+        if (want[i].x !== got[i].x || want[i].y !== got[i].y) {
+            failures.push(`stitch ${i}: expected (${want[i].x}, ${want[i].y}), decoded (${got[i].x}, ${got[i].y}) [0.1mm]`);
+            break; // Drift cascades, the first mismatch is the useful one
+        }
+    }
+};
+
+const compareCommands = (expected: Stitch[], decoded: Stitch[], failures: string[]) => {
+    const checks: [string, number, number][] = [
+        ['color changes', countOf(expected, 'color_change'), countOf(decoded, 'color_change')],
+        ['jumps', movingJumps(expected), countOf(decoded, 'jump')],
+        ['end', 1, countOf(decoded, 'end')],
+        ['trims', countOf(expected, 'trim'), countOf(decoded, 'trim')],
+    ];
+    checks.forEach(([label, want, got]) => {
+        if (want !== got) failures.push(`${label}: expected ${want}, decoded ${got}`);
+    });
+};
+
+const compareDstHeader = (testCase: RoundTripCase, data: Uint8Array, label: string, failures: string[]) => {
+    const { stitches } = testCase;
+    const positioned = stitches.filter(s => s.type !== 'end');
+    const last = positioned[positioned.length - 1];
+    const xs = positioned.map(s => toUnits(s.x));
+    const ys = positioned.map(s => toUnits(s.y));
+    const records = (data.length - 512) / 3;
+
+    const expected: [string, number][] = [
+        ['ST', records - 1], // Every body record except the END marker
+        ['CO', countOf(stitches, 'color_change')],
+        ['+X', Math.max(0, Math.max(...xs))],
+        ['-X', Math.abs(Math.min(0, Math.min(...xs)))],
+        ['+Y', Math.max(0, Math.max(...ys))],
+        ['-Y', Math.abs(Math.min(0, Math.min(...ys)))],
+        ['AX', toUnits(last.x)],
+        ['AY', toUnits(last.y)],
+    ];
+    expected.forEach(([key, want]) => {
+        const got = readDstHeaderField(data, key);
+        if (got !== want) failures.push(`header ${key}: expected ${want}, found ${got}`);
+    });
+    if (label !== testCase.name.slice(0, 16)) {
+        failures.push(`header LA: expected "${testCase.name.slice(0, 16)}", found "${label}"`);
+    }
+};
+
+export const verifyRoundTrip = (format: VerifiedFormat, testCase: RoundTripCase): RoundTripResult => {
+    const failures: string[] = [];
+    try {
+        if (format === 'dst') {
+            const data = createDstFile(testCase.stitches, 0, 0, { designName: testCase.name });
+            const { stitches: decoded, label } = parseDstFile(data);
+            comparePositions(testCase.stitches, decoded, failures);
+            compareCommands(testCase.stitches, decoded, failures);
+            compareDstHeader(testCase, data, label, failures);
+        } else {
+            const decoded = parseExpFile(createExpFile(testCase.stitches)).stitches;
+            comparePositions(testCase.stitches, decoded, failures);
+            compareCommands(testCase.stitches, decoded, failures);
+        }
+    } catch (err: unknown) {
+        failures.push(`threw: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return { format, caseName: testCase.name, failures };
+};
+
+export const runExportRoundTripSuite = (cases: RoundTripCase[] = buildRoundTripCases()): RoundTripResult[] => {
+    const results: RoundTripResult[] = [];
+    (['dst', 'exp'] as VerifiedFormat[]).forEach(format => {
+        cases.forEach(c => results.push(verifyRoundTrip(format, c)));
+    });
+    return results;
+};
@@ -0,0 +1,105 @@
+import { FillPattern } from '../types';
+
+/**
+ * TATAMI FILL PATTERNS
+ *
+ * A pattern decides where the needle goes down along each fill row. Needle positions sit on a grid
+ * fixed to the design (not to the start of the row), so the shifts line up from row to row and
+ * between fill sections, and that alignment is what draws the texture:
+ * - Brick: every other row shifted by half a stitch.
+ * - Twill: 1/3 shift per row, diagonal ribs.
+ * - Random: shift drawn per row plus a small jitter per needle, flat look with no visible lines.
+ * - Diamond: shift goes out and back, zig-zag ribs.
+ * - Cross: two opposite twills in the same row, the ribs cross as an X lattice.
+ * - Custom: user table of shifts per row (fractions of the stitch length), repeats.
+ */
+
+export const FILL_PATTERNS: { id: FillPattern, label: string }[] = [
+    { id: 'brick', label: 'Tijolo' },
+    { id: 'twill', label: 'Sarja' },
+    { id: 'random', label: 'Aleatório' },
+    { id: 'diamond', label: 'Losango' },
+    { id: 'cross', label: 'Cruz' },
+    { id: 'custom', label: 'Personal.' },
+];
+
+export const DEFAULT_FILL_STITCH_LENGTHS: Record<FillPattern, number> = {
+    brick: 4.0,
+    twill: 3.5,
+    random: 4.0,
+    diamond: 3.0,
+    cross: 4.5,
+    custom: 4.0,
+};
+
+export const DEFAULT_CUSTOM_OFFSETS = [0, 0.25, 0.5, 0.75];
+
+const DIAMOND_PERIOD = 8; // Rows for one zig-zag (out and back)
+const CROSS_PERIOD = 6; // Rows for one X
+const RANDOM_JITTER = 0.15; // Max needle jitter, fraction of the stitch length
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+// Deterministic noise in [0, 1): preview and exported file must get the same needles
+const hash01 = (a: number, b = 0) => {
+    let h = Math.imul(a, 374761393) + Math.imul(b, 668265263) | 0;
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+};
+
+// Needle shifts for one row, as fractions of the stitch length
+const rowShifts = (pattern: FillPattern, rowIdx: number, customOffsets: number[]): number[] => {
+    switch (pattern) {
+        case 'twill':
+            return [mod(rowIdx, 3) / 3];
+        case 'random':
+            return [hash01(rowIdx)];
+        case 'diamond': {
+            const k = mod(rowIdx, DIAMOND_PERIOD);
+            return [Math.min(k, DIAMOND_PERIOD - k) / DIAMOND_PERIOD]; // 0 -> 0.5 -> 0
+        }
+        case 'cross': {
+            const k = mod(rowIdx, CROSS_PERIOD) / CROSS_PERIOD;
+            return k === 0 ? [0] : [k, 1 - k];
+        }
+        case 'custom':
+            return customOffsets.length > 0 ? [mod(customOffsets[mod(rowIdx, customOffsets.length)], 1)] : [0];
+        default:
+            return [mod(rowIdx, 2) * 0.5];
+    }
+};
+
+/**
+ * Inner needle positions (X in the rotated fill space) for the row running from x1 to x2.
+ * Row ends are not included; needles closer than a quarter stitch to an end or to each other are dropped.
+ */
+export const fillRowNeedles = (
+    pattern: FillPattern,
+    rowIdx: number,
+    x1: number,
+    x2: number,
+    stitchLen: number,
+    customOffsets: number[] = DEFAULT_CUSTOM_OFFSETS
+): number[] => {
+    const shifts = rowShifts(pattern, rowIdx, customOffsets);
+    const minGap = Math.min(1.0, stitchLen * 0.25);
+    const candidates: number[] = [];
+
+    for (let k = Math.floor(x1 / stitchLen) - 1; k <= Math.ceil(x2 / stitchLen); k++) {
+        shifts.forEach((shift, i) => {
+            let x = (k + shift) * stitchLen;
+            if (pattern === 'random') x += (hash01(rowIdx * 2 + i, k) - 0.5) * 2 * RANDOM_JITTER * stitchLen;
+            candidates.push(x);
+        });
+    }
+
+    const needles: number[] = [];
+    let last = x1;
+    for (const x of candidates.sort((a, b) => a - b)) {
+        if (x - last < minGap || x2 - x < minGap) continue;
+        needles.push(x);
+        last = x;
+    }
+    return needles;
+};
@@ -1,7 +1,11 @@
 
-import { Point, Stitch, StitchType, ProcessingConfig, DesignStyle, VectorLayer } from '../types';
+import { Point, Stitch, StitchType, ProcessingConfig, DesignStyle, VectorLayer, SequenceReport, RasterImage, TracingConfig, VectorizedDesign } from '../types';
 import { Potrace } from './potrace';
-import { processVTracer } from './vtracerService';
+import { requestVTracerSvg, parseSvgToLayers } from './vtracerService';
+import { resizeRaster } from './rasterImage';
+import { DEFAULT_FILL_STITCH_LENGTHS, fillRowNeedles } from './fillPatterns';
+import { getRunMotifPoints } from './runMotifs';
+import { SewOption, measureTravel, optimizeSequence, orderLayers, sequenceCost } from './sequenceOptimizer';
 
 // --- Constants from PDF ---
 const PROCESS_WIDTH = 1024;
@@ -19,9 +23,6 @@ export const loadImage = (src: string): Promise<HTMLImageElement> => {
     });
 };
 
-const rgbToHex = (r: number, g: number, b: number) =>
-    "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
-
 const dist = (p1: Point, p2: Point) => Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
 
 // Squared distance is faster for comparisons (no sqrt)
@@ -109,8 +110,9 @@ const offsetPolygon = (path: Point[], offsetMm: number): Point[] => {
         // Average normal (Vertex normal)
         const avgN = normalize(addPoints(n1, n2));
 
+        // Miter = 1 / cos(half the turn), keeps both edges at offsetMm
         const dot = n1.x * n2.x + n1.y * n2.y;
-        let miter = 1 / Math.max(0.1, (1 + dot) / 2);
+        let miter = 1 / Math.sqrt(Math.max(0.01, (1 + dot) / 2));
         miter = Math.min(miter, 2.0);
 
         result.push(addPoints(curr, scalePoint(avgN, offsetMm * miter)));
@@ -139,6 +141,78 @@ const resamplePath = (path: Point[], spacing: number): Point[] => {
     return newPath;
 };
 
+// Shoelace area (mm²): positive for counter-clockwise winding (Y up)
+const polygonArea = (path: Point[]): number => {
+    let area = 0;
+    for (let i = 0; i < path.length; i++) {
+        const a = path[i];
+        const b = path[(i + 1) % path.length];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+};
+
+// Even-odd ray cast
+const pointInPolygon = (p: Point, path: Point[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+        const a = path[i], b = path[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// 2b. Shapes with holes (Counters of "O", "A", donuts)
+// offsetPolygon pushes along the left normal: outward for clockwise contours, so outers are
+// made clockwise and holes counter-clockwise. A positive offset then always grows the material.
+const orientPath = (path: Point[], clockwise: boolean): Point[] =>
+    (polygonArea(path) < 0) === clockwise ? path : [...path].reverse();
+
+/**
+ * Groups a layer's contours into fillable shapes: [outer, ...holes].
+ * Nesting depth decides the role (even = outer, odd = hole of its direct parent),
+ * so an island inside a counter becomes a shape of its own.
+ */
+const groupShapesWithHoles = (paths: Point[][]): Point[][][] => {
+    const contours = paths
+        .filter(p => p.length > 2)
+        .map(path => ({ path, area: Math.abs(polygonArea(path)), parent: -1, depth: 0 }))
+        .sort((a, b) => b.area - a.area);
+
+    // Direct parent = smallest larger contour containing this one
+    for (let i = 0; i < contours.length; i++) {
+        const probe = contours[i].path[0];
+        for (let j = i - 1; j >= 0; j--) {
+            if (contours[j].area > contours[i].area && pointInPolygon(probe, contours[j].path)) {
+                contours[i].parent = j;
+                contours[i].depth = contours[j].depth + 1;
+                break;
+            }
+        }
+    }
+
+    const shapes = new Map<number, Point[][]>();
+    contours.forEach((c, i) => {
+        if (c.depth % 2 === 0) shapes.set(i, [orientPath(c.path, true)]);
+    });
+    contours.forEach(c => {
+        if (c.depth % 2 === 1) shapes.get(c.parent)?.push(orientPath(c.path, false));
+    });
+    return Array.from(shapes.values());
+};
+
+// Fill area of a shape (outer minus holes)
+const shapeArea = (shape: Point[][]): number =>
+    shape.reduce((sum, path, i) => sum + (i === 0 ? 1 : -1) * Math.abs(polygonArea(path)), 0);
+
+// Closed rings are stored with the first point repeated; offsetPolygon needs distinct neighbours
+const openRing = (path: Point[]): Point[] =>
+    path.length > 1 && dist(path[0], path[path.length - 1]) < 0.001 ? path.slice(0, -1) : path;
+
+const closeRing = (path: Point[]): Point[] => (path.length > 0 ? [...path, path[0]] : path);
+
 // 3. SEQUENCE OPTIMIZATION (Closest Join)
 const reorderPolygonToStartAt = (path: Point[], bestIdx: number): Point[] => {
     if (bestIdx === 0) return path;
@@ -150,7 +224,8 @@ const reorderPolygonToStartAt = (path: Point[], bestIdx: number): Point[] => {
     return rotated;
 };
 
-const optimizePathSequence = (paths: Point[][]): Point[][] => {
+// Closed paths may start at any vertex, open ones (centerlines) only at either end
+const optimizePathSequence = (paths: Point[][], open = false): Point[][] => {
     if (paths.length === 0) return [];
 
     const optimized: Point[][] = [];
@@ -165,7 +240,8 @@ const optimizePathSequence = (paths: Point[][]): Point[][] => {
 
         for (let i = 0; i < remaining.length; i++) {
             const path = remaining[i];
-            for (let v = 0; v < path.length - 1; v++) {
+            const candidates = open ? [0, path.length - 1] : path.slice(0, -1).map((_, v) => v);
+            for (const v of candidates) {
                 const dSq = distSq(currentPos, path[v]);
                 if (dSq < minDistanceSq) {
                     minDistanceSq = dSq;
@@ -177,7 +253,9 @@ const optimizePathSequence = (paths: Point[][]): Point[][] => {
 
         if (bestPathIdx !== -1) {
             const chosenPath = remaining[bestPathIdx];
-            const reorderedPath = reorderPolygonToStartAt(chosenPath, bestVertexIdx);
+            const reorderedPath = open
+                ? (bestVertexIdx > 0 ? chosenPath.slice().reverse() : chosenPath)
+                : reorderPolygonToStartAt(chosenPath, bestVertexIdx);
             optimized.push(reorderedPath);
             currentPos = reorderedPath[reorderedPath.length - 1];
             remaining.splice(bestPathIdx, 1);
@@ -193,138 +271,391 @@ const optimizePathSequence = (paths: Point[][]): Point[][] => {
 
 // --- STITCH GENERATION ENGINE ---
 
-const generateSatinStitches = (pathMm: Point[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
-    const stitches: Stitch[] = [];
-    if (pathMm.length < 2) return stitches;
+// --- SATIN COLUMNS ---
+// A column is a list of rungs (one needle pass from rail to rail). Rungs come from a centerline
+// offset by half the width (with corner handling), from two explicit rails, or from the two sides
+// of a thin filled shape; all three are sewn by the same zigzag.
+
+interface SatinRung {
+    left: Point;
+    right: Point;
+}
+
+const SATIN_CORNER_DEG = 45; // Sharper turns are corners
+const MITRE_MAX_DEG = 100; // 'auto': mitre up to this turn, cap up to the next, lapped split beyond
+const CAP_MAX_DEG = 150;
+const SPLIT_SATIN_MM = 10; // Wider passes are split (split satin) even with a longer max stitch
+const MAX_SATIN_COLUMN_MM = 15; // Thin shape detection: wider shapes stay fills / outlines
+
+const pathLength = (path: Point[]) => path.reduce((sum, p, i) => (i > 0 ? sum + dist(path[i - 1], p) : 0), 0);
+
+const crossProduct = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+
+// Rungs perpendicular to a corner free piece of centerline
+const offsetRungs = (piece: Point[], halfWidth: number, spacing: number): SatinRung[] => {
+    const samples = resamplePath(piece, spacing).filter((p, i, all) => i === 0 || dist(all[i - 1], p) > 0.01);
+    return samples.map((p, i) => {
+        const prev = samples[Math.max(0, i - 1)];
+        const next = samples[Math.min(samples.length - 1, i + 1)];
+        const t = normalize(subPoints(next, prev));
+        const n = { x: -t.y, y: t.x };
+        return { left: addPoints(p, scalePoint(n, halfWidth)), right: subPoints(p, scalePoint(n, halfWidth)) };
+    });
+};
 
-    const halfWidth = (config.satinColumnWidthMm / 2) + (config.pullCompensationMm / 2);
+// Moves the inner end of rungs near a corner back onto the bisector, so both pieces meet without crossing
+const clipToBisector = (rungs: SatinRung[], corner: Point, bisector: Point, innerLeft: boolean, reach: number) => {
+    const side = (p: Point) => crossProduct(bisector, subPoints(p, corner));
+    rungs.forEach((rung, i) => {
+        const centre = interpolatePoints(rung.left, rung.right, 0.5);
+        if (dist(centre, corner) > reach) return;
+        const inner = innerLeft ? rung.left : rung.right;
+        const sc = side(centre), si = side(inner);
+        if (Math.abs(sc) < 1e-9 || Math.sign(sc) === Math.sign(si)) return;
+        const u = crossProduct(bisector, subPoints(corner, centre)) / crossProduct(bisector, subPoints(inner, centre));
+        const clipped = interpolatePoints(centre, inner, u);
+        rungs[i] = innerLeft ? { left: clipped, right: rung.right } : { left: rung.left, right: clipped };
+    });
+};
+
+/**
+ * Rungs along a centerline. Corners (turn > 45°) are joined by style ('auto' picks by angle):
+ * - Mitre: one rung along the bisector, inner ends of both pieces clipped to it.
+ * - Cap: the inner end pivots on one point while the outer end sweeps round the corner.
+ * - Lap: both pieces run square past the corner by half a width and overlap (lapped split).
+ */
+const buildCenterlineRungs = (pathMm: Point[], config: ProcessingConfig): SatinRung[] => {
+    const halfWidth = config.satinColumnWidthMm / 2;
     const spacing = config.densityMm;
-    const resampled = resamplePath(pathMm, spacing);
 
-    const leftRail: Point[] = [];
-    const rightRail: Point[] = [];
+    // 1. Clean points; closed paths restart mid-edge so their first vertex can be a corner too
+    let pts = pathMm.filter((p, i) => i === 0 || dist(pathMm[i - 1], p) > 0.01);
+    if (pts.length < 2) return [];
+    if (pts.length > 3 && dist(pts[0], pts[pts.length - 1]) < 0.01) {
+        const mid = interpolatePoints(pts[0], pts[1], 0.5);
+        pts = [mid, ...pts.slice(1), mid];
+    }
 
-    for (let i = 0; i < resampled.length; i++) {
-        const curr = resampled[i];
-        const prev = i > 0 ? resampled[i - 1] : subPoints(curr, subPoints(resampled[i + 1], curr));
-        const next = i < resampled.length - 1 ? resampled[i + 1] : addPoints(curr, subPoints(curr, resampled[i - 1]));
+    // 2. Corners split the centerline into pieces
+    const breaks = [0];
+    for (let i = 1; i < pts.length - 1; i++) {
+        const turn = Math.acos(Math.max(-1, Math.min(1, dotProduct(normalize(subPoints(pts[i], pts[i - 1])), normalize(subPoints(pts[i + 1], pts[i]))))));
+        if (turn * (180 / Math.PI) > SATIN_CORNER_DEG) breaks.push(i);
+    }
+    breaks.push(pts.length - 1);
+
+    const rungs: SatinRung[] = offsetRungs(pts.slice(0, breaks[1] + 1), halfWidth, spacing);
+
+    // 3. Join each piece to the previous one
+    for (let k = 1; k + 1 < breaks.length; k++) {
+        const c = breaks[k];
+        const corner = pts[c];
+        const dA = normalize(subPoints(corner, pts[c - 1]));
+        const dB = normalize(subPoints(pts[c + 1], corner));
+        const nA = { x: -dA.y, y: dA.x };
+        const nB = { x: -dB.y, y: dB.x };
+        const turn = Math.acos(Math.max(-1, Math.min(1, dotProduct(dA, dB))));
+        const turnDeg = turn * (180 / Math.PI);
+        const leftTurn = crossProduct(dA, dB) > 0; // Inner side of the corner is the left rail
+        const next = offsetRungs(pts.slice(c, breaks[k + 1] + 1), halfWidth, spacing);
+
+        let style = config.satinCornerStyle;
+        if (style === 'auto') style = turnDeg <= MITRE_MAX_DEG ? 'mitre' : turnDeg <= CAP_MAX_DEG ? 'cap' : 'lap';
+        const bisector = normalize(addPoints(nA, nB));
+        if (style !== 'lap' && Math.hypot(bisector.x, bisector.y) < 0.5) style = 'lap'; // U-turn: no bisector to meet on
+
+        if (style === 'lap') {
+            for (let d = spacing; d <= halfWidth; d += spacing) {
+                const p = addPoints(corner, scalePoint(dA, d));
+                rungs.push({ left: addPoints(p, scalePoint(nA, halfWidth)), right: subPoints(p, scalePoint(nA, halfWidth)) });
+            }
+            for (let d = halfWidth; d >= spacing; d -= spacing) {
+                const p = subPoints(corner, scalePoint(dB, d));
+                rungs.push({ left: addPoints(p, scalePoint(nB, halfWidth)), right: subPoints(p, scalePoint(nB, halfWidth)) });
+            }
+            rungs.push(...next);
+            continue;
+        }
 
-        const v1 = normalize(subPoints(curr, prev));
-        const v2 = normalize(subPoints(next, curr));
-        const n1 = { x: -v1.y, y: v1.x };
+        // Mitre and cap share the clipped inner side; the rungs sitting on the corner are replaced
+        const miterLength = Math.min(halfWidth / Math.max(0.1, Math.cos(turn / 2)), halfWidth * 2); // Same limit as offsetPolygon
+        rungs.pop();
+        next.shift();
+        clipToBisector(rungs, corner, bisector, leftTurn, halfWidth * 3);
+        clipToBisector(next, corner, bisector, leftTurn, halfWidth * 3);
 
-        const tangentSum = addPoints(v1, v2);
-        const tangentLen = Math.sqrt(tangentSum.x * tangentSum.x + tangentSum.y * tangentSum.y);
-
-        // Smart Corner Detection
-        const dot = dotProduct(v1, v2);
-        const angle = Math.acos(Math.max(-1, Math.min(1, dot))); // Angle in radians
-        const angleDeg = angle * (180 / Math.PI);
-
-        // If angle is sharp (> 60 degrees turn), we treat it as a corner
-        // Note: dot product of 0 means 90 degrees. dot product of -1 means 180 degrees (U-turn).
-        // We care about the "turn" angle. 
-        // If v1 and v2 are same direction, dot=1, angle=0.
-        // If v1 and v2 are 90 deg, dot=0, angle=90.
-
-        let miterVector: Point;
-        let miterLength = halfWidth;
-
-        if (angleDeg > 60 && tangentLen > 0.001) {
-            // Sharp Corner: Use Mitre Limit logic strictly or Cap
-            // For now, we implement a simple Mitre clamp to prevent "spikes"
-            const bisector = normalize(tangentSum);
-            miterVector = { x: -bisector.y, y: bisector.x };
-
-            // Calculate miter length based on angle
-            // miter = 1 / sin(angle/2)
-            const sinHalfAngle = Math.sin((Math.PI - angle) / 2);
-            if (sinHalfAngle > 0.1) {
-                miterLength = halfWidth / sinHalfAngle;
-            } else {
-                miterLength = halfWidth * 3.0; // Fallback
+        if (style === 'mitre') {
+            rungs.push({ left: addPoints(corner, scalePoint(bisector, miterLength)), right: subPoints(corner, scalePoint(bisector, miterLength)) });
+        } else {
+            const pivot = addPoints(corner, scalePoint(bisector, (leftTurn ? 1 : -1) * Math.min(miterLength, halfWidth * 2.5)));
+            const outerStart = scalePoint(nA, leftTurn ? -1 : 1);
+            const steps = Math.max(2, Math.ceil((turn * halfWidth) / spacing));
+            for (let s = 0; s <= steps; s++) {
+                const outer = addPoints(corner, scalePoint(rotatePoint(outerStart, (leftTurn ? 1 : -1) * turn * (s / steps)), halfWidth));
+                rungs.push(leftTurn ? { left: pivot, right: outer } : { left: outer, right: pivot });
             }
+        }
+        rungs.push(...next);
+    }
+    return rungs;
+};
 
-            // Hard limit to avoid huge spikes
-            if (miterLength > halfWidth * 2.5) {
-                miterLength = halfWidth * 2.5;
-                // Ideally here we would split the corner (Mitre Join geometry), 
-                // but clamping is a good first step for "Smart Corners" to avoid artifacts.
-            }
-        } else if (tangentLen < 0.001) {
-            miterVector = n1;
-        } else {
-            const bisector = normalize(tangentSum);
-            miterVector = { x: -bisector.y, y: bisector.x };
-            const dotN = dotProduct(miterVector, n1);
-            if (Math.abs(dotN) > 0.1) {
-                miterLength = halfWidth / dotN;
+// Rungs between two rails: cheapest monotone matching (DTW) of the rails, then one rung per `spacing` of axis
+const pairRails = (left: Point[], right: Point[], spacing: number): SatinRung[] => {
+    const step = Math.max(0.2, Math.max(pathLength(left), pathLength(right)) / 400);
+    const a = resamplePath(left, step);
+    const b = resamplePath(right, step);
+    const n = a.length, m = b.length;
+    if (n < 2 || m < 2) return [];
+
+    const cost = new Float64Array(n * m);
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < m; j++) {
+            let best = 0;
+            if (i > 0 || j > 0) {
+                best = Math.min(
+                    i > 0 ? cost[(i - 1) * m + j] : Infinity,
+                    j > 0 ? cost[i * m + j - 1] : Infinity,
+                    i > 0 && j > 0 ? cost[(i - 1) * m + j - 1] : Infinity
+                );
             }
+            cost[i * m + j] = best + dist(a[i], b[j]);
         }
+    }
 
-        const MITER_LIMIT = halfWidth * 3.0;
-        if (miterLength > MITER_LIMIT) miterLength = MITER_LIMIT;
+    const matches: [number, number][] = [[n - 1, m - 1]];
+    for (let i = n - 1, j = m - 1; i > 0 || j > 0;) {
+        const diag = i > 0 && j > 0 ? cost[(i - 1) * m + j - 1] : Infinity;
+        const up = i > 0 ? cost[(i - 1) * m + j] : Infinity;
+        const back = j > 0 ? cost[i * m + j - 1] : Infinity;
+        if (diag <= up && diag <= back) { i--; j--; } else if (up <= back) { i--; } else { j--; }
+        matches.unshift([i, j]);
+    }
 
-        leftRail.push(addPoints(curr, scalePoint(miterVector, miterLength)));
-        rightRail.push(subPoints(curr, scalePoint(miterVector, miterLength)));
+    const rungs: SatinRung[] = [];
+    let travelled = spacing;
+    let prevMid: Point | null = null;
+    matches.forEach(([i, j], k) => {
+        const mid = interpolatePoints(a[i], b[j], 0.5);
+        if (prevMid) travelled += dist(prevMid, mid);
+        prevMid = mid;
+        if (travelled >= spacing || k === matches.length - 1) {
+            rungs.push({ left: a[i], right: b[j] });
+            travelled = 0;
+        }
+    });
+    return rungs;
+};
+
+/**
+ * Satin column filling a thin shape (strokes, lettering). The contour is cut at its two tips
+ * (farthest pair of points) into two rails; a ring with one counter uses outer and counter as rails.
+ * The medial axis is the line through the rung midpoints. Null for wide, stubby or branched shapes.
+ */
+const extractSatinColumn = (shape: Point[][], spacing: number): SatinRung[] | null => {
+    if (shape.length > 2 || shape[0].length < 3) return null;
+    const outer = closeRing(openRing(shape[0]));
+    let left: Point[], right: Point[];
+
+    if (shape.length === 1) {
+        const ring = openRing(resamplePath(outer, Math.max(0.3, pathLength(outer) / 300)));
+        let tipA = 0, tipB = 0, best = -1;
+        for (let i = 0; i < ring.length; i++) {
+            for (let j = i + 1; j < ring.length; j++) {
+                const d = distSq(ring[i], ring[j]);
+                if (d > best) { best = d; tipA = i; tipB = j; }
+            }
+        }
+        left = ring.slice(tipA, tipB + 1);
+        right = [...ring.slice(tipB), ...ring.slice(0, tipA + 1)].reverse();
+    } else {
+        // Counter runs the same way as the outer, starting across from it
+        const hole = orientPath(openRing(shape[1]), polygonArea(outer) < 0);
+        let start = 0;
+        hole.forEach((p, i) => { if (distSq(p, outer[0]) < distSq(hole[start], outer[0])) start = i; });
+        left = outer;
+        right = closeRing([...hole.slice(start), ...hole.slice(0, start)]);
     }
 
-    for (let i = 0; i < leftRail.length; i++) {
-        let p1 = leftRail[i];
-        let p2 = rightRail[i];
+    const rungs = pairRails(left, right, spacing);
+    if (rungs.length < 3) return null;
 
-        if (i > 0) {
-            const prevP1 = leftRail[i - 1];
-            const prevP2 = rightRail[i - 1];
-            const dLeft = dist(p1, prevP1);
-            const dRight = dist(p2, prevP2);
+    const widths = rungs.map(r => dist(r.left, r.right)).sort((a, b) => a - b);
+    const median = widths[Math.floor(widths.length / 2)];
+    const mids = rungs.map(r => interpolatePoints(r.left, r.right, 0.5));
+    const inside = mids.filter(p => shape.reduce((acc, path) => (pointInPolygon(p, path) ? !acc : acc), false)).length;
 
-            const SHORTENING_RATIO = 0.7; // Increased from 0.6 to trigger earlier
-            const CRITICAL_DENSITY = 0.5; // Increased from 0.4 to trigger earlier
-            const SHORTEN_AMOUNT = 0.33; // Shorten by 1/3
+    if (widths[widths.length - 1] > Math.min(MAX_SATIN_COLUMN_MM, median * 2.5)) return null; // Too wide or branched
+    if (pathLength(mids) < median * 2.5) return null; // Stubby: a fill looks better
+    if (inside < mids.length * 0.9) return null; // Rails paired across empty space
+    return rungs;
+};
 
-            if (i % 2 !== 0) {
-                if (dLeft < dRight * SHORTENING_RATIO && dLeft < CRITICAL_DENSITY) {
-                    p1 = interpolatePoints(p1, p2, SHORTEN_AMOUNT);
-                } else if (dRight < dLeft * SHORTENING_RATIO && dRight < CRITICAL_DENSITY) {
-                    p2 = interpolatePoints(p2, p1, SHORTEN_AMOUNT);
-                }
+/**
+ * Zigzag over the rungs. Pull compensation widens each pass; on the inner side of curves every
+ * other pass is shortened (short stitches) so the needle does not pile up; passes longer than the
+ * split length become split satin with staggered needle points.
+ */
+const sewSatinRungs = (rungs: SatinRung[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    const stitches: Stitch[] = [];
+    if (rungs.length === 0) return stitches;
+
+    const pull = config.pullCompensationMm / 2;
+    const splitAt = Math.min(SPLIT_SATIN_MM, config.maxStitchLengthMm || SPLIT_SATIN_MM);
+    const SHORTENING_RATIO = 0.7;
+    const CRITICAL_DENSITY = 0.5;
+    const SHORTEN_AMOUNT = 0.33; // Shorten by 1/3
+
+    // 1. Pass end points: L0 R0 L1 R1 ...
+    const ends: Point[] = [];
+    rungs.forEach((rung, i) => {
+        const across = normalize(subPoints(rung.right, rung.left));
+        let p1 = subPoints(rung.left, scalePoint(across, pull));
+        let p2 = addPoints(rung.right, scalePoint(across, pull));
+
+        if (i % 2 !== 0) {
+            const dLeft = dist(rung.left, rungs[i - 1].left);
+            const dRight = dist(rung.right, rungs[i - 1].right);
+            if (dLeft < dRight * SHORTENING_RATIO && dLeft < CRITICAL_DENSITY) {
+                p1 = interpolatePoints(p1, p2, SHORTEN_AMOUNT);
+            } else if (dRight < dLeft * SHORTENING_RATIO && dRight < CRITICAL_DENSITY) {
+                p2 = interpolatePoints(p2, p1, SHORTEN_AMOUNT);
             }
         }
+        ends.push(p1, p2);
+    });
 
-        const currentLen = dist(p1, p2);
+    // 2. Sew, splitting long passes (alternate pairs of passes shift the split by half)
+    const push = (p: Point) => stitches.push({ x: p.x, y: p.y, type: 'stitch', colorIndex: colorIdx, hexColor });
+    push(ends[0]);
+    for (let k = 1; k < ends.length; k++) {
+        const from = ends[k - 1], to = ends[k];
+        const len = dist(from, to);
+        if (len > splitAt) {
+            const steps = Math.ceil(len / splitAt);
+            const shift = k % 4 < 2 ? 0 : 0.5;
+            for (let s = shift ? 0 : 1; s < steps; s++) push(interpolatePoints(from, to, (s + shift) / steps));
+        }
+        push(to);
+    }
+    return stitches;
+};
 
-        if (currentLen > config.maxStitchLengthMm) {
-            const maxLen = config.maxStitchLengthMm || 7.0;
-            const steps = Math.ceil(currentLen / maxLen);
-            const idealSegLen = currentLen / steps;
-            const maxSafeShift = maxLen - idealSegLen - 0.1; // Safety margin
+// Centerline satin (outlines, borders): rungs from the offset centerline
+const generateSatinStitches = (pathMm: Point[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] =>
+    sewSatinRungs(buildCenterlineRungs(pathMm, config), config, colorIdx, hexColor);
+
+// Satin underlay from the rungs: centre run, edge runs just inside both rails, plus a zigzag on wide columns
+const generateRungUnderlay = (rungs: SatinRung[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    if (rungs.length < 2) return [];
+    const widths = rungs.map(r => dist(r.left, r.right)).sort((a, b) => a - b);
+    const width = widths[Math.floor(widths.length / 2)];
+    const insetAt = (from: Point, to: Point, inset: number) => {
+        const len = dist(from, to);
+        return len > 0 ? interpolatePoints(from, to, Math.min(inset, len / 4) / len) : from;
+    };
 
-            stitches.push({ x: p1.x, y: p1.y, type: 'stitch', colorIndex: colorIdx, hexColor });
+    // 1. Narrow Columns (< 2mm): Center Run
+    if (width < 2.0) {
+        return generateRunningStitches(rungs.map(r => interpolatePoints(r.left, r.right, 0.5)), config, colorIdx, hexColor);
+    }
 
-            for (let k = 1; k < steps; k++) {
-                let t = k / steps;
+    // 2. Edge Run: down one rail and back up the other
+    const leftEdge = rungs.map(r => insetAt(r.left, r.right, 0.4));
+    const rightEdge = rungs.map(r => insetAt(r.right, r.left, 0.4)).reverse();
+    const stitches = generateRunningStitches([...leftEdge, ...rightEdge], config, colorIdx, hexColor);
+
+    // 3. Wide Columns (>= 5mm): double zigzag, out and back so the top stitches start where the underlay ends.
+    // Legs longer than the max stitch length are split (wide columns would otherwise leave loose floats).
+    if (width >= 5.0) {
+        const every = Math.max(1, Math.round(2.5 / config.densityMm));
+        const picks: number[] = [];
+        for (let i = 0; i < rungs.length; i += every) picks.push(i);
+        let prev = stitches[stitches.length - 1];
+        [...picks, ...[...picks].reverse()].forEach((i, k) => {
+            const r = rungs[i];
+            const p = k % 2 === 0 ? insetAt(r.right, r.left, 0.6) : insetAt(r.left, r.right, 0.6);
+            const parts = prev ? Math.ceil(dist(prev, p) / config.maxStitchLengthMm) : 1;
+            for (let j = 1; j <= parts; j++) {
+                const q = prev ? interpolatePoints(prev, p, j / parts) : p;
+                stitches.push({ x: q.x, y: q.y, type: 'stitch', colorIndex: colorIdx, hexColor });
+            }
+            prev = stitches[stitches.length - 1];
+        });
+    }
+    return stitches;
+};
 
-                // Apply shift to avoid railroading (grooves)
-                if (maxSafeShift > 0.5) {
-                    // Pattern: Center, Right, Left
-                    const pattern = [0, 0.5, -0.5];
-                    const shiftMm = pattern[i % 3] * Math.min(maxSafeShift, 2.0);
-                    const shiftT = shiftMm / currentLen;
-                    t += shiftT;
-                }
+// --- CONNECTED TATAMI ---
+// Scanline segments are grouped into monotone sections (one segment per row, no splits or merges),
+// each section sews as one boustrophedon block and the travel between sections runs along the
+// fill's own edge or under rows still to be sewn (underpathing), so a complex shape sews in one go
+// without jump threads and no travel is left on top of finished fill.
+
+interface FillSegment {
+    y: number;
+    rowIdx: number;
+    x1: number;
+    x2: number;
+    n1: number; // Edge graph node at x1
+    n2: number; // Edge graph node at x2
+}
+
+interface EdgeGraph {
+    nodes: Point[];
+    adj: { to: number, w: number }[][];
+}
+
+const TRAVEL_STITCH_MM = 2.5;
+
+// Dijkstra over the edge graph (binary heap, graphs reach a few thousand nodes)
+const shortestPaths = (graph: EdgeGraph, source: number) => {
+    const distTo = new Array<number>(graph.nodes.length).fill(Infinity);
+    const prev = new Array<number>(graph.nodes.length).fill(-1);
+    const heap: [number, number][] = [[0, source]];
+    distTo[source] = 0;
+
+    const push = (item: [number, number]) => {
+        heap.push(item);
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (heap[parent][0] <= heap[i][0]) break;
+            [heap[parent], heap[i]] = [heap[i], heap[parent]];
+            i = parent;
+        }
+    };
+    const pop = (): [number, number] => {
+        const top = heap[0];
+        const last = heap.pop()!;
+        if (heap.length > 0) {
+            heap[0] = last;
+            let i = 0;
+            while (true) {
+                const l = i * 2 + 1, r = l + 1;
+                let m = i;
+                if (l < heap.length && heap[l][0] < heap[m][0]) m = l;
+                if (r < heap.length && heap[r][0] < heap[m][0]) m = r;
+                if (m === i) break;
+                [heap[m], heap[i]] = [heap[i], heap[m]];
+                i = m;
+            }
+        }
+        return top;
+    };
 
-                const mid = interpolatePoints(p1, p2, t);
-                stitches.push({ x: mid.x, y: mid.y, type: 'stitch', colorIndex: colorIdx, hexColor });
+    while (heap.length > 0) {
+        const [d, u] = pop();
+        if (d > distTo[u]) continue;
+        for (const { to, w } of graph.adj[u]) {
+            if (d + w < distTo[to]) {
+                distTo[to] = d + w;
+                prev[to] = u;
+                push([d + w, to]);
             }
-            stitches.push({ x: p2.x, y: p2.y, type: 'stitch', colorIndex: colorIdx, hexColor });
-        } else {
-            stitches.push({ x: p1.x, y: p1.y, type: 'stitch', colorIndex: colorIdx, hexColor });
-            stitches.push({ x: p2.x, y: p2.y, type: 'stitch', colorIndex: colorIdx, hexColor });
         }
     }
-
-    return stitches;
+    return { distTo, prev };
 };
 
 const generateTatamiStitches = (shapePathsMm: Point[][], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
@@ -339,91 +670,171 @@ const generateTatamiStitches = (shapePathsMm: Point[][], config: ProcessingConfi
     let minY = Infinity, maxY = -Infinity;
     rotatedPaths.forEach(path => { path.forEach(p => { if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y; }); });
 
-    const edges: { p1: Point, p2: Point }[] = [];
-    rotatedPaths.forEach(path => {
-        for (let i = 0; i < path.length - 1; i++) {
-            if (Math.abs(path[i].y - path[i + 1].y) > 0.001) {
-                if (path[i].y < path[i + 1].y) edges.push({ p1: path[i], p2: path[i + 1] });
-                else edges.push({ p1: path[i + 1], p2: path[i] });
-            }
-        }
-        const last = path[path.length - 1]; const first = path[0];
-        if (Math.abs(last.y - first.y) > 0.001) {
-            if (last.y < first.y) edges.push({ p1: last, p2: first });
-            else edges.push({ p1: first, p2: last });
-        }
-    });
-
     const rowSpacing = config.densityMm;
-    const stitchLen = 4.0;
+    const stitchLen = config.fillStitchLengthMm[config.fillPattern] || DEFAULT_FILL_STITCH_LENGTHS.brick;
     const maxSatinLen = config.maxStitchLengthMm || 7.0;
 
+    // 1. Edge graph: contour vertices plus every scanline crossing, chained around each contour
+    const graph: EdgeGraph = { nodes: [], adj: [] };
+    const addNode = (p: Point) => { graph.nodes.push(p); graph.adj.push([]); return graph.nodes.length - 1; };
+    const link = (a: number, b: number) => {
+        const w = dist(graph.nodes[a], graph.nodes[b]);
+        graph.adj[a].push({ to: b, w });
+        graph.adj[b].push({ to: a, w });
+    };
+    const unlink = (a: number, b: number) => {
+        graph.adj[a] = graph.adj[a].filter(e => e.to !== b);
+        graph.adj[b] = graph.adj[b].filter(e => e.to !== a);
+    };
+    const crossings = rotatedPaths.map(path => path.map(() => [] as { t: number, node: number }[]));
+
+    // 2. Scanline segments per row (in rotated space, rows run along X)
+    const rows: FillSegment[][] = [];
     for (let y = minY + rowSpacing; y < maxY; y += rowSpacing) {
-        const intersections: number[] = [];
-        for (const edge of edges) {
-            const y1 = edge.p1.y; const y2 = edge.p2.y;
-            if (y1 <= y && y2 > y) {
-                const x = edge.p1.x + (y - y1) * (edge.p2.x - edge.p1.x) / (y2 - y1);
-                intersections.push(x);
+        const hits: { x: number, node: number }[] = [];
+        rotatedPaths.forEach((path, pi) => {
+            for (let i = 0; i < path.length; i++) {
+                const a = path[i];
+                const b = path[(i + 1) % path.length];
+                if (Math.abs(a.y - b.y) <= 0.001) continue;
+                const lo = a.y < b.y ? a : b;
+                const hi = a.y < b.y ? b : a;
+                if (lo.y <= y && hi.y > y) {
+                    const t = (y - a.y) / (b.y - a.y);
+                    const x = a.x + t * (b.x - a.x);
+                    const node = addNode({ x, y });
+                    crossings[pi][i].push({ t, node });
+                    hits.push({ x, node });
+                }
             }
+        });
+        hits.sort((a, b) => a.x - b.x);
+
+        const rowIdx = Math.round(y / rowSpacing);
+        const row: FillSegment[] = [];
+        for (let i = 0; i + 1 < hits.length; i += 2) {
+            if (hits[i + 1].x - hits[i].x < 0.1) continue;
+            row.push({ y, rowIdx, x1: hits[i].x, x2: hits[i + 1].x, n1: hits[i].node, n2: hits[i + 1].node });
+            link(hits[i].node, hits[i + 1].node); // Travel may also run under a row that is still to be sewn
         }
-        intersections.sort((a, b) => a - b);
+        rows.push(row);
+    }
 
-        for (let i = 0; i < intersections.length; i += 2) {
-            if (i + 1 >= intersections.length) break;
-            const xStart = intersections[i];
-            const xEnd = intersections[i + 1];
-            const segmentLen = xEnd - xStart;
+    rotatedPaths.forEach((path, pi) => {
+        const vertexNodes = path.map(p => addNode(p));
+        for (let i = 0; i < path.length; i++) {
+            let prevNode = vertexNodes[i];
+            crossings[pi][i].sort((a, b) => a.t - b.t).forEach(c => { link(prevNode, c.node); prevNode = c.node; });
+            link(prevNode, vertexNodes[(i + 1) % path.length]);
+        }
+    });
 
-            if (segmentLen < 0.1) continue;
+    // 3. Monotone sections: a segment continues a section only when both sides overlap exactly once
+    const sections: FillSegment[][] = [];
+    let active: FillSegment[][] = [];
+    const overlaps = (a: FillSegment, b: FillSegment) => a.x1 < b.x2 && b.x1 < a.x2;
+    for (const row of rows) {
+        const next: FillSegment[][] = [];
+        for (const seg of row) {
+            const parents = active.filter(s => overlaps(s[s.length - 1], seg));
+            if (parents.length === 1 && row.filter(o => overlaps(parents[0][parents[0].length - 1], o)).length === 1) {
+                parents[0].push(seg);
+                next.push(parents[0]);
+            } else {
+                const section = [seg];
+                sections.push(section);
+                next.push(section);
+            }
+        }
+        active = next;
+    }
+    if (sections.length === 0) return stitches;
+
+    // 4. Row stitches (needles follow a grid fixed to the design so neighbouring sections line up)
+    const rowPoints = (seg: FillSegment, leftToRight: boolean): Point[] => {
+        const points: Point[] = [{ x: seg.x1, y: seg.y }];
+        if (seg.x2 - seg.x1 > maxSatinLen) {
+            fillRowNeedles(config.fillPattern, seg.rowIdx, seg.x1, seg.x2, stitchLen, config.fillCustomOffsets)
+                .forEach(x => points.push({ x, y: seg.y }));
+        }
+        points.push({ x: seg.x2, y: seg.y });
+        return leftToRight ? points : points.reverse();
+    };
 
-            const lineStitches: Point[] = [];
+    const emit = (p: Point, type: 'stitch' | 'jump', isStructure = false) => {
+        const q = rotatePoint(p, invAngle);
+        const last = stitches[stitches.length - 1];
+        if (type === 'stitch' && last && dist(last, q) < 0.1) return;
+        stitches.push({ x: q.x, y: q.y, type, colorIndex: colorIdx, hexColor, ...(isStructure || type === 'jump' ? { isStructure: true } : {}) });
+    };
 
-            if (segmentLen <= maxSatinLen) {
-                lineStitches.push({ x: xStart, y: y });
-                lineStitches.push({ x: xEnd, y: y });
-            } else {
-                // Standard Tatami Pattern (Brick)
-                // Offset 0, 0.5, 0, 0.5 to create a clean brick look
-                // Or 0, 0.33, 0.66 for a twill look. Let's stick to 0.5 (brick) for stability.
-                const rowIdx = Math.round(y / rowSpacing);
-                const offsetFraction = (rowIdx % 2 === 0) ? 0 : 0.5;
-                const rowOffset = offsetFraction * stitchLen;
-
-                let currX = xStart + ((stitchLen - rowOffset) % stitchLen);
-                if (currX <= xStart) currX += stitchLen;
-
-                lineStitches.push({ x: xStart, y: y });
-                while (currX < xEnd) {
-                    lineStitches.push({ x: currX, y: y });
-                    currX += stitchLen;
-                }
-                lineStitches.push({ x: xEnd, y: y });
-            }
-
-            const isReverse = Math.round(y / rowSpacing) % 2 === 0;
-            if (isReverse) lineStitches.reverse();
-
-            const firstP = rotatePoint(lineStitches[0], invAngle);
-            if (stitches.length > 0) {
-                const lastStitch = stitches[stitches.length - 1];
-                const d = dist(lastStitch, firstP);
-                // Increase jump threshold inside Tatami to avoid trims in the middle of a shape
-                // Only jump if it's a huge distance (e.g. > 7mm), otherwise travel run
-                if (d > 7.0) {
-                    stitches.push({ ...firstP, type: 'jump', colorIndex: colorIdx, hexColor, isStructure: true });
-                } else if (d > 0.1) {
-                    stitches.push({ ...firstP, type: 'stitch', colorIndex: colorIdx, hexColor });
+    // 5. Sew sections, each time entering the unsewn section closest along the edge graph
+    const remaining = [...sections];
+    let current: number | null = null;
+    let section = sections[0];
+    let forward = true;
+    let leftToRight = true;
+
+    while (true) {
+        remaining.splice(remaining.indexOf(section), 1);
+        const ordered = forward ? section : [...section].reverse();
+        ordered.forEach((seg, k) => {
+            const ltr = k % 2 === 0 ? leftToRight : !leftToRight;
+            const points = rowPoints(seg, ltr);
+            if (current === null) emit(points[0], 'jump');
+            points.forEach(p => emit(p, 'stitch'));
+            current = ltr ? seg.n2 : seg.n1;
+            unlink(seg.n1, seg.n2); // Sewn: travel can no longer hide under this row
+        });
+        if (remaining.length === 0 || current === null) break;
+
+        const { distTo, prev } = shortestPaths(graph, current);
+        let best: { section: FillSegment[], forward: boolean, leftToRight: boolean, node: number, d: number } | null = null;
+        for (const s of remaining) {
+            const first = s[0], last = s[s.length - 1];
+            const entries = [
+                { forward: true, leftToRight: true, node: first.n1 },
+                { forward: true, leftToRight: false, node: first.n2 },
+                { forward: false, leftToRight: true, node: last.n1 },
+                { forward: false, leftToRight: false, node: last.n2 },
+            ];
+            for (const e of entries) {
+                if (!best || distTo[e.node] < best.d) best = { section: s, ...e, d: distTo[e.node] };
+            }
+        }
+        if (!best) break;
+
+        if (best.d === Infinity) {
+            // Disconnected piece (a sliver cut off by pull compensation, or a hole whose rows to the rest
+            // are all sewn): jump is the only way there
+            const from = graph.nodes[current];
+            let nearest = best;
+            for (const s of remaining) {
+                for (const seg of [s[0], s[s.length - 1]]) {
+                    for (const node of [seg.n1, seg.n2]) {
+                        if (nearest.d === Infinity || dist(from, graph.nodes[node]) < nearest.d) {
+                            nearest = { section: s, forward: seg === s[0], leftToRight: node === seg.n1, node, d: dist(from, graph.nodes[node]) };
+                        }
+                    }
                 }
-            } else {
-                stitches.push({ ...firstP, type: 'jump', colorIndex: colorIdx, hexColor, isStructure: true });
             }
-
-            for (let k = 1; k < lineStitches.length; k++) {
-                const p = rotatePoint(lineStitches[k], invAngle);
-                stitches.push({ x: p.x, y: p.y, type: 'stitch', colorIndex: colorIdx, hexColor });
+            emit(graph.nodes[nearest.node], 'jump');
+            best = nearest;
+        } else {
+            // Underpath along the edge or under unsewn rows: short running stitches, later covered by the fill
+            const route: Point[] = [];
+            for (let n = best.node; n !== -1; n = prev[n]) route.unshift(graph.nodes[n]);
+            // Corners are kept (a plain resample would cut across concave notches)
+            const corners = simplifyPath(route, 0.1);
+            for (let i = 1; i < corners.length; i++) {
+                const steps = Math.max(1, Math.ceil(dist(corners[i - 1], corners[i]) / TRAVEL_STITCH_MM));
+                for (let k = 1; k <= steps; k++) emit(interpolatePoints(corners[i - 1], corners[i], k / steps), 'stitch', true);
             }
         }
+
+        section = best.section;
+        forward = best.forward;
+        leftToRight = best.leftToRight;
     }
     return stitches;
 };
@@ -464,60 +875,208 @@ const generateRunningStitches = (pathMm: Point[], config: ProcessingConfig, colo
         }
     }
 
+    // Bean (triple) stitch: every stitch goes forward, back and forward again for a bold hand-sewn line
+    if (config.stitchType === 'bean') {
+        const bean: Stitch[] = [stitches[0]];
+        for (let i = 1; i < stitches.length; i++) bean.push(stitches[i], stitches[i - 1], stitches[i]);
+        return bean;
+    }
+
+    return stitches;
+};
+
+// Arc length parametrisation of a polyline: position at s and the left normal of the chord s ± reach
+const frameAlongPath = (path: Point[]) => {
+    const cumulative = [0];
+    for (let i = 1; i < path.length; i++) cumulative.push(cumulative[i - 1] + dist(path[i - 1], path[i]));
+    const total = cumulative[cumulative.length - 1];
+    const pointAt = (s: number): Point => {
+        const t = Math.max(0, Math.min(total, s));
+        let i = 1;
+        while (i < path.length - 1 && cumulative[i] < t) i++;
+        const len = cumulative[i] - cumulative[i - 1];
+        return len > 0 ? interpolatePoints(path[i - 1], path[i], (t - cumulative[i - 1]) / len) : path[i];
+    };
+    const normalAt = (s: number, reach: number): Point => {
+        const d = normalize(subPoints(pointAt(s + reach), pointAt(s - reach)));
+        return { x: -d.y, y: d.x };
+    };
+    // Path vertices strictly between two arc lengths, so runs between needles follow the path
+    const verticesBetween = (s0: number, s1: number) => path.filter((_, i) => cumulative[i] > s0 + 0.01 && cumulative[i] < s1 - 0.01);
+    return { cumulative, total, pointAt, normalAt, verticesBetween };
+};
+
+const toRunStitches = (points: Point[], colorIdx: number, hexColor: string): Stitch[] =>
+    points
+        .filter((p, i) => i === 0 || dist(points[i - 1], p) > 0.01)
+        .map((p): Stitch => ({ x: p.x, y: p.y, type: 'stitch', colorIndex: colorIdx, hexColor }));
+
+/**
+ * Motif run: the motif's needles repeat along the path once per stitch length (stretched so the path
+ * holds a whole number of repeats), satinColumnWidthMm wide. Normals follow the chord over one repeat,
+ * so the motif turns smoothly through corners.
+ */
+const generateMotifStitches = (pathMm: Point[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    const path = pathMm.filter((p, i) => i === 0 || dist(pathMm[i - 1], p) > 0.01);
+    const motif = getRunMotifPoints(config.runMotif, config.runMotifCustom);
+    if (path.length < 2 || motif.length === 0) return [];
+
+    const frame = frameAlongPath(path);
+    const repeats = Math.max(1, Math.round(frame.total / Math.max(0.5, config.maxStitchLengthMm)));
+    const repeatLen = frame.total / repeats;
+    const halfWidth = config.satinColumnWidthMm / 2;
+
+    const needles: Point[] = [path[0]];
+    for (let k = 0; k < repeats; k++) {
+        motif.forEach(m => {
+            const s = (k + m.x) * repeatLen;
+            needles.push(addPoints(frame.pointAt(s), scalePoint(frame.normalAt(s, repeatLen / 2), m.y * halfWidth)));
+        });
+    }
+    needles.push(path[path.length - 1]);
+    return toRunStitches(needles, colorIdx, hexColor);
+};
+
+/**
+ * E-stitch (blanket edge, appliqué): a run along the path with a prong one column width long to its
+ * right every stitch length. Right is into the shape for clockwise outers and counter-clockwise holes.
+ * Corners (turn > 45°) get their own prong on the bisector, the prongs in between are evenly spaced.
+ */
+const generateEStitches = (pathMm: Point[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    const path = simplifyPath(pathMm.filter((p, i) => i === 0 || dist(pathMm[i - 1], p) > 0.01), 0.1);
+    if (path.length < 2) return [];
+
+    const spacing = Math.max(0.5, config.maxStitchLengthMm);
+    const reach = config.satinColumnWidthMm;
+    const closed = path.length > 3 && dist(path[0], path[path.length - 1]) < 0.01;
+    const frame = frameAlongPath(path);
+    const rightNormal = (a: Point, b: Point) => {
+        const d = normalize(subPoints(b, a));
+        return { x: d.y, y: -d.x };
+    };
+
+    // 1. Corners split the path; closed paths wrap round at the start
+    const cornerDir = (i: number): Point | null => {
+        const prev = i > 0 ? path[i - 1] : closed ? path[path.length - 2] : null;
+        const next = i < path.length - 1 ? path[i + 1] : closed ? path[1] : null;
+        if (!prev || !next) return null;
+        const nIn = rightNormal(prev, path[i]);
+        const nOut = rightNormal(path[i], next);
+        if (dotProduct(nIn, nOut) > Math.cos(SATIN_CORNER_DEG * Math.PI / 180)) return null;
+        const bisector = normalize(addPoints(nIn, nOut));
+        return Math.hypot(bisector.x, bisector.y) > 0.5 ? bisector : nOut; // U-turn: no bisector
+    };
+    const stops: { s: number, dir: Point | null }[] = [{ s: 0, dir: cornerDir(0) }];
+    for (let i = 1; i < path.length - 1; i++) {
+        const dir = cornerDir(i);
+        if (dir) stops.push({ s: frame.cumulative[i], dir });
+    }
+    stops.push({ s: frame.total, dir: null });
+
+    // 2. Prongs: one on each corner, evenly spaced in between (normal of the local chord)
+    const prongs: { s: number, dir: Point }[] = [];
+    for (let k = 0; k + 1 < stops.length; k++) {
+        const a = stops[k].s, b = stops[k + 1].s;
+        const n = Math.max(1, Math.round((b - a) / spacing));
+        const chord = Math.min(0.5, (b - a) / 2); // Kept inside the piece, never across a corner
+        for (let j = 0; j < n; j++) {
+            const s = a + ((b - a) * j) / n;
+            const corner = j === 0 ? stops[k].dir : null;
+            prongs.push({ s, dir: corner || scalePoint(frame.normalAt(Math.max(a + chord, Math.min(b - chord, s)), chord), -1) });
+        }
+    }
+    if (!closed) {
+        const end = path.length - 1;
+        prongs.push({ s: frame.total, dir: rightNormal(path[end - 1], path[end]) });
+    }
+
+    // 3. Sew: run to each prong base along the path, out and back
+    const needles: Point[] = [path[0]];
+    let last = 0;
+    prongs.forEach(({ s, dir }) => {
+        const base = frame.pointAt(s);
+        needles.push(...frame.verticesBetween(last, s), base, addPoints(base, scalePoint(dir, reach)), base);
+        last = s;
+    });
+    if (closed) needles.push(...frame.verticesBetween(last, frame.total), path[path.length - 1]);
+    return toRunStitches(needles, colorIdx, hexColor);
+};
+
+// Joins two stitch runs: short gaps are sewn (hidden by the top stitches), long ones jump
+const appendWithTravel = (target: Stitch[], run: Stitch[], colorIdx: number, hexColor: string) => {
+    if (run.length === 0) return;
+    const [first, ...rest] = run;
+    if (target.length > 0 && dist(target[target.length - 1], first) > 7.0) {
+        target.push({ ...first, type: 'jump', colorIndex: colorIdx, hexColor, isStructure: true });
+    } else {
+        target.push({ ...first, type: 'stitch' });
+    }
+    target.push(...rest);
+};
+
+/**
+ * Tatami underlay, sized from the shape area:
+ * - Edge walk: running stitch just inside the contour, holds the outline.
+ * - Fill: loose tatami at tatamiAngle + 90°, lifts the top stitches and stops puckering.
+ * - Auto: tiny shapes get nothing, small ones an edge walk, medium ones the fill, large ones both.
+ */
+const generateTatamiUnderlay = (shapeMm: Point[][], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    const area = shapeArea(shapeMm);
+    const size = Math.sqrt(area); // Side of the equivalent square (mm)
+
+    let mode = config.tatamiUnderlay;
+    if (mode === 'auto') {
+        if (area < 12) return [];
+        mode = area < 150 ? 'edge' : area < 600 ? 'fill' : 'edge_fill';
+    }
+
+    // Bigger shapes tolerate a deeper inset and a looser fill
+    const inset = Math.min(1.0, Math.max(0.4, size * 0.03));
+    const rowSpacing = size < 20 ? 2.0 : size < 50 ? 2.5 : 3.0;
+
+    const stitches: Stitch[] = [];
+
+    if (mode === 'edge' || mode === 'edge_fill') {
+        // Outer contour and every hole, inset into the material
+        for (const contour of shapeMm) {
+            const insetPoly = offsetPolygon(contour, -inset);
+            if (insetPoly.length <= 2) continue;
+            const run = generateRunningStitches(insetPoly, { ...config, maxStitchLengthMm: 2.5 }, colorIdx, hexColor);
+            if (run.length > 0) run.push({ ...run[0], type: 'stitch' }); // Close the loop
+            appendWithTravel(stitches, run, colorIdx, hexColor);
+        }
+    }
+
+    if (mode === 'fill' || mode === 'edge_fill') {
+        const fill = generateTatamiStitches(shapeMm, {
+            ...config,
+            tatamiAngle: config.tatamiAngle + 90,
+            densityMm: rowSpacing,
+            pullCompensationMm: -inset * 1.5, // Stay clear of the edge so it never peeks out
+            maxStitchLengthMm: 4.0,
+            fillPattern: 'brick', // Textures belong to the top layer only
+            fillStitchLengthMm: { ...config.fillStitchLengthMm, brick: 4.0 }
+        }, colorIdx, hexColor);
+        appendWithTravel(stitches, fill, colorIdx, hexColor);
+    }
+
     return stitches;
 };
 
-const generateUnderlay = (pathMm: Point[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+// shapeMm: [outer, ...holes] for tatami, a single path otherwise
+const generateUnderlay = (shapeMm: Point[][], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
     if (!config.enableUnderlay) return [];
+    const pathMm = shapeMm[0];
 
     let stitches: Stitch[] = [];
 
     if (config.stitchType === 'satin') {
-        const width = config.satinColumnWidthMm;
-
-        // 1. Narrow Columns (< 2mm): Center Run
-        if (width < 2.0) {
-            stitches = generateRunningStitches(pathMm, config, colorIdx, hexColor);
-        }
-        // 2. Medium Columns (2mm - 5mm): Edge Run (Contour)
-        else if (width >= 2.0 && width < 5.0) {
-            const inset = 0.4; // 0.4mm inset from edge
-            const insetPoly = offsetPolygon(pathMm, -inset);
-            if (insetPoly.length > 2) {
-                stitches = generateRunningStitches(insetPoly, config, colorIdx, hexColor);
-                // Ensure closed loop
-                if (stitches.length > 0) {
-                    stitches.push({ ...stitches[0], type: 'stitch', colorIndex: colorIdx, hexColor });
-                }
-            }
-        }
-        // 3. Wide Columns (> 5mm): Zigzag / Double Zigzag
-        else {
-            // For now, we implement a simple Zigzag Underlay
-            // We reuse Satin logic but with low density and no pull comp
-            const inset = 0.6;
-            const zigzagConfig = {
-                ...config,
-                satinColumnWidthMm: width - (inset * 2),
-                densityMm: 2.5, // Low density for underlay
-                pullCompensationMm: 0
-            };
-            stitches = generateSatinStitches(pathMm, zigzagConfig, colorIdx, hexColor);
-        }
-    } else if (config.stitchType === 'running') {
-        // Running stitch underlay is not typically needed or is the main stitch itself
-        return [];
+        stitches = generateRungUnderlay(buildCenterlineRungs(pathMm, config), config, colorIdx, hexColor);
     } else if (config.stitchType === 'tatami') {
-        // Tatami Underlay: Usually an Edge Run + loose Tatami in opposite angle
-        // For simplicity in this phase: Edge Run
-        const insetPoly = offsetPolygon(pathMm, -0.6);
-        if (insetPoly.length > 2) {
-            const run = generateRunningStitches(insetPoly, config, colorIdx, hexColor);
-            stitches = run.map(s => ({ ...s, isStructure: true }));
-            if (run.length > 0) {
-                stitches.push({ ...run[0], type: 'stitch', isStructure: true });
-            }
-        }
+        stitches = generateTatamiUnderlay(shapeMm, config, colorIdx, hexColor);
+    } else {
+        // Running stitch types (plain, bean, motif, e-stitch): underlay is not typically needed or is the main stitch itself
+        return [];
     }
 
     // Mark ALL underlay stitches as structure
@@ -565,6 +1124,370 @@ const removeSmallStitches = (stitches: Stitch[], minLen: number): Stitch[] => {
     return result;
 };
 
+// --- PATCH BORDER ---
+
+const NEIGHBOURS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+
+// Raster over a mm area: cell (r, c) has its centre at (ox + (c + 0.5) * cell, oy + (r + 0.5) * cell)
+interface CellGrid {
+    ox: number;
+    oy: number;
+    cell: number;
+    cols: number;
+    rows: number;
+}
+
+// Sets the cells whose centre lies inside the paths (even-odd, so holes stay empty)
+const fillEvenOdd = (grid: Uint8Array | Int8Array, { ox, oy, cell, cols, rows }: CellGrid, paths: Point[][]) => {
+    for (let r = 0; r < rows; r++) {
+        const y = oy + (r + 0.5) * cell;
+        const xs: number[] = [];
+        paths.forEach(path => {
+            for (let i = 0; i < path.length; i++) {
+                const a = path[i], b = path[(i + 1) % path.length];
+                if ((a.y > y) !== (b.y > y)) xs.push(a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y));
+            }
+        });
+        xs.sort((a, b) => a - b);
+        for (let i = 0; i + 1 < xs.length; i += 2) {
+            const c1 = Math.max(0, Math.ceil((xs[i] - ox) / cell - 0.5));
+            const c2 = Math.min(cols - 1, Math.floor((xs[i + 1] - ox) / cell - 0.5));
+            for (let c = c1; c <= c2; c++) grid[r * cols + c] = 1;
+        }
+    }
+};
+
+/**
+ * Outer silhouette of the whole design. Layers overlap (stacked tracing) or only touch (cut-out),
+ * so their union is rasterized on a fine grid and the outer boundary of every blob is traced back
+ * with Moore neighbour tracing. Blobs sitting inside another blob's counter are dropped.
+ */
+const traceSilhouette = (layers: VectorLayer[]): Point[][] => {
+    const allPaths = layers.flatMap(l => l.paths).filter(p => p.length > 2);
+    if (allPaths.length === 0) return [];
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    allPaths.forEach(path => path.forEach(p => {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    }));
+
+    const cell = Math.max(0.2, Math.max(maxX - minX, maxY - minY) / 800);
+    const cols = Math.ceil((maxX - minX) / cell) + 3;
+    const rows = Math.ceil((maxY - minY) / cell) + 3;
+    const ox = minX - cell, oy = minY - cell;
+    const grid = new Uint8Array(cols * rows);
+    const filled = (c: number, r: number) => c >= 0 && r >= 0 && c < cols && r < rows && grid[r * cols + c] === 1;
+
+    // 1. Rasterize cell centres: even-odd inside each layer, union across layers
+    layers.forEach(layer => fillEvenOdd(grid, { ox, oy, cell, cols, rows }, layer.paths));
+
+    // 2. Outer boundary of each 8-connected blob, starting from its first cell in scan order
+    const seen = new Uint8Array(cols * rows);
+    const rings: Point[][] = [];
+    for (let start = 0; start < grid.length; start++) {
+        if (grid[start] !== 1 || seen[start]) continue;
+
+        const stack = [start];
+        seen[start] = 1;
+        while (stack.length > 0) {
+            const idx = stack.pop()!;
+            const c = idx % cols, r = (idx - c) / cols;
+            for (const [dc, dr] of NEIGHBOURS) {
+                const n = (r + dr) * cols + c + dc;
+                if (filled(c + dc, r + dr) && !seen[n]) {
+                    seen[n] = 1;
+                    stack.push(n);
+                }
+            }
+        }
+
+        const sc = start % cols, sr = (start - sc) / cols;
+        const ring: Point[] = [];
+        let c = sc, r = sr;
+        let back = 4; // The cell to the west is empty, or the scan would have found it first
+        let firstDir = -1;
+        for (let guard = 0; guard < grid.length * 4; guard++) {
+            let dir = -1;
+            for (let k = 1; k <= 8; k++) {
+                const d = (back + k) % 8;
+                if (filled(c + NEIGHBOURS[d][0], r + NEIGHBOURS[d][1])) { dir = d; break; }
+            }
+            if (dir === -1) break; // Single cell
+            if (c === sc && r === sr) {
+                if (dir === firstDir) break; // Back at the start, leaving the same way (Jacob's criterion)
+                if (firstDir === -1) firstDir = dir;
+            }
+            ring.push({ x: ox + (c + 0.5) * cell, y: oy + (r + 0.5) * cell });
+
+            // The last empty neighbour checked becomes the backtrack of the next cell
+            const prev = (dir + 7) % 8;
+            const bc = c + NEIGHBOURS[prev][0], br = r + NEIGHBOURS[prev][1];
+            c += NEIGHBOURS[dir][0];
+            r += NEIGHBOURS[dir][1];
+            back = NEIGHBOURS.findIndex(([dc, dr]) => dc === bc - c && dr === br - r);
+        }
+        if (ring.length > 2) rings.push(ring);
+    }
+
+    // 3. Smooth the staircase, cell centres sit half a cell inside the real edge
+    return rings
+        .filter((ring, i) => !rings.some((other, j) => j !== i && Math.abs(polygonArea(other)) > Math.abs(polygonArea(ring)) && pointInPolygon(ring[0], other)))
+        .map(ring => openRing(simplifyPath(closeRing(ring), cell * 0.75)))
+        .filter(ring => ring.length > 2 && Math.abs(polygonArea(ring)) > 1.0)
+        .map(ring => offsetPolygon(orientPath(ring, true), cell / 2));
+};
+
+/**
+ * Satin border along one fill layer (every contour, counters included) or the design silhouette.
+ * The column centre sits half a width minus the overlap outside the edge, so the inner rail
+ * reaches overlapMm over the fill and no fabric shows between fill and border.
+ */
+const generatePatchBorder = (layers: VectorLayer[], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    const border = config.border;
+    let outlines: Point[][] = [];
+    if (border.mode === 'silhouette') {
+        outlines = traceSilhouette(layers);
+    } else if (border.mode === 'layer' && layers[border.layerIndex]) {
+        outlines = groupShapesWithHoles(layers[border.layerIndex].paths).flat().map(openRing);
+    }
+    if (outlines.length === 0) return [];
+
+    const columnConfig: ProcessingConfig = { ...config, stitchType: 'satin', satinColumnWidthMm: border.widthMm };
+    const halfWidth = border.widthMm / 2;
+    const centrelines = optimizePathSequence(outlines.map(o => closeRing(offsetPolygon(o, halfWidth - border.overlapMm))));
+    const stitches: Stitch[] = [];
+
+    for (const centre of centrelines) {
+        const ring = openRing(centre);
+        let column: Stitch[] = [];
+
+        // 1. Underlay: a centre run on narrow columns, edge runs inside both rails otherwise, plus a zigzag on wide ones
+        if (border.underlay) {
+            const inset = Math.min(0.5, halfWidth * 0.3);
+            if (border.widthMm < 2.0) {
+                appendWithTravel(column, generateRunningStitches(centre, columnConfig, colorIdx, hexColor), colorIdx, hexColor);
+            } else {
+                for (const side of [1, -1]) {
+                    const edge = closeRing(offsetPolygon(ring, side * (halfWidth - inset)));
+                    appendWithTravel(column, generateRunningStitches(edge, columnConfig, colorIdx, hexColor), colorIdx, hexColor);
+                }
+            }
+            if (border.widthMm >= 5.0) {
+                const zigzag = generateSatinStitches(centre, { ...columnConfig, satinColumnWidthMm: border.widthMm - inset * 2, densityMm: 2.5, pullCompensationMm: 0 }, colorIdx, hexColor);
+                appendWithTravel(column, zigzag, colorIdx, hexColor);
+            }
+            column = column.map(s => ({ ...s, isStructure: true }));
+        }
+
+        // 2. Satin column
+        appendWithTravel(column, generateSatinStitches(centre, columnConfig, colorIdx, hexColor), colorIdx, hexColor);
+        if (column.length === 0) continue;
+
+        column = addTieOff(addTieIn(column));
+        if (stitches.length > 0) stitches.push({ ...column[0], type: 'jump', colorIndex: colorIdx, hexColor, isStructure: true });
+        stitches.push(...column);
+    }
+    return stitches;
+};
+
+// --- APPLIQUÉ ---
+// Placement run (shows where the fabric goes), stop, tack-down zigzag (holds the fabric), stop while
+// the excess is trimmed, then the satin cover over the raw edge. Each phase sews every piece of the
+// layer before the machine stops, so all the fabric is placed and trimmed in one go.
+
+const APPLIQUE_PLACEMENT_STITCH_MM = 2.5;
+const APPLIQUE_TACK_WIDTH_MM = 1.5; // Tack-down zigzag, just inside the placement line
+const APPLIQUE_TACK_SPACING_MM = 2.0;
+const APPLIQUE_COVER_OVERHANG_MM = 0.5; // Cover satin reaches this far past the cut edge
+
+const generateAppliqueStitches = (paths: Point[][], config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    // Outers clockwise and holes counter-clockwise, so a negative offset always moves into the fabric
+    const rings = ([] as Point[][]).concat(...groupShapesWithHoles(paths)).map(openRing).filter(r => r.length > 2);
+    const inset = (ring: Point[], d: number) => closeRing(offsetPolygon(ring, -d));
+
+    const placementConfig: ProcessingConfig = { ...config, stitchType: 'running', maxStitchLengthMm: APPLIQUE_PLACEMENT_STITCH_MM };
+    const tackConfig: ProcessingConfig = { ...config, runMotif: 'zigzag', satinColumnWidthMm: APPLIQUE_TACK_WIDTH_MM, maxStitchLengthMm: APPLIQUE_TACK_SPACING_MM };
+    const coverInset = Math.max(0, config.satinColumnWidthMm / 2 - APPLIQUE_COVER_OVERHANG_MM);
+
+    const phases: Stitch[][][] = [
+        rings.map(ring => generateRunningStitches(closeRing(ring), placementConfig, colorIdx, hexColor)),
+        rings.map(ring => generateMotifStitches(inset(ring, APPLIQUE_TACK_WIDTH_MM / 2), tackConfig, colorIdx, hexColor).map(s => ({ ...s, isStructure: true }))),
+        rings.map(ring => generateSatinStitches(inset(ring, coverInset), config, colorIdx, hexColor)),
+    ];
+
+    // Runs are tied in and off and joined by jumps; a stop (same thread) between phases
+    const stitches: Stitch[] = [];
+    phases.forEach((runs, phase) => {
+        runs.filter(run => run.length > 0).forEach((run, k) => {
+            const tied = addTieOff(addTieIn(run));
+            const last = stitches[stitches.length - 1];
+            if (last && k === 0 && phase > 0) stitches.push({ ...last, type: 'color_change', colorIndex: colorIdx, hexColor, isStructure: true });
+            if (last) stitches.push({ ...tied[0], type: 'jump', colorIndex: colorIdx, hexColor, isStructure: true });
+            stitches.push(...tied);
+        });
+    });
+    return stitches;
+};
+
+// --- SEWING ORDER ---
+// Every unit of a layer (fill shape, column, outline) is offered to the sequence optimizer with the
+// ways it can be sewn: either end first for columns and open runs, any start vertex for closed rings.
+// Fills keep their own entry, the tatami path is planned from it.
+
+const LOOP_START_CANDIDATES = 24; // Start vertices offered per closed ring
+const FOOTPRINT_CELLS = 300; // Overlap grid resolution across the design
+
+interface SewUnit {
+    shape: Point[][];
+    rungs?: SatinRung[];
+}
+
+interface UnitOption extends SewOption {
+    sew: () => Stitch[];
+}
+
+// Underlay and top stitches of one unit, tied in and off (the tie-off ends in a trim)
+const sewUnit = ({ shape, rungs }: SewUnit, config: ProcessingConfig, colorIdx: number, hexColor: string): Stitch[] => {
+    const path = shape[0];
+    const stitches: Stitch[] = [];
+
+    // 1. UNDERLAY
+    const underlay = rungs
+        ? (config.enableUnderlay ? generateRungUnderlay(rungs, config, colorIdx, hexColor).map(s => ({ ...s, isStructure: true })) : [])
+        : generateUnderlay(shape, config, colorIdx, hexColor);
+    if (underlay.length > 0) stitches.push(...addTieIn(underlay));
+
+    // 2. MAIN STITCHES
+    let main: Stitch[] = [];
+    if (rungs) {
+        main = sewSatinRungs(rungs, config, colorIdx, hexColor);
+    } else if (config.stitchType === 'tatami') {
+        main = generateTatamiStitches(shape, config, colorIdx, hexColor);
+    } else if (config.stitchType === 'satin') {
+        main = generateSatinStitches(path, config, colorIdx, hexColor);
+    } else if (config.stitchType === 'motif') {
+        main = generateMotifStitches(path, config, colorIdx, hexColor);
+    } else if (config.stitchType === 'estitch') {
+        main = generateEStitches(path, config, colorIdx, hexColor);
+    } else {
+        main = generateRunningStitches(path, config, colorIdx, hexColor);
+    }
+
+    // 3. CLEANUP
+    if (main.length > 0) {
+        if (underlay.length === 0) main = addTieIn(main);
+        main = addTieOff(main);
+
+        if (stitches.length > 0) {
+            const last = stitches[stitches.length - 1];
+            const first = main[0];
+            if (dist(last, first) > config.trimJumpDistanceMm) {
+                stitches.push({ ...last, type: 'trim', colorIndex: colorIdx, hexColor, isStructure: true });
+            }
+            stitches.push({ ...first, type: 'jump', colorIndex: colorIdx, hexColor, isStructure: true });
+        }
+        stitches.push(...main);
+    }
+    return stitches;
+};
+
+const unitOptions = (unit: SewUnit, config: ProcessingConfig, colorIdx: number, hexColor: string): UnitOption[] => {
+    const sewn = (u: SewUnit): UnitOption[] => {
+        const stitches = sewUnit(u, config, colorIdx, hexColor);
+        return stitches.length > 0 ? [{ entry: stitches[0], exit: stitches[stitches.length - 1], sew: () => stitches }] : [];
+    };
+    // Outlines are only sewn once chosen; entry and exit are the path ends
+    const planned = (path: Point[]): UnitOption => ({
+        entry: path[0],
+        exit: path[path.length - 1],
+        sew: () => sewUnit({ shape: [path] }, config, colorIdx, hexColor)
+    });
+
+    // 1. Columns: from either end
+    if (unit.rungs) return [...sewn(unit), ...sewn({ shape: unit.shape, rungs: unit.rungs.slice().reverse() })];
+    // 2. Fills: a single entry
+    if (config.stitchType === 'tatami') return sewn(unit);
+
+    const path = unit.shape[0];
+    if (path.length < 2) return [];
+
+    // 3. Closed rings: any start vertex (spread along the ring)
+    const closed = path.length > 3 && dist(path[0], path[path.length - 1]) < 0.001;
+    if (closed) {
+        const count = path.length - 1;
+        const step = Math.max(1, Math.ceil(count / LOOP_START_CANDIDATES));
+        const options: UnitOption[] = [];
+        for (let v = 0; v < count; v += step) options.push(planned(reorderPolygonToStartAt(path, v)));
+        return options;
+    }
+
+    // 4. Open runs: either way round, except where the stitch has a side (motif, e-stitch prongs)
+    const directional = config.stitchType === 'motif' || config.stitchType === 'estitch';
+    return directional ? [planned(path)] : [planned(path), planned(path.slice().reverse())];
+};
+
+// Stitch types that sew the inside of a shape: only these cover what is below them
+export const coversArea = (stitchType: StitchType) => stitchType === 'tatami' || stitchType === 'satin' || stitchType === 'applique';
+
+/**
+ * Which layers overlap. Each layer is rasterized on a shared coarse grid: the even-odd inside of
+ * its contours plus a band along every path (outlines and columns cover little area of their own).
+ */
+const layerFootprints = (layers: VectorLayer[], configs: ProcessingConfig[]): ((a: number, b: number) => boolean) => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    layers.forEach(layer => layer.paths.forEach(path => path.forEach(p => {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    })));
+    if (minX > maxX) return () => false;
+
+    const cell = Math.max(0.5, Math.max(maxX - minX, maxY - minY) / FOOTPRINT_CELLS);
+    const margin = 10; // Cells, room for the widest band
+    const cols = Math.ceil((maxX - minX) / cell) + 2 * margin;
+    const rows = Math.ceil((maxY - minY) / cell) + 2 * margin;
+    const ox = minX - margin * cell, oy = minY - margin * cell;
+
+    const grids = layers.map((layer, li) => {
+        const grid = new Uint8Array(cols * rows);
+        const config = configs[li];
+
+        // 1. Inside (tatami, satin and appliqué shapes)
+        if (coversArea(config.stitchType)) {
+            fillEvenOdd(grid, { ox, oy, cell, cols, rows }, layer.paths);
+        }
+
+        // 2. Band along the stitched lines, as wide as the stitch reaches
+        const reach = config.stitchType === 'running' || config.stitchType === 'bean' || config.stitchType === 'tatami'
+            ? 0
+            : config.satinColumnWidthMm / 2;
+        const radius = Math.min(margin, Math.ceil(reach / cell));
+        const lines = [...layer.paths, ...(layer.satinColumns || []).map(c => [...c.left, ...c.right.slice().reverse()])];
+        lines.forEach(path => {
+            for (let i = 0; i + 1 < path.length; i++) {
+                const steps = Math.max(1, Math.ceil(dist(path[i], path[i + 1]) / (cell / 2)));
+                for (let s = 0; s <= steps; s++) {
+                    const p = interpolatePoints(path[i], path[i + 1], s / steps);
+                    const pc = Math.floor((p.x - ox) / cell), pr = Math.floor((p.y - oy) / cell);
+                    for (let dr = -radius; dr <= radius; dr++) {
+                        for (let dc = -radius; dc <= radius; dc++) {
+                            const c = pc + dc, r = pr + dr;
+                            if (c >= 0 && r >= 0 && c < cols && r < rows && dc * dc + dr * dr <= radius * radius) grid[r * cols + c] = 1;
+                        }
+                    }
+                }
+            }
+        });
+        return grid;
+    });
+
+    return (a, b) => {
+        const ga = grids[a], gb = grids[b];
+        for (let i = 0; i < ga.length; i++) if (ga[i] && gb[i]) return true;
+        return false;
+    };
+};
+
 // --- CORE UTILS ---
 
 const getLuminance = (hex: string) => {
@@ -574,67 +1497,422 @@ const getLuminance = (hex: string) => {
     return 0.299 * r + 0.587 * g + 0.114 * b;
 };
 const colorDist = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number) => Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
-const extractDominantColors = (ctx: CanvasRenderingContext2D, width: number, height: number, k: number): { r: number, g: number, b: number, hex: string }[] => {
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const data = imageData.data;
-    const pixels: { r: number, g: number, b: number }[] = [];
-    for (let i = 0; i < data.length; i += 80) {
-        const r = data[i], g = data[i + 1], b = data[i + 2], a = data[i + 3];
-        if (a < 128 || (r > 230 && g > 230 && b > 230)) continue;
-        pixels.push({ r, g, b });
-    }
-    if (pixels.length < k) return [{ r: 0, g: 0, b: 0, hex: '#000000' }];
-
-    let centroids: { r: number, g: number, b: number, hex: string }[] = Array.from({ length: k }, () => {
-        const p = pixels[Math.floor(Math.random() * pixels.length)];
-        return { r: p.r, g: p.g, b: p.b, hex: rgbToHex(p.r, p.g, p.b) };
+
+// --- CENTERLINE TRACING ---
+// Redwork sews the middle of each drawn line once: the ink is thinned to a one pixel skeleton, the
+// skeleton becomes a graph (line ends and junctions are nodes, the pixel runs between them are edges),
+// the short spurs thinning leaves on corners and line ends are pruned and the remaining edges are
+// chained straight through the junctions into long polylines.
+
+interface SkeletonEdge {
+    a: number; // Node cluster at the start (-1: none, closed loop)
+    b: number; // Node cluster at the end
+    pts: Point[]; // Pixel centres a -> b, ends on the node centres
+}
+
+// Ink mask with the same threshold as Potrace (transparent pixels count as paper)
+const binarizeRaster = ({ width: w, height: h, data }: RasterImage): Int8Array => {
+    const grid = new Int8Array(w * h);
+    for (let i = 0; i < w * h; i++) {
+        const alpha = data[i * 4 + 3] / 255;
+        const lum = (0.2126 * data[i * 4] + 0.7153 * data[i * 4 + 1] + 0.0721 * data[i * 4 + 2]) * alpha + 255 * (1 - alpha);
+        if (lum < 128) grid[i] = 1;
+    }
+    return grid;
+};
+
+// Zhang-Suen thinning (the one pixel frame is cleared so neighbours never leave the grid).
+// Only pixels on the ink border can go, so each pass checks the border instead of the whole ink
+const thinBitmap = (grid: Int8Array, w: number, h: number): Int8Array => {
+    const skel = new Int8Array(grid.length);
+    for (let y = 1; y < h - 1; y++) for (let x = 1; x < w - 1; x++) skel[y * w + x] = grid[y * w + x];
+
+    // Neighbours P2..P9, clockwise from north
+    const offsets = [-w, -w + 1, 1, w + 1, w, w - 1, -1, -w - 1];
+    const queued = new Int8Array(skel.length);
+    let border: number[] = [];
+    for (let i = 0; i < skel.length; i++) {
+        if (skel[i] && offsets.some(o => !skel[i + o])) {
+            border.push(i);
+            queued[i] = 1;
+        }
+    }
+
+    const p = new Int8Array(8);
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (let pass = 0; pass < 2; pass++) {
+            const removed: number[] = [];
+            for (const i of border) {
+                let count = 0;
+                for (let k = 0; k < 8; k++) count += (p[k] = skel[i + offsets[k]]);
+                if (count < 2 || count > 6) continue;
+                let transitions = 0;
+                for (let k = 0; k < 8; k++) if (!p[k] && p[(k + 1) % 8]) transitions++;
+                if (transitions !== 1) continue;
+                if (pass === 0 ? (p[0] && p[2] && p[4]) || (p[2] && p[4] && p[6]) : (p[0] && p[2] && p[6]) || (p[0] && p[4] && p[6])) continue;
+                removed.push(i);
+            }
+            if (removed.length === 0) continue;
+            changed = true;
+            removed.forEach(i => { skel[i] = 0; });
+            border = border.filter(i => skel[i]);
+            removed.forEach(i => offsets.forEach(o => {
+                if (skel[i + o] && !queued[i + o]) {
+                    queued[i + o] = 1;
+                    border.push(i + o);
+                }
+            }));
+        }
+    }
+    return skel;
+};
+
+// Chamfer (3-4) distance from each ink pixel to the paper, in pixels: half the local stroke width
+const inkDistance = (grid: Int8Array, w: number, h: number): Float32Array => {
+    const d = new Float32Array(grid.length);
+    for (let i = 0; i < grid.length; i++) d[i] = grid[i] ? 1e9 : 0;
+    const relax = (i: number, j: number, cost: number) => { if (d[j] + cost < d[i]) d[i] = d[j] + cost; };
+    for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) {
+        const i = y * w + x;
+        if (!grid[i]) continue;
+        if (x === 0 || y === 0 || x === w - 1 || y === h - 1) { d[i] = 3; continue; }
+        relax(i, i - 1, 3); relax(i, i - w, 3); relax(i, i - w - 1, 4); relax(i, i - w + 1, 4);
+    }
+    for (let y = h - 2; y > 0; y--) for (let x = w - 2; x > 0; x--) {
+        const i = y * w + x;
+        if (!grid[i]) continue;
+        relax(i, i + 1, 3); relax(i, i + w, 3); relax(i, i + w + 1, 4); relax(i, i + w - 1, 4);
+    }
+    for (let i = 0; i < d.length; i++) d[i] /= 3;
+    return d;
+};
+
+// Edges of the skeleton graph; touching node pixels form one node cluster
+const traceSkeletonEdges = (skel: Int8Array, w: number): { edges: SkeletonEdge[], nodes: Point[] } => {
+    const ring = [-w, -w + 1, 1, w + 1, w, w - 1, -1, -w - 1];
+    const stepOrder = [-w, 1, w, -1, -w + 1, w + 1, w - 1, -w - 1]; // Sides before diagonals: staircases are walked pixel by pixel
+    const toPoint = (i: number): Point => ({ x: (i % w) + 0.5, y: Math.floor(i / w) + 0.5 });
+
+    // 1. Node pixels: one branch (line end) or three and more (junction). A diagonal neighbour next to
+    // a side neighbour belongs to the same branch
+    const cluster = new Int32Array(skel.length).fill(-1);
+    const nodePixels: number[] = [];
+    for (let i = 0; i < skel.length; i++) {
+        if (!skel[i]) continue;
+        let branches = 0;
+        for (let k = 0; k < 8; k++) {
+            if (!skel[i + ring[k]]) continue;
+            if (k % 2 === 1 && (skel[i + ring[k - 1]] || skel[i + ring[(k + 1) % 8]])) continue;
+            branches++;
+        }
+        if (branches <= 1 || branches >= 3) nodePixels.push(i);
+    }
+    const isNode = new Int8Array(skel.length);
+    nodePixels.forEach(i => { isNode[i] = 1; });
+
+    // 2. Node clusters, placed at the centroid of their pixels
+    const nodes: Point[] = [];
+    nodePixels.forEach(start => {
+        if (cluster[start] !== -1) return;
+        const id = nodes.length;
+        const stack = [start];
+        cluster[start] = id;
+        let sx = 0, sy = 0, n = 0;
+        while (stack.length > 0) {
+            const i = stack.pop() as number;
+            const p = toPoint(i);
+            sx += p.x; sy += p.y; n++;
+            ring.forEach(o => {
+                if (isNode[i + o] && cluster[i + o] === -1) {
+                    cluster[i + o] = id;
+                    stack.push(i + o);
+                }
+            });
+        }
+        nodes.push({ x: sx / n, y: sy / n });
     });
 
-    for (let iter = 0; iter < 5; iter++) {
-        const clusters: any[][] = Array.from({ length: k }, () => []);
-        for (const p of pixels) {
-            let minDist = Infinity; let idx = 0;
-            for (let c = 0; c < centroids.length; c++) {
-                const d = Math.sqrt((p.r - centroids[c].r) ** 2 + (p.g - centroids[c].g) ** 2 + (p.b - centroids[c].b) ** 2);
-                if (d < minDist) { minDist = d; idx = c; }
-            }
-            clusters[idx].push(p);
-        }
-        centroids = centroids.map((c, i) => {
-            if (clusters[i].length === 0) return c;
-            const r = clusters[i].reduce((s: number, p: any) => s + p.r, 0) / clusters[i].length;
-            const g = clusters[i].reduce((s: number, p: any) => s + p.g, 0) / clusters[i].length;
-            const b = clusters[i].reduce((s: number, p: any) => s + p.b, 0) / clusters[i].length;
-            return { r, g, b, hex: rgbToHex(Math.round(r), Math.round(g), Math.round(b)) };
+    // 3. Walk from every node along each unvisited branch until the next node
+    const visited = new Int8Array(skel.length);
+    const edges: SkeletonEdge[] = [];
+    const walk = (first: number, startCluster: number): SkeletonEdge => {
+        const pts = [nodes[startCluster], toPoint(first)];
+        visited[first] = 1;
+        let current = first;
+        while (true) {
+            const end = stepOrder.map(o => current + o).find(j => isNode[j] && (cluster[j] !== startCluster || pts.length > 3));
+            if (end !== undefined) {
+                pts.push(nodes[cluster[end]]);
+                return { a: startCluster, b: cluster[end], pts };
+            }
+            const next = stepOrder.map(o => current + o).find(j => skel[j] && !isNode[j] && !visited[j]);
+            if (next === undefined) return { a: startCluster, b: -1, pts };
+            visited[next] = 1;
+            pts.push(toPoint(next));
+            current = next;
+        }
+    };
+    nodePixels.forEach(i => {
+        stepOrder.forEach(o => {
+            const j = i + o;
+            if (skel[j] && !isNode[j] && !visited[j]) edges.push(walk(j, cluster[i]));
         });
+    });
+
+    // 4. What is left are closed loops without any node
+    for (let i = 0; i < skel.length; i++) {
+        if (!skel[i] || isNode[i] || visited[i]) continue;
+        visited[i] = 1;
+        const pts = [toPoint(i)];
+        let current = i;
+        while (true) {
+            const next = stepOrder.map(o => current + o).find(j => skel[j] && !visited[j]);
+            if (next === undefined) break;
+            visited[next] = 1;
+            pts.push(toPoint(next));
+            current = next;
+        }
+        if (pts.length > 2) edges.push({ a: -1, b: -1, pts: [...pts, pts[0]] });
     }
-    return centroids;
+    return { edges, nodes };
 };
-const morphologyOpen = (grid: Int8Array, w: number, h: number, passes: number = 1) => {
-    let current = grid;
-    for (let p = 0; p < passes; p++) {
-        const temp = new Int8Array(grid.length);
-        for (let y = 1; y < h - 1; y++) for (let x = 1; x < w - 1; x++) {
-            const idx = y * w + x;
-            if (current[idx] === 1 && current[idx - 1] && current[idx + 1] && current[idx - w] && current[idx + w]) temp[idx] = 1;
-        }
-        current = temp;
+
+/**
+ * Skeleton centerlines (pixel coordinates) of the ink in the canvas.
+ * Spurs (branches from a junction to a free end) shorter than 1.5 local stroke widths are pruned,
+ * junctions closer than a stroke width merge into one crossing, then the edges meeting at each junction are
+ * paired by straightness and chained into polylines.
+ */
+const traceCenterlines = (image: RasterImage): Point[][] => {
+    // 1. Thin the ink; the distance transform gives the local stroke width at every junction
+    const { width: w, height: h } = image;
+    const grid = binarizeRaster(image);
+    const skel = thinBitmap(grid, w, h);
+    const depth = inkDistance(grid, w, h);
+    const radiusAt = (p: Point) => depth[Math.floor(p.y) * w + Math.floor(p.x)] || 1;
+
+    const { edges, nodes } = traceSkeletonEdges(skel, w);
+    const edgeLength = (e: SkeletonEdge) => pathLength(e.pts);
+
+    // 2. Prune spurs until stable (removing one can turn a junction into a plain bend)
+    let alive = edges.slice();
+    const degreeOf = () => {
+        const degree = new Int32Array(nodes.length);
+        alive.forEach(e => {
+            if (e.a >= 0) degree[e.a]++;
+            if (e.b >= 0) degree[e.b]++;
+        });
+        return degree;
+    };
+    for (let pass = 0; pass < 3; pass++) {
+        const degree = degreeOf();
+        const before = alive.length;
+        alive = alive.filter(e => {
+            const free = (n: number) => n < 0 || degree[n] === 1;
+            const len = edgeLength(e);
+            if (free(e.a) && free(e.b)) return len >= MIN_PATH_LENGTH_PX; // Lone stroke or loop
+            if (free(e.a) || free(e.b)) return len >= Math.max(4, 3 * radiusAt(nodes[free(e.a) ? e.b : e.a]));
+            return true;
+        });
+        if (alive.length === before) break;
     }
-    for (let p = 0; p < passes; p++) {
-        const temp = new Int8Array(grid.length);
-        for (let y = 1; y < h - 1; y++) for (let x = 1; x < w - 1; x++) {
-            const idx = y * w + x;
-            if (current[idx] === 1) { temp[idx] = 1; temp[idx - 1] = 1; temp[idx + 1] = 1; temp[idx - w] = 1; temp[idx + w] = 1; }
+
+    // 3. Crossings thin into two junctions joined by a short bridge: merge them into one node
+    const degree = degreeOf();
+    const root = nodes.map((_, n) => n);
+    const find = (n: number): number => (root[n] === n ? n : (root[n] = find(root[n])));
+    alive = alive.filter(e => {
+        if (e.a < 0 || e.b < 0 || degree[e.a] < 3 || degree[e.b] < 3) return true;
+        if (edgeLength(e) >= 2 * Math.max(radiusAt(nodes[e.a]), radiusAt(nodes[e.b]))) return true;
+        const ra = find(e.a), rb = find(e.b);
+        if (ra === rb) return true;
+        root[rb] = ra;
+        nodes[ra] = interpolatePoints(nodes[ra], nodes[rb], 0.5);
+        return false;
+    });
+    alive = alive.map(e => {
+        const a = e.a < 0 ? -1 : find(e.a), b = e.b < 0 ? -1 : find(e.b);
+        const pts = e.pts.slice();
+        if (a >= 0) pts[0] = nodes[a];
+        if (b >= 0) pts[pts.length - 1] = nodes[b];
+        return { a, b, pts };
+    });
+
+    // 4. Pair edge ends at every node, straightest continuation first
+    const ends: { edge: number, atStart: boolean }[][] = nodes.map(() => []);
+    alive.forEach((e, k) => {
+        if (e.a >= 0) ends[e.a].push({ edge: k, atStart: true });
+        if (e.b >= 0) ends[e.b].push({ edge: k, atStart: false });
+    });
+    const heading = (k: number, atStart: boolean) => {
+        const pts = atStart ? alive[k].pts : alive[k].pts.slice().reverse();
+        return normalize(subPoints(pts[Math.min(pts.length - 1, 6)], pts[0]));
+    };
+    const partner = new Map<string, { edge: number, atStart: boolean }>();
+    const key = (edge: number, atStart: boolean) => `${edge}:${atStart ? 0 : 1}`;
+    ends.forEach(list => {
+        const open = list.slice();
+        while (open.length >= 2) {
+            let best = -1, bestJ = -1, bestDot = list.length === 2 ? Infinity : -0.5; // Junctions only continue on turns under 60°
+            for (let i = 0; i < open.length; i++) for (let j = i + 1; j < open.length; j++) {
+                const d = dotProduct(heading(open[i].edge, open[i].atStart), heading(open[j].edge, open[j].atStart));
+                if (d < bestDot) { bestDot = d; best = i; bestJ = j; }
+            }
+            if (best < 0) break;
+            partner.set(key(open[best].edge, open[best].atStart), open[bestJ]);
+            partner.set(key(open[bestJ].edge, open[bestJ].atStart), open[best]);
+            open.splice(bestJ, 1);
+            open.splice(best, 1);
+        }
+    });
+
+    // 5. Chain: start from unpaired ends, then whatever is left runs in closed chains
+    const used = new Int8Array(alive.length);
+    const chains: Point[][] = [];
+    const follow = (edge: number, atStart: boolean) => {
+        const chain: Point[] = [];
+        let k = edge, fromStart = atStart;
+        while (!used[k]) {
+            used[k] = 1;
+            const e = alive[k];
+            const pts = fromStart ? e.pts : e.pts.slice().reverse();
+            chain.push(...(chain.length > 0 ? pts.slice(1) : pts));
+            const next = partner.get(key(k, !fromStart));
+            if (!next) break;
+            k = next.edge;
+            fromStart = next.atStart;
+        }
+        return chain;
+    };
+    alive.forEach((e, k) => {
+        if (used[k]) return;
+        if (!partner.has(key(k, true))) chains.push(follow(k, true));
+        else if (!partner.has(key(k, false))) chains.push(follow(k, false));
+    });
+    alive.forEach((e, k) => {
+        if (!used[k]) chains.push(follow(k, true));
+    });
+    return chains.filter(chain => chain.length >= 2);
+};
+
+// --- STACKED LAYERS ---
+// Stacked tracing (VTracer, layered SVGs) paints every colour as a whole shape under the colours
+// above it. Sewn like that, lower fills are stitched in full and buried under the upper ones, so each
+// layer keeps only what shows, plus a margin under its neighbours so no fabric peeks through. Only
+// layers sewn as fills, satin shapes or appliqué hide what is below; outlines leave it showing.
+// The whole shapes stay on the layer (stackedPaths): restacking, merging or a new stitch type starts
+// again from them.
+
+const HIDDEN_FILL_OVERLAP_MM = 0.6; // Lower fill reaching under the edge of the layer above
+const STACK_GRID_CELLS = 1200; // Raster resolution across the design
+
+// Layers with their whole shapes back, as traced (edits to the stack start from these)
+export const restoreHiddenFill = (layers: VectorLayer[]): VectorLayer[] =>
+    layers.map(({ stackedPaths, ...layer }) => (stackedPaths ? { ...layer, paths: stackedPaths } : layer));
+
+const stackGrid = (layers: VectorLayer[]): CellGrid | null => {
+    const allPaths = layers.flatMap(l => l.paths).filter(p => p.length > 2);
+    if (allPaths.length === 0) return null;
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    allPaths.forEach(path => path.forEach(p => {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    }));
+    const cell = Math.max(0.05, Math.max(maxX - minX, maxY - minY) / STACK_GRID_CELLS);
+    return {
+        ox: minX - 2 * cell, oy: minY - 2 * cell, cell,
+        cols: Math.ceil((maxX - minX) / cell) + 4,
+        rows: Math.ceil((maxY - minY) / cell) + 4
+    };
+};
+
+const layerMask = (grid: CellGrid, paths: Point[][]) => {
+    const mask = new Int8Array(grid.cols * grid.rows);
+    fillEvenOdd(mask, grid, paths);
+    return mask;
+};
+
+const traceMask = (mask: Int8Array, grid: CellGrid): Point[][] =>
+    traceGridWithPotrace(mask, grid.cols, grid.rows)
+        .map(path => simplifyPath(path.map(p => ({ x: grid.ox + p.x * grid.cell, y: grid.oy + p.y * grid.cell })), grid.cell / 2))
+        .filter(path => path.length > 2);
+
+// Same layers, in the same order: each one trimmed to what shows (fully buried layers keep no paths).
+// `stitchType` is the global one, for layers without their own setting.
+export const removeHiddenFill = (layers: VectorLayer[], stitchType: StitchType): VectorLayer[] => {
+    const whole = restoreHiddenFill(layers);
+    const grid = whole.length > 1 ? stackGrid(whole) : null;
+    if (!grid) return whole;
+    const overlapCells = HIDDEN_FILL_OVERLAP_MM / grid.cell;
+
+    // Top to bottom: what the layers above cover, shrunk by the overlap margin
+    const covered = new Int8Array(grid.cols * grid.rows);
+    const result = whole.slice();
+    for (let i = whole.length - 1; i >= 0; i--) {
+        const layer = whole[i];
+        const mask = layerMask(grid, layer.paths);
+
+        // 1. Visible part (untouched layers keep their own vectors)
+        let hidden = 0;
+        const visible = new Int8Array(mask.length);
+        for (let k = 0; k < mask.length; k++) {
+            if (!mask[k]) continue;
+            if (covered[k]) hidden++;
+            else visible[k] = 1;
         }
-        current = temp;
+        if (hidden > 0) result[i] = { ...layer, paths: traceMask(visible, grid), stackedPaths: layer.paths };
+
+        // 2. This layer now covers the ones below it
+        if (!coversArea(layer.settings?.stitchType ?? stitchType)) continue;
+        const depth = inkDistance(mask, grid.cols, grid.rows);
+        for (let k = 0; k < mask.length; k++) if (depth[k] > overlapCells) covered[k] = 1;
     }
-    return current;
+    return result;
+};
+
+/**
+ * Whole shapes of several layers (restored, stack indices) merged into one layer at the highest
+ * member's place. Each member keeps what the other layers between it and that place leave showing,
+ * so the design looks the same. Only members that neither overlap nor get clipped keep their
+ * vectors: concatenated, one member's outline inside another's would be filled even-odd as a hole.
+ */
+export const mergeStackedPaths = (layers: VectorLayer[], members: number[]): Point[][] => {
+    const concatenated = ([] as Point[][]).concat(...members.map(m => layers[m].paths));
+    const grid = stackGrid(members.map(m => layers[m]));
+    if (!grid) return concatenated;
+
+    const top = Math.max(...members);
+    const masks = new Map<number, Int8Array>();
+    const maskOf = (i: number) => {
+        if (!masks.has(i)) masks.set(i, layerMask(grid, layers[i].paths));
+        return masks.get(i)!;
+    };
+
+    let exact = true;
+    const union = new Int8Array(grid.cols * grid.rows);
+    members.forEach(m => {
+        const mask = layerMask(grid, layers[m].paths);
+        for (let j = m + 1; j < top; j++) {
+            if (members.includes(j)) continue;
+            const above = maskOf(j);
+            for (let k = 0; k < mask.length; k++) if (mask[k] && above[k]) { mask[k] = 0; exact = false; }
+        }
+        for (let k = 0; k < mask.length; k++) {
+            if (!mask[k]) continue;
+            if (union[k]) exact = false;
+            union[k] = 1;
+        }
+    });
+    return exact ? concatenated : traceMask(union, grid);
 };
 
 // --- MAIN PROCESSOR (SPLIT PIPELINE) ---
 
-// helper to trace from existing canvas directly
-const traceCanvasWithPotrace = (canvas: HTMLCanvasElement): Point[][] => {
+// Binary grid straight into Potrace (1 = ink), no canvas round trip
+const traceGridWithPotrace = (grid: Int8Array, w: number, h: number): Point[][] => {
     Potrace.setParameter({
         turdsize: 2,
         optcurve: true,
@@ -642,7 +1920,7 @@ const traceCanvasWithPotrace = (canvas: HTMLCanvasElement): Point[][] => {
         opttolerance: 0.2
     });
 
-    Potrace.loadFromCanvas(canvas);
+    Potrace.loadFromBitmap(grid, w, h);
     Potrace.process(() => { });
 
     return extractPathsFromPotrace();
@@ -682,7 +1960,8 @@ const extractPathsFromPotrace = (): Point[][] => {
                     contour.push({ x, y });
                 }
             } else {
-                contour.push({ x: p0.x, y: p0.y });
+                // Corner: straight in to the vertex (p2), the next segment leaves from p3
+                contour.push({ x: p0.x, y: p0.y }, { x: p2.x, y: p2.y });
             }
         }
         if (contour.length > MIN_PATH_LENGTH_PX) {
@@ -693,32 +1972,12 @@ const extractPathsFromPotrace = (): Point[][] => {
     return finalContours;
 };
 
-// Replaces robustTraceContours with Real Potrace Engine (Bitmap input)
-const traceBitmapWithPotrace = (binaryGrid: Int8Array, w: number, h: number): Point[][] => {
-    const canvas = document.createElement('canvas');
-    canvas.width = w;
-    canvas.height = h;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return [];
-
-    const imgData = ctx.createImageData(w, h);
-    for (let i = 0; i < binaryGrid.length; i++) {
-        const val = binaryGrid[i] === 1 ? 0 : 255;
-        imgData.data[i * 4] = val;
-        imgData.data[i * 4 + 1] = val;
-        imgData.data[i * 4 + 2] = val;
-        imgData.data[i * 4 + 3] = 255;
-    }
-    ctx.putImageData(imgData, 0, 0);
-
-    return traceCanvasWithPotrace(canvas);
-};
-
 // Dedicated Vintage Processor: Luminance based, no color logic
-const processVintageVector = (ctx: CanvasRenderingContext2D, width: number, height: number, config: ProcessingConfig): { layers: VectorLayer[], svgPaths: string } => {
-    // DIRECT PASSTHROUGH: No manual thresholding loops.
-    // We let Potrace handle the thresholding internally via its loadBm logic.
-    const contours = traceCanvasWithPotrace(ctx.canvas);
+const processVintageVector = (image: RasterImage, config: TracingConfig): { layers: VectorLayer[], svgPaths: string } => {
+    // Centerline: one open path along the middle of each drawn line (redwork).
+    // Outline: Potrace on the ink mask traces both edges of every line.
+    const { width, height } = image;
+    const contours = config.centerlineTrace ? traceCenterlines(image) : traceGridWithPotrace(binarizeRaster(image), width, height);
 
     const pixelsPerMm = PROCESS_WIDTH / config.widthMm;
     const cx = width / 2;
@@ -726,9 +1985,9 @@ const processVintageVector = (ctx: CanvasRenderingContext2D, width: number, heig
 
     // Scale & Optimize
     let pathsMm = contours.map(path => path.map(p => ({ x: (p.x - cx) / pixelsPerMm, y: (cy - p.y) / pixelsPerMm })));
-    const epsilon = 0.05;
+    const epsilon = config.centerlineTrace ? 0.75 / pixelsPerMm : 0.05; // Centerlines: flatten the pixel staircase
     pathsMm = pathsMm.map(path => simplifyPath(path, epsilon));
-    pathsMm = optimizePathSequence(pathsMm);
+    pathsMm = optimizePathSequence(pathsMm, config.centerlineTrace);
 
     let svgPathStr = '';
     if (pathsMm.length > 0) {
@@ -747,144 +2006,222 @@ const processVintageVector = (ctx: CanvasRenderingContext2D, width: number, heig
     };
 };
 
-// Dedicated Patch Processor: VTracer based
-const processPatchVectors = async (ctx: CanvasRenderingContext2D, width: number, height: number, config: ProcessingConfig): Promise<{ layers: VectorLayer[], svgPaths: string, colors: string[] }> => {
-    const imageData = ctx.getImageData(0, 0, width, height);
-
-    // Call VTracer Service
-    // Note: VTracer handles color quantization internally based on options
-    return await processVTracer(imageData, config.widthMm, config.colorCount);
-};
+// Patch tracer: bitmap in, VTracer SVG out (quantized to config.colorCount, traced with config.vectorize).
+// The browser posts to /api/vectorize, the server calls the native tracer directly
+export type PatchTracer = (image: RasterImage, config: TracingConfig) => Promise<string>;
 
-// PHASE 2: PREPARE VECTOR LAYERS (Router)
-export const prepareVectorLayers = async (imageSrc: string, config: ProcessingConfig): Promise<{ layers: VectorLayer[], width: number, height: number, svgPreview: string, colors: string[] }> => {
-    const img = await loadImage(imageSrc);
-    const canvas = document.createElement('canvas');
-    canvas.width = PROCESS_WIDTH;
-    const scale = PROCESS_WIDTH / img.width;
-    canvas.height = Math.floor(img.height * scale);
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error("Canvas context failed");
+const svgPreviewOf = (svgPaths: string, width: number, height: number) =>
+    `<svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" style="background:white">${svgPaths}</svg>`;
 
-    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+// PHASE 2: PREPARE VECTOR LAYERS (Router), DOM free: runs in the browser and on the server
+export const traceRasterLayers = async (image: RasterImage, config: TracingConfig, tracePatch: PatchTracer): Promise<VectorizedDesign> => {
+    // 1. Work at the processing width, whatever the source resolution
+    const raster = resizeRaster(image, PROCESS_WIDTH);
 
     let resultLayers: VectorLayer[] = [];
     let svgPaths = '';
     let finalColors: string[] = ['#000000'];
 
+    // 2. Trace by style
+    if (config.designStyle === 'vintage') {
+        const result = processVintageVector(raster, config);
+        resultLayers = result.layers;
+        svgPaths = result.svgPaths;
+    } else {
+        // Use VTracer for Patch Fill
+        const result = parseSvgToLayers(await tracePatch(raster, config), raster.width, raster.height, config.widthMm);
+        resultLayers = removeHiddenFill(result.layers, 'tatami'); // Traced patches are fills until a stitch type is picked
+        svgPaths = result.svgPaths;
+        finalColors = resultLayers.map(l => l.color);
+    }
+
+    return {
+        layers: resultLayers,
+        width: config.widthMm,
+        height: config.widthMm * (image.height / image.width),
+        svgPreview: svgPreviewOf(svgPaths, raster.width, raster.height),
+        colors: finalColors
+    };
+};
+
+// Direct SVG input: no AI and no tracing, the paths are the layers. The pixel size is the fallback
+// when the SVG has neither a viewBox nor width/height
+export const traceSvgLayers = (svgContent: string, pixelWidth: number, pixelHeight: number, config: TracingConfig): VectorizedDesign => {
+    const result = parseSvgToLayers(svgContent, pixelWidth, pixelHeight, config.widthMm);
+    const resultLayers = removeHiddenFill(result.layers, 'tatami');
+    const aspect = result.viewBoxHeight / result.viewBoxWidth;
+
+    return {
+        layers: resultLayers,
+        width: config.widthMm,
+        height: config.widthMm * aspect,
+        svgPreview: svgPreviewOf(result.svgPaths, PROCESS_WIDTH, Math.floor(PROCESS_WIDTH * aspect)),
+        colors: resultLayers.map(l => l.color)
+    };
+};
+
+// Browser entry: decode through an <img> and a canvas, then the shared pipeline
+export const prepareVectorLayers = async (imageSrc: string, config: TracingConfig): Promise<VectorizedDesign> => {
+    const img = await loadImage(imageSrc);
+
     // Check if input is SVG (data URL or file extension)
     const isSvg = imageSrc.startsWith('data:image/svg+xml') || imageSrc.endsWith('.svg');
 
     if (isSvg) {
-        // Direct SVG Input: Bypass AI and Vectorization
         let svgContent = '';
         if (imageSrc.startsWith('data:image/svg+xml')) {
             // Decode base64 or URL encoded SVG
             const base64Data = imageSrc.split(',')[1];
             svgContent = decodeURIComponent(escape(atob(base64Data)));
         } else {
-            // Fetch if it's a URL (not implemented for local files yet, assuming data URL from App.tsx)
-            // For now, App.tsx should provide data URL
             const response = await fetch(imageSrc);
             svgContent = await response.text();
         }
-
-        // Use the extracted parser
-        const { parseSvgToLayers } = await import('./vtracerService');
-        const result = parseSvgToLayers(svgContent, img.width, img.height, config.widthMm);
-
-        resultLayers = result.layers;
-        svgPaths = result.svgPaths;
-        finalColors = result.colors;
-
-    } else if (config.designStyle === 'vintage') {
-        const result = processVintageVector(ctx, canvas.width, canvas.height, config);
-        resultLayers = result.layers;
-        svgPaths = result.svgPaths;
-    } else {
-        // Use VTracer for Patch Fill
-        const result = await processPatchVectors(ctx, canvas.width, canvas.height, config);
-        resultLayers = result.layers;
-        svgPaths = result.svgPaths;
-        finalColors = result.colors;
+        return traceSvgLayers(svgContent, img.width, img.height, config);
     }
 
-    const svgPreview = `<svg viewBox="0 0 ${canvas.width} ${canvas.height}" xmlns="http://www.w3.org/2000/svg" style="background:white">${svgPaths}</svg>`;
+    // The browser scales on the canvas (resizeRaster then has nothing to do)
+    const canvas = document.createElement('canvas');
+    canvas.width = PROCESS_WIDTH;
+    canvas.height = Math.floor(img.height * (PROCESS_WIDTH / img.width));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
 
-    return {
-        layers: resultLayers,
-        width: config.widthMm,
-        height: config.widthMm * (img.height / img.width),
-        svgPreview,
-        colors: finalColors
-    };
+    return traceRasterLayers(ctx.getImageData(0, 0, canvas.width, canvas.height), config, requestVTracerSvg);
 };
 
+// Global config with the layer's own stitch settings on top (cleared settings are removed, not set to undefined)
+export const resolveLayerConfig = (config: ProcessingConfig, layer: VectorLayer): ProcessingConfig =>
+    ({ ...config, ...layer.settings });
+
 // PHASE 3: DIGITIZE (Physics Engine Only)
-export const digitizeDesign = (layers: VectorLayer[], config: ProcessingConfig): { stitches: Stitch[] } => {
+export const digitizeDesign = (layers: VectorLayer[], config: ProcessingConfig): { stitches: Stitch[], sequence: SequenceReport } => {
     let allStitches: Stitch[] = [];
+    const configs = layers.map(layer => resolveLayerConfig(config, layer));
+
+    // 1. UNITS: the ways each unit of each layer can be sewn
+    const layerItems = layers.map((layer, i) => {
+        const layerConfig = configs[i];
+        const hex = layer.thread?.hex || layer.color; // Preview and exporters show the real thread
+
+        // Fills sew each outer contour together with its holes, outlines sew every contour.
+        // Satin turns thin shapes into one column between their two sides; explicit rail columns come last.
+        const units: SewUnit[] = [];
+        if (layerConfig.stitchType === 'tatami') {
+            groupShapesWithHoles(layer.paths).forEach(shape => units.push({ shape }));
+        } else if (layerConfig.stitchType === 'satin') {
+            groupShapesWithHoles(layer.paths).forEach(shape => {
+                const rungs = extractSatinColumn(shape, layerConfig.densityMm);
+                if (rungs) units.push({ shape, rungs });
+                else shape.forEach(path => units.push({ shape: [path] }));
+            });
+        } else if (layerConfig.stitchType === 'estitch') {
+            // Oriented like fills so the prongs point into the shape
+            groupShapesWithHoles(layer.paths).forEach(shape => shape.forEach(path => units.push({ shape: [path] })));
+        } else if (layerConfig.stitchType !== 'applique') {
+            layer.paths.forEach(path => units.push({ shape: [path] }));
+        }
+        (layer.satinColumns || []).forEach(column => {
+            units.push({ shape: [column.left], rungs: pairRails(column.left, column.right, layerConfig.densityMm) });
+        });
 
-    for (let i = 0; i < layers.length; i++) {
-        const layer = layers[i];
-        let layerStitches: Stitch[] = [];
-
-        for (const path of layer.paths) {
-            // 1. UNDERLAY
-            const underlay = generateUnderlay(path, config, i, layer.color);
-            if (underlay.length > 0) {
-                const tiedUnderlay = addTieIn(underlay);
-                if (layerStitches.length > 0) {
-                    layerStitches.push({ ...tiedUnderlay[0], type: 'jump', colorIndex: i, hexColor: layer.color, isStructure: true });
-                }
-                layerStitches.push(...tiedUnderlay);
-            }
-
-            // 2. MAIN STITCHES
-            let main: Stitch[] = [];
-            if (config.stitchType === 'tatami') {
-                main = generateTatamiStitches([path], config, i, layer.color);
-            } else if (config.stitchType === 'satin') {
-                main = generateSatinStitches(path, config, i, layer.color);
-            } else {
-                main = generateRunningStitches(path, config, i, layer.color);
+        const items = units.map(unit => ({ options: unitOptions(unit, layerConfig, i, hex) }));
+        if (layerConfig.stitchType === 'applique') {
+            // Sewn as a whole in three phases with stops, before any explicit column
+            const applique = generateAppliqueStitches(layer.paths, layerConfig, i, hex);
+            if (applique.length > 0) {
+                items.unshift({ options: [{ entry: applique[0], exit: applique[applique.length - 1], sew: () => applique }] });
             }
+        }
+        return items.filter(item => item.options.length > 0);
+    });
 
-            // 3. CLEANUP
-            if (main.length > 0) {
-                if (underlay.length === 0) main = addTieIn(main);
-                main = addTieOff(main);
+    // 2. ORDER: colours light to dark where layers don't overlap, then the shortest travel in each layer
+    const lightness = layers.map(layer => getLuminance(layer.thread?.hex || layer.color));
+    const layerOrder = orderLayers(lightness, layerFootprints(layers, configs));
+    const travel = { before: { jumpMm: 0, trims: 0 }, after: { jumpMm: 0, trims: 0 } };
+    const addTravel = (total: { jumpMm: number, trims: number }, moves: SewOption[], from: Point | null, trimDistanceMm: number) => {
+        if (moves.length === 0) return from;
+        const inLayer = measureTravel(moves, null, trimDistanceMm);
+        total.jumpMm += inLayer.jumpMm + (from ? dist(from, moves[0].entry) : 0);
+        total.trims += inLayer.trims;
+        return moves[moves.length - 1].exit;
+    };
 
-                if (layerStitches.length > 0) {
-                    const last = layerStitches[layerStitches.length - 1];
-                    const first = main[0];
-                    const d = dist(last, first);
+    let tracedAt: Point | null = null;
+    layerItems.forEach((items, i) => {
+        tracedAt = addTravel(travel.before, items.map(item => item.options[0]), tracedAt, configs[i].trimJumpDistanceMm);
+    });
 
-                    if (d > config.trimJumpDistanceMm) {
-                        layerStitches.push({ ...last, type: 'trim', colorIndex: i, hexColor: layer.color, isStructure: true });
-                        layerStitches.push({ ...first, type: 'jump', colorIndex: i, hexColor: layer.color, isStructure: true });
-                    } else {
-                        layerStitches.push({ ...first, type: 'jump', colorIndex: i, hexColor: layer.color, isStructure: true });
-                    }
+    let needleAt: Point | null = null;
+    for (const i of layerOrder) {
+        const layer = layers[i];
+        const layerConfig = configs[i];
+        const hex = layer.thread?.hex || layer.color;
+        const items = layerItems[i];
+        const traced = items.map(item => item.options[0]);
+        // Appliqué keeps its phases ahead of the columns; no order may travel further than the traced one
+        let route = layerConfig.stitchType === 'applique'
+            ? traced
+            : optimizeSequence(items, needleAt, layerConfig.trimJumpDistanceMm).map(step => items[step.item].options[step.option]);
+        if (sequenceCost(traced, needleAt, layerConfig.trimJumpDistanceMm) < sequenceCost(route, needleAt, layerConfig.trimJumpDistanceMm)) route = traced;
+        needleAt = addTravel(travel.after, route, needleAt, layerConfig.trimJumpDistanceMm);
+
+        // 3. JOIN: short moves keep the thread, the tie-off trim is only kept before long jumps
+        const layerStitches: Stitch[] = [];
+        route.forEach(option => {
+            const block = option.sew();
+            if (block.length === 0) return;
+            const last = layerStitches[layerStitches.length - 1];
+            if (last) {
+                if (last.type === 'trim' && dist(last, block[0]) <= layerConfig.trimJumpDistanceMm) layerStitches.pop();
+                else if (last.type !== 'trim' && dist(last, block[0]) > layerConfig.trimJumpDistanceMm) {
+                    layerStitches.push({ ...last, type: 'trim', colorIndex: i, hexColor: hex, isStructure: true });
                 }
-                layerStitches.push(...main);
+                layerStitches.push({ ...block[0], type: 'jump', colorIndex: i, hexColor: hex, isStructure: true });
             }
-        }
+            layerStitches.push(...block);
+        });
 
         if (layerStitches.length > 0) {
             if (allStitches.length > 0) {
                 const last = allStitches[allStitches.length - 1];
-                allStitches.push({ ...last, type: 'color_change', colorIndex: i, hexColor: layer.color, isStructure: true });
-                allStitches.push({ ...layerStitches[0], type: 'jump', colorIndex: i, hexColor: layer.color, isStructure: true });
+                allStitches.push({ ...last, type: 'color_change', colorIndex: i, hexColor: hex, isStructure: true });
+                allStitches.push({ ...layerStitches[0], type: 'jump', colorIndex: i, hexColor: hex, isStructure: true });
             }
             allStitches.push(...layerStitches);
         }
     }
 
+    // 4. BORDER: sews last so the column covers the edge of every fill below it
+    if (config.border.mode !== 'none') {
+        const last = allStitches[allStitches.length - 1];
+        const borderHex = config.border.color;
+        const sameThread = !!last && last.hexColor?.toLowerCase() === borderHex.toLowerCase();
+        const borderIdx = sameThread ? last.colorIndex ?? layers.length : layers.length;
+        const border = generatePatchBorder(layers, config, borderIdx, borderHex);
+
+        if (border.length > 0) {
+            if (last) {
+                if (!sameThread) allStitches.push({ ...last, type: 'color_change', colorIndex: borderIdx, hexColor: borderHex, isStructure: true });
+                allStitches.push({ ...border[0], type: 'jump', colorIndex: borderIdx, hexColor: borderHex, isStructure: true });
+            }
+            allStitches.push(...border);
+        }
+    }
+
     const cleanedStitches = removeSmallStitches(allStitches, config.minStitchLengthMm);
 
     if (cleanedStitches.length > 0) {
         cleanedStitches.push({ ...cleanedStitches[cleanedStitches.length - 1], type: 'end' });
     }
 
-    return { stitches: cleanedStitches };
+    const sequence: SequenceReport = {
+        trimsBefore: travel.before.trims,
+        trimsAfter: travel.after.trims,
+        jumpMmBefore: travel.before.jumpMm,
+        jumpMmAfter: travel.after.jumpMm
+    };
+    return { stitches: cleanedStitches, sequence };
 };
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { Hoop, Stitch } from '../types';
+import { createByteWriter, findNearestPaletteIndex, getColorBlocks, getStitchExtents, Rgb, toMachineUnits } from './exportUtils';
+
+/**
+ * JANOME JEF FORMAT
+ *
+ * Structure:
+ * - Header (0x74 bytes): stitch offset, flags, date, colour count, point count,
+ *   hoop code and the design's distance to the edges of the standard hoops.
+ * - Thread table: one Janome palette index per colour, then one type word (0x0D) per colour.
+ * - Body: relative signed bytes (dx, dy), commands prefixed with 0x80:
+ *   - 0x80 0x01 dx dy: Colour change
+ *   - 0x80 0x02 dx dy: Jump (a zero jump is read as a trim)
+ *   - 0x80 0x10: End
+ */
+
+// Janome hoop codes, smallest first so the first hoop that fits wins
+const JEF_HOOPS: { code: number; width: number; height: number }[] = [
+    { code: 1, width: 50, height: 50 },
+    { code: 0, width: 110, height: 110 },
+    { code: 3, width: 126, height: 110 },
+    { code: 2, width: 140, height: 200 },
+    { code: 4, width: 200, height: 200 },
+];
+
+// Janome default thread palette, the thread table stores (index + 1) into this list
+const JEF_PALETTE: Rgb[] = [
+    0x000000, 0xffffff, 0xffff17, 0xff6600, 0x2f5933, 0x237336, 0x65c2c8, 0xab5a96, 0xf669a0,
+    0xff0000, 0xb1704e, 0x0b2f84, 0xe4c35d, 0x481a05, 0xac9cc7, 0xfcf294, 0xf999b7, 0xfab381, 0xc9a480,
+    0x970533, 0xa0b8cc, 0x7fc21c, 0xe5e5e5, 0x889b9b, 0x98d6bd, 0xb2e1e3, 0x368ba0, 0x4f83ab, 0x386a91,
+    0x071650, 0xf999a2, 0xf9676b, 0xe3311f, 0xe2a188, 0xb59474, 0xe4cf99, 0xffcb00, 0xe1add4, 0xc3007e,
+    0x80004b, 0x540571, 0xb10525, 0xcae0c0, 0x899856, 0x5c941a, 0x003114, 0x5dae94, 0x4cbf8f, 0x007773,
+    0x595b61, 0xfffff2, 0xb15818, 0xcb8a07, 0x986c80, 0x98692d, 0x4d3419, 0x4c330b, 0x33200a, 0x523a97,
+    0x0d217e, 0x1e77ac, 0xb2dd53, 0xf33689, 0xde649e, 0x984161, 0x4c5612, 0x4c881f, 0xe4de79, 0xcb8a1a,
+    0xcba21c, 0xff9805, 0xfcb257, 0xffe505, 0xf0331f, 0x1a842d, 0x386cae, 0xe3c4b4, 0xe3ac81,
+].map(v => ({ r: (v >> 16) & 0xFF, g: (v >> 8) & 0xFF, b: v & 0xFF }));
+
+const JEF_MAX_STEP = 127;
+
+// Picks the Janome hoop code for the hoop selected in the UI (portrait or landscape)
+export const getJefHoopCode = (hoop: Hoop): number => {
+    const w = Math.min(hoop.width, hoop.height);
+    const h = Math.max(hoop.width, hoop.height);
+    const match = JEF_HOOPS.find(j => w <= Math.min(j.width, j.height) && h <= Math.max(j.width, j.height));
+    // Larger than any standard Janome hoop: fall back to the biggest code
+    return match ? match.code : JEF_HOOPS[JEF_HOOPS.length - 1].code;
+};
+
+const formatJefDate = (d: Date) => {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
+
+export const createJefFile = (stitches: Stitch[], hoop: Hoop): Uint8Array => {
+    const blocks = getColorBlocks(stitches);
+    const colorCount = blocks.length;
+
+    // 1. Body first (the header needs the point count)
+    const body: number[] = [];
+    let pointCount = 0;
+    let currentX = 0;
+    let currentY = 0;
+    let colorChanges = 0;
+
+    for (const s of stitches) {
+        if (s.type === 'end') break;
+
+        if (s.type === 'trim') {
+            body.push(0x80, 0x02, 0x00, 0x00);
+            pointCount += 2;
+            continue;
+        }
+
+        if (s.type === 'color_change') {
+            // Skip the trailing colour change of an empty block (mirrors getColorBlocks)
+            if (colorChanges >= colorCount - 1) continue;
+            colorChanges++;
+        }
+
+        const targetX = toMachineUnits(s.x);
+        const targetY = toMachineUnits(s.y);
+        let dx = targetX - currentX;
+        let dy = targetY - currentY;
+
+        // Split long moves into jumps (stitches from the physics engine are always short)
+        while (Math.abs(dx) > JEF_MAX_STEP || Math.abs(dy) > JEF_MAX_STEP) {
+            const stepX = Math.max(-JEF_MAX_STEP, Math.min(JEF_MAX_STEP, dx));
+            const stepY = Math.max(-JEF_MAX_STEP, Math.min(JEF_MAX_STEP, dy));
+            body.push(0x80, 0x02, stepX & 0xFF, stepY & 0xFF);
+            pointCount += 2;
+            dx -= stepX; dy -= stepY;
+            currentX += stepX; currentY += stepY;
+        }
+
+        if (s.type === 'color_change') {
+            body.push(0x80, 0x01, dx & 0xFF, dy & 0xFF);
+            pointCount += 2;
+        } else if (s.type === 'jump') {
+            // A zero-length jump would be read as a trim
+            if (dx === 0 && dy === 0) continue;
+            body.push(0x80, 0x02, dx & 0xFF, dy & 0xFF);
+            pointCount += 2;
+        } else {
+            body.push(dx & 0xFF, dy & 0xFF);
+            pointCount += 1;
+        }
+        currentX += dx;
+        currentY += dy;
+    }
+    body.push(0x80, 0x10);
+    pointCount += 1;
+
+    // 2. Header
+    const w = createByteWriter(0x74 + colorCount * 8 + body.length);
+    w.i32le(0x74 + colorCount * 8); // Offset to stitch data
+    w.i32le(0x14); // Flags
+    w.ascii(formatJefDate(new Date()));
+    w.u8(0x00); w.u8(0x00);
+    w.i32le(colorCount);
+    w.i32le(pointCount);
+    w.i32le(getJefHoopCode(hoop));
+
+    // Design extents from centre (0.1mm)
+    const extents = getStitchExtents(stitches);
+    const halfWidth = Math.round((extents.maxX - extents.minX) / 2);
+    const halfHeight = Math.round((extents.maxY - extents.minY) / 2);
+    w.i32le(halfWidth); w.i32le(halfHeight); w.i32le(halfWidth); w.i32le(halfHeight);
+
+    // Distance to the edges of the 110x110, 50x50, 140x200 hoops and the selected hoop (-1 = does not fit)
+    const writeHoopEdges = (hoopWidthMm: number, hoopHeightMm: number) => {
+        const xEdge = hoopWidthMm * 5 - halfWidth;
+        const yEdge = hoopHeightMm * 5 - halfHeight;
+        const fits = Math.min(xEdge, yEdge) >= 0;
+        for (let i = 0; i < 2; i++) {
+            w.i32le(fits ? xEdge : -1);
+            w.i32le(fits ? yEdge : -1);
+        }
+    };
+    writeHoopEdges(110, 110);
+    writeHoopEdges(50, 50);
+    writeHoopEdges(140, 200);
+    writeHoopEdges(hoop.width, hoop.height);
+
+    // 3. Thread table
+    blocks.forEach(b => w.i32le(findNearestPaletteIndex(b.hexColor, JEF_PALETTE) + 1));
+    blocks.forEach(() => w.i32le(0x0D));
+
+    w.bytes(body);
+    return w.toUint8Array();
+};
@@ -0,0 +1,108 @@
+import { StitchType, VectorLayer } from '../types';
+import { deltaE2000, hexToLab } from './threadCatalog';
+import { mergeStackedPaths, removeHiddenFill, restoreHiddenFill } from './imageProcessor';
+
+/**
+ * LAYER MANAGEMENT
+ *
+ * Vector layers straight from the tracer are grouped by exact fill string, so anti-aliasing and
+ * quantisation leave near-identical colours as separate layers (and separate thread changes).
+ * These helpers merge them by perceptual distance, combine layers by hand and change the stacking
+ * (sewing) order. Every edit works on the whole shapes as traced and runs the hidden fill removal
+ * again on the result, so a layer moved up covers what is now below it. `stitchType` is the global
+ * one, for layers without their own setting (it decides which layers cover the ones below).
+ *
+ * Every operation returns the new layers and where each old index went (-1 = removed), so
+ * references by index (the border layer) can follow.
+ */
+
+export interface LayerEdit {
+    layers: VectorLayer[];
+    indexMap: number[];
+}
+
+export const DEFAULT_MERGE_TOLERANCE = 6; // CIEDE2000, ~2 is the smallest difference the eye sees
+
+const pathArea = (path: { x: number, y: number }[]) => {
+    let area = 0;
+    for (let i = 0; i < path.length; i++) {
+        const j = (i + 1) % path.length;
+        area += path[i].x * path[j].y - path[j].x * path[i].y;
+    }
+    return Math.abs(area / 2);
+};
+
+// Rough size of a layer (sum of its contours, holes included) to pick whose colour a merge keeps
+const layerArea = (layer: VectorLayer) => layer.paths.reduce((sum, path) => sum + pathArea(path), 0);
+
+const layerHex = (layer: VectorLayer) => layer.thread?.hex || layer.color;
+
+interface MergeGroup {
+    members: number[];
+    lead: number; // Member whose colour, thread and settings the merged layer keeps
+}
+
+// One layer per group, at the place of its highest member (so nothing that showed gets buried)
+const mergeGroups = (layers: VectorLayer[], groups: MergeGroup[], stitchType: StitchType): LayerEdit => {
+    const whole = restoreHiddenFill(layers);
+    const ordered = groups.slice().sort((a, b) => Math.max(...a.members) - Math.max(...b.members));
+
+    const indexMap: number[] = [];
+    const merged = ordered.map(({ members, lead }, g) => {
+        members.forEach(m => { indexMap[m] = g; });
+        if (members.length === 1) return whole[lead];
+        const columns = ([] as NonNullable<VectorLayer['satinColumns']>).concat(...members.map(m => whole[m].satinColumns || []));
+        const layer: VectorLayer = { ...whole[lead], paths: mergeStackedPaths(whole, members) };
+        if (columns.length > 0) layer.satinColumns = columns;
+        else delete layer.satinColumns;
+        return layer;
+    });
+    return { layers: removeHiddenFill(merged, stitchType), indexMap };
+};
+
+/**
+ * Folds `from` into `into`: paths and satin columns are added and `into` keeps its colour, thread and
+ * stitch settings. The combined layer sits at the higher of the two places.
+ */
+export const combineLayers = (layers: VectorLayer[], into: number, from: number, stitchType: StitchType): LayerEdit => {
+    if (into === from || !layers[into] || !layers[from]) return { layers, indexMap: layers.map((_, i) => i) };
+    const groups: MergeGroup[] = layers
+        .map((_, i) => ({ members: [i], lead: i }))
+        .filter(g => g.lead !== into && g.lead !== from);
+    groups.push({ members: [into, from], lead: into });
+    return mergeGroups(layers, groups, stitchType);
+};
+
+// Moves one layer to another place in the sewing order (0 = sewn first, bottom of the stack)
+export const moveLayer = (layers: VectorLayer[], from: number, to: number, stitchType: StitchType): LayerEdit => {
+    const order = layers.map((_, i) => i);
+    if (from < 0 || from >= layers.length || to < 0 || to >= layers.length) return { layers, indexMap: order };
+    order.splice(to, 0, order.splice(from, 1)[0]);
+    const indexMap: number[] = [];
+    order.forEach((old, i) => { indexMap[old] = i; });
+    const whole = restoreHiddenFill(layers);
+    return { layers: removeHiddenFill(order.map(old => whole[old]), stitchType), indexMap };
+};
+
+/**
+ * Merges layers whose colours are within `tolerance` (CIEDE2000). Each group takes the colour,
+ * thread and settings of its largest layer and sits where its highest layer was.
+ */
+export const mergeSimilarLayers = (layers: VectorLayer[], tolerance: number, stitchType: StitchType): LayerEdit => {
+    const labs = layers.map(layer => hexToLab(layerHex(layer)));
+    const areas = restoreHiddenFill(layers).map(layerArea);
+
+    // 1. Groups: a layer joins the first group with a member close enough
+    const groups: number[][] = [];
+    layers.forEach((_, i) => {
+        const group = groups.find(members => members.some(m => deltaE2000(labs[m], labs[i]) <= tolerance));
+        if (group) group.push(i);
+        else groups.push([i]);
+    });
+
+    // 2. One layer per group, led by its largest member
+    return mergeGroups(layers, groups.map(members => ({
+        members,
+        lead: members.reduce((best, m) => (areas[m] > areas[best] ? m : best), members[0])
+    })), stitchType);
+};
@@ -0,0 +1,194 @@
+import { DesignStyle, RasterImage } from '../types';
+import { clusterColors, Color3, keyBackground, nearestColor, pixelOverWhite } from './colorQuantizer';
+import { rgbToLab } from './threadCatalog';
+import { loadImage } from './imageProcessor';
+
+/**
+ * LOCAL BITMAP CLEANUP (offline alternative to the vision step)
+ *
+ * Builds the flat "pre-production bitmap" the vision prompt asks for with no network and the same
+ * result every time:
+ * 1. Background: near-white or transparent pixels reached from the border are keyed out, then an
+ *    opening clears the specks and hairlines left on the subject mask.
+ * 2. Colours: k-means++ in CIE Lab, where distance follows what the eye sees (RGB distance merges dark
+ *    blues with blacks long before it merges light shades). Vintage takes the ink with an Otsu
+ *    threshold on luminance instead, so the paper inside closed lines stays paper.
+ * 3. Confetti: a 3x3 mode filter gives isolated pixels the colour of their neighbourhood.
+ * 4. Output: pure palette colours on pure white, no anti-aliasing.
+ */
+
+const CLEANUP_MAX_WIDTH = 1024; // Same as the vectorizer's processing width
+const MAX_SAMPLES = 20000;
+const OPEN_PASSES = 1;
+const MODE_FILTER_PASSES = 2;
+
+export interface CleanupOptions {
+    colorCount: number;
+    designStyle: DesignStyle;
+}
+
+const rgbToHex = (r: number, g: number, b: number) =>
+    '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const labOf = (c: Color3): Color3 => {
+    const { l, a, b } = rgbToLab(c[0], c[1], c[2]);
+    return [l, a, b];
+};
+
+/**
+ * Dominant colours of the masked pixels: k-means++ in Lab on a sample, each colour reported as the
+ * mean RGB of its members (so it is a colour the image really has).
+ */
+export const extractDominantColors = (image: RasterImage, mask: Int8Array, k: number): { r: number, g: number, b: number, hex: string, lab: Color3 }[] => {
+    const pixels: number[] = [];
+    for (let i = 0; i < mask.length; i++) if (mask[i]) pixels.push(i);
+    if (pixels.length === 0) return [];
+
+    const step = Math.max(1, Math.floor(pixels.length / MAX_SAMPLES));
+    const rgbs: Color3[] = [];
+    for (let n = 0; n < pixels.length; n += step) rgbs.push(pixelOverWhite(image.data, pixels[n]));
+    const labs = rgbs.map(labOf);
+    const centres = clusterColors(labs, k);
+
+    const sums = centres.map(() => [0, 0, 0, 0]);
+    labs.forEach((lab, n) => {
+        const sum = sums[nearestColor(lab, centres)];
+        sum[0] += rgbs[n][0]; sum[1] += rgbs[n][1]; sum[2] += rgbs[n][2]; sum[3]++;
+    });
+    return centres.map((lab, c) => {
+        const [r, g, b] = sums[c].slice(0, 3).map(v => Math.round(v / Math.max(1, sums[c][3])));
+        return { r, g, b, hex: rgbToHex(r, g, b), lab };
+    });
+};
+
+// Erosion then dilation with a 4-neighbour cross: removes islands and lines under ~2 pixels wide
+const morphologyOpen = (grid: Int8Array, w: number, h: number, passes: number = 1): Int8Array => {
+    let current = grid;
+    for (let p = 0; p < passes; p++) {
+        const temp = new Int8Array(grid.length);
+        for (let y = 1; y < h - 1; y++) for (let x = 1; x < w - 1; x++) {
+            const idx = y * w + x;
+            if (current[idx] === 1 && current[idx - 1] && current[idx + 1] && current[idx - w] && current[idx + w]) temp[idx] = 1;
+        }
+        current = temp;
+    }
+    for (let p = 0; p < passes; p++) {
+        const temp = new Int8Array(grid.length);
+        for (let y = 1; y < h - 1; y++) for (let x = 1; x < w - 1; x++) {
+            const idx = y * w + x;
+            if (current[idx] === 1) { temp[idx] = 1; temp[idx - 1] = 1; temp[idx + 1] = 1; temp[idx - w] = 1; temp[idx + w] = 1; }
+        }
+        current = temp;
+    }
+    return current;
+};
+
+// Each pixel takes the most common label of its 3x3 neighbourhood (ties keep the pixel's own)
+const modeFilter = (labels: Uint8Array, w: number, h: number, classes: number, passes: number): Uint8Array => {
+    let current = labels;
+    const counts = new Int32Array(classes);
+    for (let p = 0; p < passes; p++) {
+        const next = new Uint8Array(current.length);
+        for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) {
+            counts.fill(0);
+            for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) {
+                const nx = Math.min(w - 1, Math.max(0, x + dx)), ny = Math.min(h - 1, Math.max(0, y + dy));
+                counts[current[ny * w + nx]]++;
+            }
+            let best = current[y * w + x];
+            for (let c = 0; c < classes; c++) if (counts[c] > counts[best]) best = c;
+            next[y * w + x] = best;
+        }
+        current = next;
+    }
+    return current;
+};
+
+const luminanceOverWhite = (data: ArrayLike<number>, i: number) => {
+    const [r, g, b] = pixelOverWhite(data, i);
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// Otsu: the luminance cut that best separates the histogram into two classes
+const otsuThreshold = (lums: Float32Array): number => {
+    const hist = new Float64Array(256);
+    lums.forEach(v => { hist[Math.min(255, Math.round(v))]++; });
+    const total = lums.length;
+    const sumAll = hist.reduce((sum, n, v) => sum + n * v, 0);
+    let best = 128, bestVar = -1, below = 0, sumBelow = 0;
+    for (let t = 0; t < 256; t++) {
+        below += hist[t];
+        sumBelow += t * hist[t];
+        const above = total - below;
+        if (below === 0 || above === 0) continue;
+        const diff = sumBelow / below - (sumAll - sumBelow) / above;
+        const between = below * above * diff * diff;
+        if (between > bestVar) { bestVar = between; best = t; }
+    }
+    return best;
+};
+
+export const cleanupBitmap = (image: RasterImage, { colorCount, designStyle }: CleanupOptions): RasterImage => {
+    const { width: w, height: h, data } = image;
+    const out = new Uint8ClampedArray(w * h * 4).fill(255);
+    let labels: Uint8Array;
+    let palette: Color3[];
+
+    if (designStyle === 'vintage') {
+        // 1. Ink vs paper by luminance (black lines on white, like the vision output)
+        const lums = new Float32Array(w * h);
+        for (let i = 0; i < w * h; i++) lums[i] = luminanceOverWhite(data, i);
+        const cut = otsuThreshold(lums);
+        const ink = new Int8Array(w * h);
+        for (let i = 0; i < w * h; i++) if (lums[i] <= cut) ink[i] = 1;
+        labels = new Uint8Array(w * h).fill(1);
+        morphologyOpen(ink, w, h, OPEN_PASSES).forEach((v, i) => { if (v) labels[i] = 0; });
+        palette = [[0, 0, 0], [255, 255, 255]];
+    } else {
+        // 1. Subject mask: everything the border flood fill does not reach
+        const background = keyBackground(data, w, h);
+        const mask = new Int8Array(w * h);
+        for (let i = 0; i < w * h; i++) if (!background[i]) mask[i] = 1;
+        const subject = morphologyOpen(mask, w, h, OPEN_PASSES);
+
+        // 2. Palette in Lab, every subject pixel to its nearest colour (cached per source colour)
+        const colors = extractDominantColors(image, subject, colorCount);
+        const centres = colors.map(c => c.lab);
+        palette = [...colors.map(c => [c.r, c.g, c.b] as Color3), [255, 255, 255]];
+        const backgroundLabel = colors.length;
+        labels = new Uint8Array(w * h).fill(backgroundLabel);
+        const cache = new Map<number, number>();
+        for (let i = 0; i < w * h; i++) {
+            if (!subject[i]) continue;
+            const c = pixelOverWhite(data, i);
+            const key = (Math.round(c[0]) << 16) | (Math.round(c[1]) << 8) | Math.round(c[2]);
+            let k = cache.get(key);
+            if (k === undefined) { k = nearestColor(labOf(c), centres); cache.set(key, k); }
+            labels[i] = k;
+        }
+    }
+
+    // 3. Remove confetti, then paint pure colours
+    labels = modeFilter(labels, w, h, palette.length, MODE_FILTER_PASSES);
+    labels.forEach((label, i) => {
+        out[i * 4] = palette[label][0];
+        out[i * 4 + 1] = palette[label][1];
+        out[i * 4 + 2] = palette[label][2];
+    });
+    return { width: w, height: h, data: out };
+};
+
+// Browser entry: data URL in, cleaned PNG data URL out (same contract as simplifyImageWithAI)
+export const cleanupImageLocally = async (imageSrc: string, options: CleanupOptions): Promise<string> => {
+    const img = await loadImage(imageSrc);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(img.width, CLEANUP_MAX_WIDTH);
+    canvas.height = Math.max(1, Math.round(img.height * (canvas.width / img.width)));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const result = cleanupBitmap(ctx.getImageData(0, 0, canvas.width, canvas.height), options);
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(result.data), result.width, result.height), 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,349 @@
+import { Stitch, ThreadColor } from '../types';
+import { ByteWriter, ColorBlock, createByteWriter, findNearestPaletteIndex, getColorBlocks, getStitchExtents, Rgb, toMachineUnits } from './exportUtils';
+
+/**
+ * BROTHER / BABYLOCK PES FORMAT (Version 1, "#PES0001")
+ *
+ * Structure:
+ * - PES section: signature, offset to the PEC block, one CEmbOne/CSewSeg block
+ *   (absolute coordinates, used by PE-Design and similar software).
+ * - PEC section: what the machine actually sews.
+ *   - 512 byte header: label, thumbnail size, thread table (indices into the Brother palette).
+ *   - Stitch block: relative 7-bit / 12-bit encoded moves.
+ *   - Thumbnails: 48x38 monochrome bitmaps, one for the design plus one per colour.
+ *
+ * PES/PEC use a Y axis pointing down, our mm space points up, so Y is negated on write.
+ */
+
+// Brother default thread palette. The PEC thread table stores (index + 1) into this list.
+export const PEC_PALETTE: { name: string; rgb: Rgb }[] = [
+    [0x1a0a94, 'Prussian Blue'], [0x0f75ff, 'Blue'], [0x00934c, 'Teal Green'], [0xbabdfe, 'Corn Flower Blue'],
+    [0xec0000, 'Red'], [0xe4995a, 'Reddish Brown'], [0xcc48ab, 'Magenta'], [0xfdc4fa, 'Light Lilac'],
+    [0xdd84cd, 'Lilac'], [0x6bd38a, 'Mint Green'], [0xe4a945, 'Deep Gold'], [0xffbd42, 'Orange'],
+    [0xffe600, 'Yellow'], [0x6cd900, 'Lime Green'], [0xc1a941, 'Brass'], [0xb5ad97, 'Silver'],
+    [0xba9c5f, 'Russet Brown'], [0xfaf59e, 'Cream Brown'], [0x808080, 'Pewter'], [0x000000, 'Black'],
+    [0x001cdf, 'Ultramarine'], [0xdf00b8, 'Royal Purple'], [0x626262, 'Dark Gray'], [0x69260d, 'Dark Brown'],
+    [0xff0060, 'Deep Rose'], [0xbf8200, 'Light Brown'], [0xf39178, 'Salmon Pink'], [0xff6805, 'Vermilion'],
+    [0xf0f0f0, 'White'], [0xc832cd, 'Violet'], [0xb0bf9b, 'Seacrest'], [0x65bfeb, 'Sky Blue'],
+    [0xffba04, 'Pumpkin'], [0xfff06c, 'Cream Yellow'], [0xfeca15, 'Khaki'], [0xf38101, 'Clay Brown'],
+    [0x37a923, 'Leaf Green'], [0x23465f, 'Peacock Blue'], [0xa6a695, 'Gray'], [0xcebfa6, 'Warm Gray'],
+    [0x96aa02, 'Dark Olive'], [0xffe3c6, 'Linen'], [0xff99d7, 'Pink'], [0x007004, 'Deep Green'],
+    [0xedccfb, 'Lavender'], [0xc089d8, 'Wisteria Violet'], [0xe7d9b4, 'Beige'], [0xe90e86, 'Carmine'],
+    [0xcf6829, 'Amber Red'], [0x408615, 'Olive Green'], [0xdb1797, 'Dark Fuchsia'], [0xffa704, 'Tangerine'],
+    [0xb9ffff, 'Light Blue'], [0x228927, 'Emerald Green'], [0xb612cd, 'Purple'], [0x00aa00, 'Moss Green'],
+    [0xfea9dc, 'Flesh Pink'], [0xfed510, 'Harvest Gold'], [0x0097df, 'Electric Blue'], [0xffff84, 'Lemon Yellow'],
+    [0xcfe774, 'Fresh Green'], [0xffc864, 'Applique Material'], [0xffc8c8, 'Applique Position'], [0xffc8c8, 'Applique'],
+].map(([value, name]) => ({
+    name: name as string,
+    rgb: { r: ((value as number) >> 16) & 0xFF, g: ((value as number) >> 8) & 0xFF, b: (value as number) & 0xFF }
+}));
+
+export interface PesExportOptions {
+    designName?: string; // Shown on the machine screen (max 16 chars, PEC label)
+    threads?: (ThreadColor | undefined)[]; // By colorIndex, Brother threads map straight to their PEC slot
+}
+
+const PEC_PALETTE_RGB = PEC_PALETTE.map(p => p.rgb);
+
+// Palette slot for a colour block: exact slot for Brother threads, nearest colour otherwise
+const getPecPaletteIndex = (block: ColorBlock, threads?: (ThreadColor | undefined)[]) => {
+    const thread = threads?.[block.colorIndex];
+    if (thread?.brand === 'brother') {
+        const index = PEC_PALETTE.findIndex(p => p.name === thread.name);
+        if (index >= 0) return index;
+    }
+    return findNearestPaletteIndex(thread?.hex || block.hexColor, PEC_PALETTE_RGB);
+};
+
+// --- PEC THUMBNAIL ---
+
+const PEC_ICON_WIDTH = 48;
+const PEC_ICON_HEIGHT = 38;
+const PEC_ICON_STRIDE = PEC_ICON_WIDTH / 8;
+
+const markIconBit = (icon: Uint8Array, x: number, y: number) => {
+    if (x < 0 || y < 0 || x >= PEC_ICON_WIDTH || y >= PEC_ICON_HEIGHT) return;
+    icon[y * PEC_ICON_STRIDE + (x >> 3)] |= 1 << (x & 7);
+};
+
+// Blank icon with the rounded frame Brother machines expect around the thumbnail
+const createBlankIcon = (): Uint8Array => {
+    const icon = new Uint8Array(PEC_ICON_STRIDE * PEC_ICON_HEIGHT);
+    const last = PEC_ICON_HEIGHT - 1;
+    for (let x = 4; x < PEC_ICON_WIDTH - 4; x++) { markIconBit(icon, x, 1); markIconBit(icon, x, last - 1); }
+    markIconBit(icon, 3, 2); markIconBit(icon, PEC_ICON_WIDTH - 4, 2);
+    markIconBit(icon, 3, last - 2); markIconBit(icon, PEC_ICON_WIDTH - 4, last - 2);
+    markIconBit(icon, 2, 3); markIconBit(icon, PEC_ICON_WIDTH - 3, 3);
+    markIconBit(icon, 2, last - 3); markIconBit(icon, PEC_ICON_WIDTH - 3, last - 3);
+    for (let y = 4; y < last - 3; y++) { markIconBit(icon, 1, y); markIconBit(icon, PEC_ICON_WIDTH - 2, y); }
+    return icon;
+};
+
+const drawIcon = (stitches: Stitch[], extents: { minX: number, maxX: number, minY: number, maxY: number }): Uint8Array => {
+    const icon = createBlankIcon();
+    const margin = 6;
+    const w = Math.max(1, extents.maxX - extents.minX);
+    const h = Math.max(1, extents.maxY - extents.minY);
+    const scale = Math.min((PEC_ICON_WIDTH - margin * 2) / w, (PEC_ICON_HEIGHT - margin * 2) / h);
+    const cx = (extents.maxX + extents.minX) / 2;
+    const cy = (extents.maxY + extents.minY) / 2;
+
+    const toIcon = (s: Stitch) => ({
+        x: Math.floor((toMachineUnits(s.x) - cx) * scale + PEC_ICON_WIDTH / 2),
+        y: Math.floor((cy - toMachineUnits(s.y)) * scale + PEC_ICON_HEIGHT / 2)
+    });
+
+    // Connect consecutive needle penetrations so thin runs stay visible on the icon
+    let prev: { x: number, y: number } | null = null;
+    for (const s of stitches) {
+        if (s.type !== 'stitch') { prev = null; continue; }
+        const p = toIcon(s);
+        if (prev) {
+            const steps = Math.max(Math.abs(p.x - prev.x), Math.abs(p.y - prev.y), 1);
+            for (let k = 0; k <= steps; k++) {
+                markIconBit(icon, Math.round(prev.x + (p.x - prev.x) * k / steps), Math.round(prev.y + (p.y - prev.y) * k / steps));
+            }
+        } else {
+            markIconBit(icon, p.x, p.y);
+        }
+        prev = p;
+    }
+    return icon;
+};
+
+// --- PEC STITCH ENCODING ---
+
+const PEC_JUMP_FLAG = 0x10;
+const PEC_TRIM_FLAG = 0x20;
+const PEC_LONG_MAX = 2047; // 12-bit signed
+
+const encodeLongForm = (value: number, flag: number) => (value & 0x0FFF) | 0x8000 | (flag << 8);
+
+const writePecLong = (w: ByteWriter, dx: number, dy: number, flag: number) => {
+    const ex = encodeLongForm(dx, flag);
+    const ey = encodeLongForm(dy, flag);
+    w.u8(ex >> 8); w.u8(ex); w.u8(ey >> 8); w.u8(ey);
+};
+
+const writePecStitches = (w: ByteWriter, stitches: Stitch[]) => {
+    let currentX = 0;
+    let currentY = 0;
+    let jumping = true;
+    let trimPending = false;
+    let colorToggle = true;
+
+    for (const s of stitches) {
+        if (s.type === 'end') break;
+
+        if (s.type === 'trim') {
+            // PEC has no standalone trim: the flag rides on the next jump
+            trimPending = true;
+            continue;
+        }
+
+        if (s.type === 'color_change') {
+            if (jumping) { w.u8(0x00); w.u8(0x00); jumping = false; }
+            w.u8(0xFE); w.u8(0xB0); w.u8(colorToggle ? 0x02 : 0x01);
+            colorToggle = !colorToggle;
+            trimPending = false;
+            continue;
+        }
+
+        const targetX = toMachineUnits(s.x);
+        const targetY = -toMachineUnits(s.y);
+        let dx = targetX - currentX;
+        let dy = targetY - currentY;
+
+        if (s.type === 'jump') {
+            // Long jumps are chained, only the first one carries the trim flag
+            do {
+                const stepX = Math.max(-PEC_LONG_MAX, Math.min(PEC_LONG_MAX, dx));
+                const stepY = Math.max(-PEC_LONG_MAX, Math.min(PEC_LONG_MAX, dy));
+                writePecLong(w, stepX, stepY, trimPending ? PEC_TRIM_FLAG : PEC_JUMP_FLAG);
+                trimPending = false;
+                dx -= stepX; dy -= stepY;
+                currentX += stepX; currentY += stepY;
+            } while (dx !== 0 || dy !== 0);
+            jumping = true;
+            continue;
+        }
+
+        // Normal stitch (physics engine keeps these well under the 12-bit range)
+        if (jumping) {
+            if (dx !== 0 && dy !== 0) { w.u8(0x00); w.u8(0x00); }
+            jumping = false;
+        }
+        if (dx > -64 && dx < 63 && dy > -64 && dy < 63) {
+            w.u8(dx & 0x7F); w.u8(dy & 0x7F);
+        } else {
+            writePecLong(w, Math.max(-PEC_LONG_MAX, Math.min(PEC_LONG_MAX, dx)), Math.max(-PEC_LONG_MAX, Math.min(PEC_LONG_MAX, dy)), 0);
+        }
+        currentX += dx;
+        currentY += dy;
+    }
+
+    if (jumping) { w.u8(0x00); w.u8(0x00); }
+    w.u8(0xFF); // End
+};
+
+// --- PEC SECTION ---
+
+const writePec = (w: ByteWriter, stitches: Stitch[], designName: string, threads?: (ThreadColor | undefined)[]) => {
+    const blocks = getColorBlocks(stitches);
+    const extents = getStitchExtents(stitches);
+    const threadIndices = blocks.map(b => getPecPaletteIndex(b, threads) + 1);
+
+    // 1. Header (512 bytes)
+    w.ascii(`LA:${designName.slice(0, 16).padEnd(16, ' ')}\r`);
+    w.ascii(' '.repeat(12));
+    w.u8(0xFF); w.u8(0x00);
+    w.u8(PEC_ICON_STRIDE);
+    w.u8(PEC_ICON_HEIGHT);
+    w.bytes([0x20, 0x20, 0x20, 0x20, 0x64, 0x20, 0x00, 0x20, 0x00, 0x20, 0x20, 0x20]);
+    if (threadIndices.length > 0) {
+        w.u8(threadIndices.length - 1);
+        w.bytes(threadIndices);
+    } else {
+        w.u8(0xFF);
+    }
+    for (let i = threadIndices.length; i < 463; i++) w.u8(0x20);
+
+    // 2. Stitch block
+    const width = extents.maxX - extents.minX;
+    const height = extents.maxY - extents.minY;
+    const blockStart = w.position;
+    w.u8(0x00); w.u8(0x00);
+    w.u24le(0); // Block length placeholder
+    w.bytes([0x31, 0xFF, 0xF0]);
+    w.u16le(width);
+    w.u16le(height);
+    w.u16le(0x1E0);
+    w.u16le(0x1B0);
+    // Origin offset from the top-left corner (Y down)
+    w.u16be(0x9000 | (-extents.minX & 0x0FFF));
+    w.u16be(0x9000 | (extents.maxY & 0x0FFF));
+    writePecStitches(w, stitches);
+    w.setU24le(blockStart + 2, w.position - blockStart);
+
+    // 3. Thumbnails: full design, then one per colour
+    w.bytes(drawIcon(stitches, extents));
+    for (const block of blocks) {
+        w.bytes(drawIcon(block.stitches, extents));
+    }
+};
+
+// --- PES SECTION (CEmbOne / CSewSeg) ---
+
+const writePesString = (w: ByteWriter, str: string) => {
+    w.u16le(str.length);
+    w.ascii(str);
+};
+
+const writePesBlocks = (w: ByteWriter, stitches: Stitch[], threads?: (ThreadColor | undefined)[]) => {
+    const blocks = getColorBlocks(stitches);
+    const extents = getStitchExtents(stitches);
+    const width = extents.maxX - extents.minX;
+    const height = extents.maxY - extents.minY;
+
+    // CEmbOne: affine placement of the design inside the 130x180 work area
+    writePesString(w, 'CEmbOne');
+    for (let i = 0; i < 8; i++) w.u16le(0);
+    const hoopWidth = 1300;
+    const hoopHeight = 1800;
+    w.f32le(1); w.f32le(0); w.f32le(0); w.f32le(1);
+    w.f32le(350 + hoopWidth / 2 - width / 2);
+    w.f32le(100 + height + hoopHeight / 2 - height / 2);
+    w.u16le(1);
+    w.u16le(0);
+    w.u16le(0);
+    w.u16le(width);
+    w.u16le(height);
+    w.bytes(new Uint8Array(8));
+    const sectionCountOffset = w.position;
+    w.u16le(0); // Section count placeholder
+
+    w.u16le(0xFFFF);
+    w.u16le(0x0000); // More blocks follow
+
+    // CSewSeg: absolute coordinates, split into stitch runs and jump segments
+    writePesString(w, 'CSewSeg');
+    const toPes = (s: Stitch) => ({ x: toMachineUnits(s.x) - extents.minX, y: extents.maxY - toMachineUnits(s.y) });
+
+    let sectionCount = 0;
+    const colorLog: [number, number][] = [];
+    let lastPos = { x: 0, y: 0 };
+
+    const writeSection = (isJump: boolean, colorCode: number, points: { x: number, y: number }[]) => {
+        if (sectionCount > 0) w.u16le(0x8003);
+        w.u16le(isJump ? 1 : 0);
+        w.u16le(colorCode);
+        w.u16le(points.length);
+        points.forEach(p => { w.u16le(p.x); w.u16le(p.y); });
+        sectionCount++;
+    };
+
+    blocks.forEach(block => {
+        const colorCode = getPecPaletteIndex(block, threads);
+        colorLog.push([sectionCount, colorCode]);
+
+        let run: { x: number, y: number }[] = [];
+        const flushRun = () => {
+            if (run.length > 0) writeSection(false, colorCode, run);
+            run = [];
+        };
+
+        for (const s of block.stitches) {
+            if (s.type === 'trim') continue;
+            const p = toPes(s);
+            if (s.type === 'jump') {
+                flushRun();
+                writeSection(true, colorCode, [lastPos, p]);
+            } else {
+                run.push(p);
+            }
+            lastPos = p;
+        }
+        flushRun();
+    });
+
+    w.u16le(colorLog.length);
+    colorLog.forEach(([section, code]) => { w.u16le(section); w.u16le(code); });
+    w.u16le(0x0000);
+    w.u16le(0x0000); // No more blocks
+
+    w.setU16le(sectionCountOffset, sectionCount);
+};
+
+export const createPesFile = (stitches: Stitch[], options: PesExportOptions = {}): Uint8Array => {
+    const designName = options.designName || 'SR_LUCAS';
+    const w = createByteWriter(stitches.length * 6 + 4096);
+
+    // 1. PES header
+    w.ascii('#PES0001');
+    const pecOffsetPos = w.position;
+    w.i32le(0); // PEC offset placeholder
+
+    const extents = getStitchExtents(stitches);
+    const hasStitches = stitches.some(s => s.type === 'stitch');
+    const fitsSmallHoop = (extents.maxX - extents.minX) <= 1000 && (extents.maxY - extents.minY) <= 1000;
+
+    w.u16le(0x01); // Scale to fit
+    w.u16le(fitsSmallHoop ? 0x00 : 0x01); // 0 = 100x100, 1 = 130x180
+    w.u16le(hasStitches ? 1 : 0); // Number of distinct blocks
+
+    if (hasStitches) {
+        w.u16le(0xFFFF);
+        w.u16le(0x0000);
+        writePesBlocks(w, stitches, options.threads);
+    } else {
+        w.u16le(0x0000);
+        w.u16le(0x0000);
+    }
+
+    // 2. PEC block (what the machine reads)
+    w.setI32le(pecOffsetPos, w.position);
+    writePec(w, stitches, designName, options.threads);
+
+    return w.toUint8Array();
+};
+
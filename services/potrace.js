@@ -101,8 +101,10 @@ export const Potrace = (function() {
     this.beta = new Array(n);
   }
 
-  var imgElement = document.createElement("img"),
-      imgCanvas = document.createElement("canvas"),
+  // No DOM on the server: only loadFromBitmap works there
+  var hasDom = typeof document !== 'undefined',
+      imgElement = hasDom ? document.createElement("img") : null,
+      imgCanvas = hasDom ? document.createElement("canvas") : null,
       bm = null,
       pathlist = [],
       callback,
@@ -115,7 +117,7 @@ export const Potrace = (function() {
         opttolerance: 0.2
       };
 
-  imgElement.onload = function() {
+  if (imgElement) imgElement.onload = function() {
     loadCanvas();
     loadBm();
   };
@@ -1319,6 +1321,16 @@ export const Potrace = (function() {
     loadBm();
   }
 
+  // Custom: Load a binary grid directly (1 = ink, rows top to bottom), no canvas needed
+  function loadFromBitmap(data, w, h) {
+    if (info.isReady) {
+        clear();
+    }
+    bm = new Bitmap(w, h);
+    bm.data.set(data);
+    info.isReady = true;
+  }
+
   // Custom: Expose raw paths for embroidery physics engine
   function getPaths() {
       return pathlist;
@@ -1328,6 +1340,7 @@ export const Potrace = (function() {
     loadImageFromFile: loadImageFromFile,
     loadImageFromUrl: loadImageFromUrl,
     loadFromCanvas: loadFromCanvas, // Added
+    loadFromBitmap: loadFromBitmap, // Added
     getPaths: getPaths, // Added
     setParameter: setParameter,
     process: process,
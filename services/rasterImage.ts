@@ -0,0 +1,70 @@
+import { RasterImage } from '../types';
+
+/**
+ * RAW RGBA BITMAPS (no canvas)
+ *
+ * The tracing pipeline works on plain pixel arrays so it runs the same in the browser (ImageData
+ * from a canvas) and on the server (decoded by sharp):
+ * - Downscaling averages every source pixel under the target pixel (what drawImage does), weighted
+ *   by alpha so transparent pixels do not darken anti-aliased edges.
+ * - Upscaling samples bilinearly.
+ */
+
+// Pixel (x, y) clamped to the image, RGBA
+const sample = (image: RasterImage, x: number, y: number, c: number) => {
+    const cx = Math.min(image.width - 1, Math.max(0, x));
+    const cy = Math.min(image.height - 1, Math.max(0, y));
+    return image.data[(cy * image.width + cx) * 4 + c];
+};
+
+// Target height keeps the aspect ratio, rounded down like the canvas sizing it replaces
+export const resizeRaster = (image: RasterImage, width: number): RasterImage => {
+    if (image.width === width) return image;
+    const height = Math.max(1, Math.floor(image.height * width / image.width));
+    const data = new Uint8ClampedArray(width * height * 4);
+    const sx = image.width / width;
+    const sy = image.height / height;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const o = (y * width + x) * 4;
+            const acc = [0, 0, 0, 0];
+            let weight = 0;
+
+            if (sx >= 1 && sy >= 1) {
+                // 1. Box average over the covered source pixels
+                const x0 = Math.floor(x * sx), x1 = Math.max(x0 + 1, Math.floor((x + 1) * sx));
+                const y0 = Math.floor(y * sy), y1 = Math.max(y0 + 1, Math.floor((y + 1) * sy));
+                for (let v = y0; v < y1; v++) for (let u = x0; u < x1; u++) {
+                    const a = sample(image, u, v, 3);
+                    acc[0] += sample(image, u, v, 0) * a;
+                    acc[1] += sample(image, u, v, 1) * a;
+                    acc[2] += sample(image, u, v, 2) * a;
+                    acc[3] += a;
+                    weight++;
+                }
+            } else {
+                // 2. Bilinear between the four nearest source pixels
+                const fx = Math.max(0, (x + 0.5) * sx - 0.5), fy = Math.max(0, (y + 0.5) * sy - 0.5);
+                const u = Math.floor(fx), v = Math.floor(fy);
+                const tx = fx - u, ty = fy - v;
+                [[u, v, (1 - tx) * (1 - ty)], [u + 1, v, tx * (1 - ty)], [u, v + 1, (1 - tx) * ty], [u + 1, v + 1, tx * ty]].forEach(([pu, pv, w]) => {
+                    const a = sample(image, pu, pv, 3) * w;
+                    acc[0] += sample(image, pu, pv, 0) * a;
+                    acc[1] += sample(image, pu, pv, 1) * a;
+                    acc[2] += sample(image, pu, pv, 2) * a;
+                    acc[3] += a;
+                });
+                weight = 1;
+            }
+
+            if (acc[3] > 0) {
+                data[o] = acc[0] / acc[3];
+                data[o + 1] = acc[1] / acc[3];
+                data[o + 2] = acc[2] / acc[3];
+            }
+            data[o + 3] = acc[3] / weight;
+        }
+    }
+    return { width, height, data };
+};
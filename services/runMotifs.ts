@@ -0,0 +1,39 @@
+import { Point, RunMotif } from '../types';
+
+/**
+ * RUN MOTIFS
+ *
+ * A motif is a small group of needle points repeated along a running line, one repeat per stitch
+ * length. Points are in motif space: x along the repeat (0..1), y across the line (-1..1, scaled to
+ * half the motif width, positive to the left of the path direction).
+ * - Zigzag: one diagonal out and one back per repeat.
+ * - Blanket: a prong out to the left and back, then on along the line (appliqué edge).
+ * - Cross: an X per repeat, the top bar closes it.
+ * - Custom: user points, same space.
+ */
+
+export const RUN_MOTIFS: { id: RunMotif, label: string }[] = [
+    { id: 'zigzag', label: 'Ziguezague' },
+    { id: 'blanket', label: 'Cobertor' },
+    { id: 'cross', label: 'Cruz' },
+    { id: 'custom', label: 'Personal.' },
+];
+
+const PRESET_MOTIFS: Record<Exclude<RunMotif, 'custom'>, Point[]> = {
+    zigzag: [{ x: 0, y: -1 }, { x: 0.5, y: 1 }],
+    blanket: [{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 0, y: 0 }],
+    cross: [{ x: 0, y: -1 }, { x: 1, y: 1 }, { x: 0, y: 1 }, { x: 1, y: -1 }],
+};
+
+export const DEFAULT_CUSTOM_MOTIF: Point[] = [{ x: 0, y: 0 }, { x: 0.25, y: 1 }, { x: 0.5, y: 0 }, { x: 0.75, y: -1 }];
+
+export const getRunMotifPoints = (motif: RunMotif, custom: Point[]): Point[] =>
+    motif === 'custom' ? custom : PRESET_MOTIFS[motif];
+
+// "x,y x,y ..." -> points clamped to motif space (invalid pairs are dropped)
+export const parseRunMotif = (text: string): Point[] =>
+    text.split(/[\s;]+/).filter(Boolean).map(pair => pair.split(',').map(Number))
+        .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
+        .map(([x, y]) => ({ x: Math.max(0, Math.min(1, x)), y: Math.max(-1, Math.min(1, y)) }));
+
+export const formatRunMotif = (points: Point[]): string => points.map(p => `${p.x},${p.y}`).join(' ');
@@ -0,0 +1,157 @@
+import { Point } from '../types';
+
+/**
+ * SEQUENCE OPTIMIZER
+ *
+ * Decides the order things are sewn in, so the machine jumps as little as possible and trims rarely:
+ * - Each item (outline, column, fill shape) offers one or more ways to be sewn, an entry and an exit
+ *   point each: either direction of a column or open run, any start vertex of a closed outline.
+ * - A nearest-neighbour tour picks order and options, 2-opt then undoes crossed travel, and a last
+ *   pass re-picks every item's option between its two neighbours.
+ * - Colour layers that don't overlap are reordered light to dark; overlapping ones keep the tracer's
+ *   stacking order (bottom to top).
+ */
+
+export interface SewOption {
+    entry: Point;
+    exit: Point;
+}
+
+export interface SequenceItem {
+    options: SewOption[];
+}
+
+export interface SequenceStep {
+    item: number;
+    option: number;
+}
+
+const TRIM_PENALTY_MM = 20; // A trim costs about as much machine time as 20mm of jump
+const TWO_OPT_WINDOW = 60; // Longest reversed stretch, keeps big tours fast
+const TWO_OPT_PASSES = 8;
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Moves longer than the trim distance cut the thread
+const travelCost = (from: Point, to: Point, trimDistanceMm: number) => {
+    const d = dist(from, to);
+    return d + (d > trimDistanceMm ? TRIM_PENALTY_MM : 0);
+};
+
+// Jump length and trims of a sewing order (the first move from `start` included when given)
+export const measureTravel = (moves: { entry: Point, exit: Point }[], start: Point | null, trimDistanceMm: number) => {
+    let jumpMm = 0, trims = 0;
+    let at = start;
+    moves.forEach(m => {
+        if (at) {
+            const d = dist(at, m.entry);
+            jumpMm += d;
+            if (d > trimDistanceMm) trims++;
+        }
+        at = m.exit;
+    });
+    return { jumpMm, trims };
+};
+
+export const sequenceCost = (moves: { entry: Point, exit: Point }[], start: Point | null, trimDistanceMm: number) => {
+    const { jumpMm, trims } = measureTravel(moves, start, trimDistanceMm);
+    return jumpMm + trims * TRIM_PENALTY_MM;
+};
+
+export const optimizeSequence = (items: SequenceItem[], start: Point | null, trimDistanceMm: number): SequenceStep[] => {
+    const usable = items.map((item, i) => i).filter(i => items[i].options.length > 0);
+    if (usable.length === 0) return [];
+    const cost = (from: Point | null, to: Point) => (from ? travelCost(from, to, trimDistanceMm) : 0);
+    const option = (s: SequenceStep) => items[s.item].options[s.option];
+
+    // Option sewn the other way round (entry and exit swapped), so reversed stretches keep their travel
+    const mirrors = items.map(item => item.options.map((o, opt) => {
+        const found = item.options.findIndex(m => dist(m.entry, o.exit) < 0.01 && dist(m.exit, o.entry) < 0.01);
+        return found >= 0 ? found : opt;
+    }));
+
+    // 1. Nearest neighbour (without a start point, from the first item as traced)
+    const remaining = new Set(usable);
+    const tour: SequenceStep[] = [];
+    let at: Point | null = start;
+    if (!at) {
+        tour.push({ item: usable[0], option: 0 });
+        remaining.delete(usable[0]);
+        at = items[usable[0]].options[0].exit;
+    }
+    while (remaining.size > 0) {
+        let best: SequenceStep | null = null;
+        let bestCost = Infinity;
+        for (const item of Array.from(remaining)) {
+            for (let opt = 0; opt < items[item].options.length; opt++) {
+                const c = cost(at, items[item].options[opt].entry);
+                if (c < bestCost) { bestCost = c; best = { item, option: opt }; }
+            }
+        }
+        if (!best) break; // Not reached: every remaining item has at least one option
+        tour.push(best);
+        remaining.delete(best.item);
+        at = option(best).exit;
+    }
+
+    // 2. 2-opt: reverse a stretch of the tour when that shortens the travel around it
+    const stretchCost = (steps: SequenceStep[], from: Point | null, to: Point | null) => {
+        let total = 0;
+        let p = from;
+        steps.forEach(s => {
+            total += cost(p, option(s).entry);
+            p = option(s).exit;
+        });
+        return total + (to && p ? cost(p, to) : 0);
+    };
+    // (without a start point the tour may begin anywhere, so stretches at the front reverse freely)
+    for (let pass = 0; pass < TWO_OPT_PASSES; pass++) {
+        let improved = false;
+        for (let i = 0; i < tour.length - 1; i++) {
+            for (let j = i + 1; j < tour.length && j - i <= TWO_OPT_WINDOW; j++) {
+                const from = i > 0 ? option(tour[i - 1]).exit : start;
+                const to = j + 1 < tour.length ? option(tour[j + 1]).entry : null;
+                const current = tour.slice(i, j + 1);
+                const reversed = current.slice().reverse().map(s => ({ item: s.item, option: mirrors[s.item][s.option] }));
+                if (stretchCost(reversed, from, to) < stretchCost(current, from, to) - 0.01) {
+                    tour.splice(i, j - i + 1, ...reversed);
+                    improved = true;
+                }
+            }
+        }
+        if (!improved) break;
+    }
+
+    // 3. Each item's option between its final neighbours
+    tour.forEach((step, k) => {
+        const from = k > 0 ? option(tour[k - 1]).exit : start;
+        const to = k + 1 < tour.length ? option(tour[k + 1]).entry : null;
+        let bestCost = Infinity;
+        items[step.item].options.forEach((o, opt) => {
+            const c = cost(from, o.entry) + (to ? cost(o.exit, to) : 0);
+            if (c < bestCost) { bestCost = c; step.option = opt; }
+        });
+    });
+    return tour;
+};
+
+/**
+ * Colour order. A layer may move ahead of an earlier one only if they don't overlap (the later one
+ * sews on top); among the layers free to go next, the lightest goes first.
+ */
+export const orderLayers = (lightness: number[], overlaps: (a: number, b: number) => boolean): number[] => {
+    const order: number[] = [];
+    const placed = lightness.map(() => false);
+    while (order.length < lightness.length) {
+        let next = -1;
+        for (let i = 0; i < lightness.length; i++) {
+            if (placed[i]) continue;
+            let blocked = false;
+            for (let j = 0; j < i && !blocked; j++) blocked = !placed[j] && overlaps(j, i);
+            if (!blocked && (next < 0 || lightness[i] > lightness[next])) next = i;
+        }
+        placed[next] = true;
+        order.push(next);
+    }
+    return order;
+};
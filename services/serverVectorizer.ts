@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+import { vectorizeRaw } from '@neplex/vectorizer';
+import type { ColorMode, Config, Hierarchical, PathSimplifyMode } from '@neplex/vectorizer';
+import { RasterImage, TracingConfig, VectorizeOptions, VectorizedDesign } from '../types';
+import { quantizeToColors } from './colorQuantizer';
+import { traceRasterLayers, traceSvgLayers } from './imageProcessor';
+
+/**
+ * SERVER-SIDE VECTORIZATION (Node only: sharp and the native VTracer binding)
+ *
+ * The same bitmap to layers pipeline the browser runs, without a canvas:
+ * - PNG/JPEG/WebP are decoded to raw RGBA by sharp.
+ * - Patch styles are quantized to the requested colour count and traced by VTracer in process,
+ *   where the browser goes through /api/vectorize.
+ * - Vintage styles run the Potrace / centerline tracers on the pixel array.
+ * Never import this from client code.
+ */
+
+// The library's enums are const enums, which isolatedModules cannot read at runtime: their values are
+// spelled out here and checked against each member's type
+const COLOR_MODE: ColorMode.Color = 0;
+const HIERARCHIES: { stacked: Hierarchical.Stacked, cutout: Hierarchical.Cutout } = { stacked: 0, cutout: 1 };
+const SIMPLIFY_MODES: { none: PathSimplifyMode.None, polygon: PathSimplifyMode.Polygon, spline: PathSimplifyMode.Spline } = { none: 0, polygon: 1, spline: 2 };
+
+// VTracer (via @neplex/vectorizer) configuration from validated options
+const toVTracerConfig = (options: VectorizeOptions): Config => ({
+    colorMode: COLOR_MODE,
+    hierarchical: HIERARCHIES[options.hierarchical],
+    mode: SIMPLIFY_MODES[options.mode],
+    filterSpeckle: options.filterSpeckle,
+    colorPrecision: options.colorPrecision,
+    layerDifference: options.layerDifference,
+    cornerThreshold: options.cornerThreshold,
+    lengthThreshold: options.lengthThreshold,
+    maxIterations: options.maxIterations,
+    spliceThreshold: options.spliceThreshold,
+    pathPrecision: options.pathPrecision
+});
+
+export const decodeImage = async (buffer: Buffer): Promise<RasterImage> => {
+    const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { width: info.width, height: info.height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+};
+
+// Quantize to exactly colorCount colours (background keyed out), then trace
+export const vectorizeWithVTracer = async (image: RasterImage, config: Pick<TracingConfig, 'colorCount' | 'vectorize'>): Promise<string> => {
+    const quantized = quantizeToColors(image.data, image.width, image.height, config.colorCount);
+    return await vectorizeRaw(Buffer.from(quantized.buffer), { width: image.width, height: image.height }, toVTracerConfig(config.vectorize));
+};
+
+// SVG files are text with an <svg> tag near the start (after any XML prolog or comments)
+const isSvgBuffer = (buffer: Buffer) => /<svg\b/i.test(buffer.toString('utf8', 0, 4096));
+
+// Bitmap or SVG file contents to layers in mm
+export const vectorizeFile = async (buffer: Buffer, config: TracingConfig): Promise<VectorizedDesign> => {
+    if (isSvgBuffer(buffer)) {
+        // Rendered size only matters when the SVG has neither a viewBox nor width/height
+        const { width = 1024, height = 1024 } = await sharp(buffer).metadata().catch(() => ({ width: undefined, height: undefined }));
+        return traceSvgLayers(buffer.toString('utf8'), width, height, config);
+    }
+    return traceRasterLayers(await decodeImage(buffer), config, vectorizeWithVTracer);
+};
@@ -0,0 +1,133 @@
+import { ExportFormat, Stitch } from '../types';
+
+/**
+ * Production numbers for a finished stitch stream (worksheet, Preview, export metadata).
+ * Counts follow what the machine does: every 'stitch' is a needle penetration,
+ * trims and colour changes stop the head, jumps move the frame without sewing.
+ *
+ * Thread consumption per stitch:
+ * - Top thread: stitch length + take-up (the loop pulled down into the fabric).
+ * - Bobbin: a fraction of the stitch length (balanced tension shows ~1/3 of the back).
+ * - Each trim leaves a tail on both threads.
+ */
+
+export interface MachineProfile {
+    speedSpm: number; // Stitches per minute at full speed
+    trimSeconds: number;
+    colorChangeSeconds: number; // Head stop + thread change by the operator (single needle)
+    jumpSeconds: number; // Frame move + slow down / speed up around it
+}
+
+export interface ThreadUsageProfile {
+    takeUpMm: number; // Top thread per penetration on top of the stitch length
+    bobbinRatio: number; // Bobbin length per mm of stitch
+    trimTailMm: number; // Thread left on both sides of each trim
+}
+
+export const DEFAULT_MACHINE_PROFILE: MachineProfile = {
+    speedSpm: 700,
+    trimSeconds: 5,
+    colorChangeSeconds: 15,
+    jumpSeconds: 0.4,
+};
+
+export const DEFAULT_THREAD_USAGE: ThreadUsageProfile = {
+    takeUpMm: 1.5,
+    bobbinRatio: 0.5,
+    trimTailMm: 25,
+};
+
+export interface ColorStats {
+    colorIndex: number;
+    hexColor: string;
+    stitchCount: number;
+    topThreadMeters: number;
+    bobbinMeters: number;
+}
+
+export interface StitchStats {
+    stitchCount: number;
+    jumpCount: number;
+    trimCount: number;
+    colorChangeCount: number;
+    colors: ColorStats[]; // In sewing order
+    time: { sewing: number, trims: number, colorChanges: number, jumps: number }; // Seconds
+    estimatedSeconds: number;
+    topThreadMeters: number;
+    bobbinMeters: number;
+}
+
+export const computeStitchStats = (
+    stitches: Stitch[],
+    machine: MachineProfile = DEFAULT_MACHINE_PROFILE,
+    usage: ThreadUsageProfile = DEFAULT_THREAD_USAGE
+): StitchStats => {
+    const colors: ColorStats[] = [];
+    let stitchCount = 0, jumpCount = 0, trimCount = 0, colorChangeCount = 0;
+    let prev = { x: 0, y: 0 };
+
+    // Consecutive stitches of the same colorIndex share one entry
+    const colorFor = (s: Stitch): ColorStats => {
+        const colorIndex = s.colorIndex ?? 0;
+        const last = colors[colors.length - 1];
+        if (last && last.colorIndex === colorIndex) return last;
+        const entry = { colorIndex, hexColor: s.hexColor || '#000000', stitchCount: 0, topThreadMeters: 0, bobbinMeters: 0 };
+        colors.push(entry);
+        return entry;
+    };
+
+    for (const s of stitches) {
+        if (s.type === 'stitch') {
+            const lengthMm = Math.hypot(s.x - prev.x, s.y - prev.y);
+            const c = colorFor(s);
+            stitchCount++;
+            c.stitchCount++;
+            c.topThreadMeters += (lengthMm + usage.takeUpMm) / 1000;
+            c.bobbinMeters += (lengthMm * usage.bobbinRatio) / 1000;
+        } else if (s.type === 'jump') {
+            jumpCount++;
+        } else if (s.type === 'trim') {
+            trimCount++;
+            const c = colorFor(s);
+            c.topThreadMeters += usage.trimTailMm / 1000;
+            c.bobbinMeters += usage.trimTailMm / 1000;
+        } else if (s.type === 'color_change') {
+            colorChangeCount++;
+        }
+        if (s.type !== 'end') prev = s;
+    }
+
+    const time = {
+        sewing: (stitchCount / machine.speedSpm) * 60,
+        trims: trimCount * machine.trimSeconds,
+        colorChanges: colorChangeCount * machine.colorChangeSeconds,
+        jumps: jumpCount * machine.jumpSeconds,
+    };
+
+    return {
+        stitchCount, jumpCount, trimCount, colorChangeCount, colors, time,
+        estimatedSeconds: time.sewing + time.trims + time.colorChanges + time.jumps,
+        topThreadMeters: colors.reduce((sum, c) => sum + c.topThreadMeters, 0),
+        bobbinMeters: colors.reduce((sum, c) => sum + c.bobbinMeters, 0),
+    };
+};
+
+export const formatDuration = (seconds: number) => {
+    const total = Math.round(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    return h > 0 ? `${h}h ${m.toString().padStart(2, '0')}min` : `${m}min ${s.toString().padStart(2, '0')}s`;
+};
+
+export const formatMeters = (meters: number) => `${meters.toFixed(1)} m`;
+
+// Machine files with a free text field for formatStatsNote. DST (fixed header fields), EXP (no header),
+// PES version 1 and JEF have none: the production worksheet carries the numbers for those.
+export const STATS_NOTE_FORMATS: ExportFormat[] = ['vp3'];
+
+// One line summary for the free text fields of machine files (e.g. VP3 notes)
+export const formatStatsNote = (stats: StitchStats, machine: MachineProfile = DEFAULT_MACHINE_PROFILE) =>
+    `${stats.stitchCount} pontos, ${stats.colors.length} cores, ${stats.trimCount} trims | ` +
+    `${formatDuration(stats.estimatedSeconds)} @ ${machine.speedSpm} SPM | ` +
+    `linha ${formatMeters(stats.topThreadMeters)}, bobina ${formatMeters(stats.bobbinMeters)}`;
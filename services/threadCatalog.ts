@@ -0,0 +1,220 @@
+import { ThreadBrand, ThreadColor, VectorLayer } from '../types';
+import { hexToRgb, Rgb } from './exportUtils';
+import { PEC_PALETTE } from './pesExporter';
+
+/**
+ * THREAD CATALOG
+ *
+ * Colour charts of the threads the atelier stocks, and perceptual matching of layer colours
+ * (raw hex from parseSvgToLayers / extractDominantColors) to the nearest real cone.
+ *
+ * - Distance: CIEDE2000 in CIE Lab (D65). Plain RGB distance picks visibly wrong greens/blues.
+ * - Charts are the common subset of each manufacturer card, RGB values as published on the
+ *   digital cards (screen approximations of the physical thread).
+ * - Brother follows the PEC machine palette, so PES files reference the exact same cones.
+ */
+
+export const THREAD_BRANDS: { id: ThreadBrand; label: string }[] = [
+    { id: 'madeira_polyneon', label: 'Madeira Polyneon' },
+    { id: 'isacord', label: 'Isacord' },
+    { id: 'robison_anton', label: 'Robison-Anton' },
+    { id: 'brother', label: 'Brother' },
+    { id: 'gunold', label: 'Gunold Poly' },
+];
+
+export const DEFAULT_THREAD_BRAND: ThreadBrand = 'madeira_polyneon';
+
+type ChartEntry = [code: string, name: string, rgb: number];
+
+const MADEIRA_POLYNEON: ChartEntry[] = [
+    ['1801', 'White', 0xFFFFFF], ['1800', 'Black', 0x000000], ['1771', 'Off White', 0xF3EEDC], ['1741', 'Light Grey', 0xC4C6C3],
+    ['1718', 'Grey', 0x8D9093], ['1640', 'Dark Grey', 0x5A5E62], ['1987', 'Charcoal', 0x3A3D40], ['1747', 'Red', 0xC8102E],
+    ['1839', 'Scarlet', 0xDA291C], ['1781', 'Cherry', 0xA6192E], ['1638', 'Burgundy', 0x6F1D2B], ['1621', 'Light Pink', 0xF5B6C6],
+    ['1620', 'Pink', 0xEA7FA2], ['1710', 'Fuchsia', 0xC8246F], ['1678', 'Coral', 0xF0735D], ['1679', 'Salmon', 0xF49B80],
+    ['1765', 'Orange', 0xF26522], ['1624', 'Tangerine', 0xF7901E], ['1769', 'Light Orange', 0xFBB04C], ['1924', 'Gold', 0xE6A532],
+    ['1725', 'Dark Gold', 0xC48A2C], ['1723', 'Yellow', 0xFFD200], ['1724', 'Lemon', 0xFFE95C], ['1667', 'Cream', 0xF6E3A8],
+    ['1770', 'Lime', 0x9BC53D], ['1751', 'Light Green', 0x78BE6E], ['1650', 'Kelly Green', 0x009A44], ['1651', 'Emerald', 0x007A4D],
+    ['1703', 'Dark Green', 0x1E5631], ['1847', 'Olive', 0x6B6E2C], ['1690', 'Teal', 0x00838A], ['1792', 'Turquoise', 0x2AB3C4],
+    ['1776', 'Sky Blue', 0x8DC8E8], ['1675', 'Light Blue', 0x6CACE4], ['1735', 'Royal Blue', 0x1F4FA3], ['1743', 'Navy', 0x1B2A4E],
+    ['1766', 'Denim', 0x44628F], ['1931', 'Lavender', 0xB9A3D3], ['1733', 'Purple', 0x5E3A8C], ['1922', 'Plum', 0x6E2C5E],
+    ['1858', 'Tan', 0xC9A27A], ['1855', 'Beige', 0xDCC9A7], ['1857', 'Light Brown', 0xA0714A], ['1644', 'Brown', 0x6E4A2F],
+    ['1913', 'Dark Brown', 0x3F2A1E], ['1656', 'Skin', 0xF1C9A5],
+];
+
+const ISACORD: ChartEntry[] = [
+    ['0015', 'White', 0xFFFFFF], ['0020', 'Black', 0x000000], ['0670', 'Cream', 0xF4EBCF], ['0142', 'Sterling', 0xC2C4C6],
+    ['0111', 'Whale', 0x8C8F93], ['0132', 'Dark Pewter', 0x55595D], ['0138', 'Charcoal', 0x36393C], ['1902', 'Poinsettia', 0xC8102E],
+    ['1903', 'Lipstick', 0xD6262F], ['2011', 'Fire Engine', 0xB5121B], ['2115', 'Beet Red', 0x7A1F2B], ['2363', 'Carnation', 0xF6B3C5],
+    ['2520', 'Garden Rose', 0xE9789C], ['2506', 'Petunia', 0xC72A72], ['1753', 'Persimmon', 0xF0705A], ['1840', 'Corsage', 0xF6A189],
+    ['1300', 'Red Pepper', 0xF26324], ['1102', 'Pumpkin', 0xF68E1E], ['0904', 'Spanish Gold', 0xF8AE3F], ['0811', 'Star Gold', 0xE4A533],
+    ['0842', 'Vintage Gold', 0xBF8C30], ['0700', 'Bright Yellow', 0xFFD400], ['0600', 'Citrus', 0xFFEA5E], ['0761', 'Oat', 0xF2DFA6],
+    ['5940', 'Limabean', 0x9CC43E], ['5650', 'Spring Frost', 0x7ABF6A], ['5513', 'Kelly', 0x009B48], ['5415', 'Emerald', 0x007B4E],
+    ['5374', 'Forest Green', 0x1F5A33], ['6133', 'Olive Drab', 0x6A6C2F], ['4421', 'Deep Teal', 0x00818A], ['4230', 'Turquoise', 0x2CB4C6],
+    ['3840', 'Sky Blue', 0x8BC6E7], ['3815', 'Reef Blue', 0x6AABE2], ['3600', 'Nordic Blue', 0x1F4EA1], ['3644', 'Midnight', 0x1C2B4D],
+    ['3743', 'Denim', 0x46638F], ['3040', 'Lavender', 0xB7A2D2], ['2920', 'Purple', 0x5F3A8B], ['2711', 'Plum', 0x702C5F],
+    ['1061', 'Taupe', 0xC7A17B], ['0873', 'Muslin', 0xDBC8A6], ['1154', 'Spice', 0xA2714A], ['1366', 'Mahogany', 0x6C4A30],
+    ['1876', 'Chocolate', 0x40291E], ['1141', 'Tan', 0xF0C8A4],
+];
+
+const ROBISON_ANTON: ChartEntry[] = [
+    ['2296', 'White', 0xFFFFFF], ['2297', 'Black', 0x000000], ['2244', 'Eggshell', 0xF2EDDB], ['2368', 'Silver', 0xC3C5C4],
+    ['2202', 'Grey', 0x8E9194], ['2252', 'Smoky', 0x5B5F63], ['2380', 'Charcoal', 0x393C3F], ['2248', 'Red Berry', 0xC7112F],
+    ['2293', 'Foliage Rose', 0xD9281E], ['2266', 'Wine', 0xA5192F], ['2277', 'Burgundy', 0x6E1E2C], ['2417', 'Petal Pink', 0xF4B5C6],
+    ['2305', 'Pink', 0xE97FA2], ['2507', 'Magenta', 0xC6256F], ['2409', 'Coral', 0xEF735E], ['2215', 'Salmon', 0xF39B81],
+    ['2339', 'Orange', 0xF16523], ['2299', 'Tangerine', 0xF6901F], ['2517', 'Mango', 0xFAB04D], ['2510', 'Gold', 0xE5A533],
+    ['2240', 'Old Gold', 0xC38A2D], ['2271', 'Yellow', 0xFFD201], ['2219', 'Lemon', 0xFEE95D], ['2211', 'Cream', 0xF5E3A9],
+    ['2208', 'Lime', 0x9AC53E], ['2234', 'Mint', 0x79BE6F], ['2275', 'Kelly', 0x019A45], ['2422', 'Emerald', 0x017A4E],
+    ['2273', 'Forest Green', 0x1F5632], ['2470', 'Olive', 0x6B6E2D], ['2329', 'Teal', 0x01838B], ['2205', 'Turquoise', 0x2BB3C5],
+    ['2358', 'Sky Blue', 0x8EC8E8], ['2406', 'Light Blue', 0x6DACE4], ['2227', 'Royal Blue', 0x204FA3], ['2394', 'Navy', 0x1C2A4F],
+    ['2459', 'Denim', 0x45628F], ['2363', 'Lavender', 0xBAA3D3], ['2254', 'Purple', 0x5F3A8C], ['2438', 'Plum', 0x6F2C5E],
+    ['2319', 'Tan', 0xC9A37A], ['2309', 'Beige', 0xDCC9A8], ['2555', 'Light Brown', 0xA1714A], ['2284', 'Brown', 0x6F4A2F],
+    ['2287', 'Dark Brown', 0x402A1E], ['2221', 'Flesh', 0xF1C9A6],
+];
+
+const GUNOLD_POLY: ChartEntry[] = [
+    ['61001', 'White', 0xFFFFFF], ['61003', 'Black', 0x000000], ['61045', 'Ivory', 0xF3EEDD], ['61027', 'Silver Grey', 0xC4C6C4],
+    ['61010', 'Grey', 0x8D9094], ['61016', 'Dark Grey', 0x5A5E63], ['61021', 'Anthracite', 0x3A3D41], ['61037', 'Red', 0xC8112E],
+    ['61038', 'Signal Red', 0xDA2A1C], ['61189', 'Cherry', 0xA61A2E], ['61040', 'Bordeaux', 0x6F1E2B], ['61012', 'Baby Pink', 0xF5B7C6],
+    ['61122', 'Pink', 0xEA80A2], ['61124', 'Fuchsia', 0xC8256F], ['61146', 'Coral', 0xF0745D], ['61119', 'Salmon', 0xF49C80],
+    ['61078', 'Orange', 0xF26623], ['61079', 'Tangerine', 0xF7911E], ['61178', 'Apricot', 0xFBB14C], ['61025', 'Gold', 0xE6A633],
+    ['61024', 'Old Gold', 0xC48B2C], ['61120', 'Yellow', 0xFFD301], ['61116', 'Lemon', 0xFFEA5C], ['61009', 'Cream', 0xF6E4A8],
+    ['61014', 'Lime', 0x9BC63D], ['61232', 'Light Green', 0x78BF6E], ['61049', 'Grass Green', 0x009B44], ['61051', 'Emerald', 0x007B4D],
+    ['61052', 'Dark Green', 0x1E5731], ['61213', 'Olive', 0x6B6F2C], ['61064', 'Teal', 0x00848A], ['61091', 'Turquoise', 0x2AB4C4],
+    ['61076', 'Sky Blue', 0x8DC9E8], ['61065', 'Light Blue', 0x6CADE4], ['61035', 'Royal Blue', 0x1F50A3], ['61099', 'Navy', 0x1B2B4E],
+    ['61262', 'Denim', 0x44638F], ['61030', 'Lilac', 0xB9A4D3], ['61032', 'Purple', 0x5E3B8C], ['61033', 'Plum', 0x6E2D5E],
+    ['61055', 'Camel', 0xC9A37A], ['61155', 'Beige', 0xDCCAA7], ['61058', 'Light Brown', 0xA0724A], ['61059', 'Brown', 0x6E4B2F],
+    ['61060', 'Dark Brown', 0x3F2B1E], ['61057', 'Skin', 0xF1CAA5],
+];
+
+// Brother catalog numbers, in PEC palette order (the appliqué entries have no cone)
+const BROTHER_CODES = [
+    '007', '405', '534', '070', '800', '000', '620', '810', '612', '502', '214', '208', '205', '513', '328', '005',
+    '337', '010', '704', '900', '406', '869', '707', '058', '086', '323', '079', '030', '001', '613', '542', '019',
+    '126', '812', '348', '339', '509', '415', '817', '399', '517', '307', '085', '808', '804', '607', '843', '807',
+    '333', '519', '107', '209', '017', '507', '614', '515', '124', '206', '420', '202', '027',
+];
+
+const toHex = (rgb: Rgb) => '#' + [rgb.r, rgb.g, rgb.b].map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const fromChart = (brand: ThreadBrand, chart: ChartEntry[]): ThreadColor[] =>
+    chart.map(([code, name, rgb]) => ({
+        brand, code, name, hex: toHex({ r: (rgb >> 16) & 0xFF, g: (rgb >> 8) & 0xFF, b: rgb & 0xFF })
+    }));
+
+export const THREAD_CATALOGS: Record<ThreadBrand, ThreadColor[]> = {
+    madeira_polyneon: fromChart('madeira_polyneon', MADEIRA_POLYNEON),
+    isacord: fromChart('isacord', ISACORD),
+    robison_anton: fromChart('robison_anton', ROBISON_ANTON),
+    brother: BROTHER_CODES.map((code, i) => ({ brand: 'brother' as const, code, name: PEC_PALETTE[i].name, hex: toHex(PEC_PALETTE[i].rgb) })),
+    gunold: fromChart('gunold', GUNOLD_POLY),
+};
+
+export const getThreadBrandLabel = (brand: ThreadBrand) => THREAD_BRANDS.find(b => b.id === brand)?.label || brand;
+
+// --- COLOUR SCIENCE ---
+
+export interface Lab {
+    l: number;
+    a: number;
+    b: number;
+}
+
+// sRGB (0-255) -> CIE Lab, D65 white point
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+    const lin = (c: number) => {
+        const v = c / 255;
+        return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    };
+    const R = lin(r), G = lin(g), B = lin(b);
+
+    const x = (R * 0.4124564 + G * 0.3575761 + B * 0.1804375) / 0.95047;
+    const y = (R * 0.2126729 + G * 0.7151522 + B * 0.0721750) / 1.00000;
+    const z = (R * 0.0193339 + G * 0.1191920 + B * 0.9503041) / 1.08883;
+
+    const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+    const fx = f(x), fy = f(y), fz = f(z);
+    return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+export const hexToLab = (hex: string): Lab => {
+    const { r, g, b } = hexToRgb(hex);
+    return rgbToLab(r, g, b);
+};
+
+const deg = (rad: number) => rad * 180 / Math.PI;
+const rad = (d: number) => d * Math.PI / 180;
+
+// CIEDE2000 colour difference (kL = kC = kH = 1). ~1 is the threshold of a visible difference.
+export const deltaE2000 = (lab1: Lab, lab2: Lab): number => {
+    const C1 = Math.hypot(lab1.a, lab1.b);
+    const C2 = Math.hypot(lab2.a, lab2.b);
+    const Cbar = (C1 + C2) / 2;
+    const G = 0.5 * (1 - Math.sqrt(Math.pow(Cbar, 7) / (Math.pow(Cbar, 7) + Math.pow(25, 7))));
+
+    const a1 = (1 + G) * lab1.a;
+    const a2 = (1 + G) * lab2.a;
+    const C1p = Math.hypot(a1, lab1.b);
+    const C2p = Math.hypot(a2, lab2.b);
+    const h1p = C1p === 0 ? 0 : (deg(Math.atan2(lab1.b, a1)) + 360) % 360;
+    const h2p = C2p === 0 ? 0 : (deg(Math.atan2(lab2.b, a2)) + 360) % 360;
+
+    const dLp = lab2.l - lab1.l;
+    const dCp = C2p - C1p;
+    let dhp = 0;
+    if (C1p * C2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+    const Lbarp = (lab1.l + lab2.l) / 2;
+    const Cbarp = (C1p + C2p) / 2;
+    let hbarp = h1p + h2p;
+    if (C1p * C2p !== 0) {
+        if (Math.abs(h1p - h2p) > 180) hbarp += h1p + h2p < 360 ? 360 : -360;
+        hbarp /= 2;
+    }
+
+    const T = 1
+        - 0.17 * Math.cos(rad(hbarp - 30))
+        + 0.24 * Math.cos(rad(2 * hbarp))
+        + 0.32 * Math.cos(rad(3 * hbarp + 6))
+        - 0.20 * Math.cos(rad(4 * hbarp - 63));
+    const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+    const Rc = 2 * Math.sqrt(Math.pow(Cbarp, 7) / (Math.pow(Cbarp, 7) + Math.pow(25, 7)));
+    const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+    const Sc = 1 + 0.045 * Cbarp;
+    const Sh = 1 + 0.015 * Cbarp * T;
+    const Rt = -Math.sin(rad(2 * dTheta)) * Rc;
+
+    return Math.sqrt(
+        Math.pow(dLp / Sl, 2) +
+        Math.pow(dCp / Sc, 2) +
+        Math.pow(dHp / Sh, 2) +
+        Rt * (dCp / Sc) * (dHp / Sh)
+    );
+};
+
+// --- MATCHING ---
+
+// Catalog threads sorted by perceptual distance to `hex` (closest first)
+export const rankThreads = (hex: string, brand: ThreadBrand, limit?: number): { thread: ThreadColor, deltaE: number }[] => {
+    const target = hexToLab(hex);
+    const ranked = THREAD_CATALOGS[brand]
+        .map(thread => ({ thread, deltaE: deltaE2000(target, hexToLab(thread.hex)) }))
+        .sort((a, b) => a.deltaE - b.deltaE);
+    return limit ? ranked.slice(0, limit) : ranked;
+};
+
+export const findNearestThread = (hex: string, brand: ThreadBrand): ThreadColor => rankThreads(hex, brand, 1)[0].thread;
+
+/**
+ * Assigns the nearest thread of `brand` to every layer.
+ * Manual choices (threadLocked) survive as long as they belong to the selected brand.
+ */
+export const matchLayerThreads = (layers: VectorLayer[], brand: ThreadBrand): VectorLayer[] =>
+    layers.map(layer => {
+        if (layer.threadLocked && layer.thread?.brand === brand) return layer;
+        return { ...layer, thread: findNearestThread(layer.color, brand), threadLocked: false };
+    });
@@ -0,0 +1,120 @@
+import { DesignStyle, TracingConfig, VectorizeOptions, VectorizePreset } from '../types';
+
+/**
+ * VTRACER TRACING OPTIONS
+ *
+ * Shared by the REVIEW_BITMAP panel, /api/vectorize and /api/layers, which validate whatever they
+ * are sent before it reaches the tracer:
+ * - Detailed: keeps small patches and tight corners (logos with fine lettering).
+ * - Balanced: the long-standing defaults.
+ * - Smooth: rounder curves and merged shades (organic artwork).
+ * - Bold: drops small patches and merges near colours (large flat patch shapes).
+ */
+
+type NumericOption = Exclude<keyof VectorizeOptions, 'mode' | 'hierarchical'>;
+
+export const VECTORIZE_LIMITS: Record<NumericOption, { min: number, max: number, step: number, label: string }> = {
+    filterSpeckle: { min: 0, max: 128, step: 1, label: 'Ruído (px)' },
+    colorPrecision: { min: 1, max: 8, step: 1, label: 'Precisão de Cor' },
+    layerDifference: { min: 0, max: 255, step: 1, label: 'Diferença de Camada' },
+    cornerThreshold: { min: 0, max: 180, step: 1, label: 'Cantos (°)' },
+    lengthThreshold: { min: 3.5, max: 10, step: 0.5, label: 'Segmento' },
+    maxIterations: { min: 1, max: 20, step: 1, label: 'Iterações' },
+    spliceThreshold: { min: 0, max: 180, step: 1, label: 'Emenda (°)' },
+    pathPrecision: { min: 0, max: 8, step: 1, label: 'Casas Decimais' },
+};
+
+const BALANCED: VectorizeOptions = {
+    filterSpeckle: 4,
+    colorPrecision: 6,
+    layerDifference: 16,
+    cornerThreshold: 60,
+    lengthThreshold: 10,
+    maxIterations: 10,
+    spliceThreshold: 45,
+    pathPrecision: 8,
+    mode: 'spline',
+    hierarchical: 'stacked',
+};
+
+export const VECTORIZE_PRESETS: { id: Exclude<VectorizePreset, 'custom'>, label: string, options: VectorizeOptions }[] = [
+    { id: 'detailed', label: 'Detalhado', options: { ...BALANCED, filterSpeckle: 2, colorPrecision: 7, layerDifference: 8, cornerThreshold: 45, lengthThreshold: 4 } },
+    { id: 'balanced', label: 'Equilibrado', options: BALANCED },
+    { id: 'smooth', label: 'Suave', options: { ...BALANCED, filterSpeckle: 8, layerDifference: 24, cornerThreshold: 90, spliceThreshold: 60 } },
+    { id: 'bold', label: 'Formas Grandes', options: { ...BALANCED, filterSpeckle: 16, colorPrecision: 5, layerDifference: 32 } },
+];
+
+export const DEFAULT_VECTORIZE_OPTIONS = BALANCED;
+
+const MODES: VectorizeOptions['mode'][] = ['none', 'polygon', 'spline'];
+const HIERARCHIES: VectorizeOptions['hierarchical'][] = ['stacked', 'cutout'];
+
+const checkChoice = <T extends string>(key: string, value: unknown, allowed: T[]): T => {
+    const match = allowed.find(choice => choice === value);
+    if (match === undefined) throw new Error(`Option "${key}" must be one of ${allowed.join(', ')}`);
+    return match;
+};
+
+/**
+ * Checks an options payload (parsed JSON). Missing fields take the balanced defaults; unknown
+ * fields, wrong types and out of range values throw, naming the field.
+ */
+export const validateVectorizeOptions = (input: unknown): VectorizeOptions => {
+    if (input === undefined || input === null) return { ...DEFAULT_VECTORIZE_OPTIONS };
+    if (typeof input !== 'object' || Array.isArray(input)) throw new Error('Options must be an object');
+
+    const raw = input as Record<string, unknown>;
+    const options: VectorizeOptions = { ...DEFAULT_VECTORIZE_OPTIONS };
+    Object.keys(raw).forEach(key => {
+        const value = raw[key];
+        if (key === 'mode') {
+            options.mode = checkChoice(key, value, MODES);
+            return;
+        }
+        if (key === 'hierarchical') {
+            options.hierarchical = checkChoice(key, value, HIERARCHIES);
+            return;
+        }
+        const limits = VECTORIZE_LIMITS[key as NumericOption];
+        if (!limits) throw new Error(`Unknown option "${key}"`);
+        if (typeof value !== 'number' || !isFinite(value)) throw new Error(`Option "${key}" must be a number`);
+        if (value < limits.min || value > limits.max) throw new Error(`Option "${key}" must be between ${limits.min} and ${limits.max}`);
+        if (limits.step >= 1 && !Number.isInteger(value)) throw new Error(`Option "${key}" must be a whole number`);
+        options[key as NumericOption] = value;
+    });
+    return options;
+};
+
+export const MAX_VECTORIZE_COLORS = 16;
+const WIDTH_LIMITS_MM = { min: 10, max: 500 };
+const DESIGN_STYLES: DesignStyle[] = ['vintage', 'patch_line', 'patch_fill'];
+
+/**
+ * Checks a tracing payload for /api/layers. Missing fields take the app's starting values; the
+ * vectorize block goes through validateVectorizeOptions.
+ */
+export const validateTracingConfig = (input: unknown): TracingConfig => {
+    if (input === undefined || input === null) input = {};
+    if (typeof input !== 'object' || Array.isArray(input)) throw new Error('Config must be an object');
+
+    const { designStyle = 'patch_fill', centerlineTrace = true, widthMm = 100, colorCount = 4, vectorize, ...rest } = input as Record<string, unknown>;
+    const unknown = Object.keys(rest);
+    if (unknown.length > 0) throw new Error(`Unknown config field "${unknown[0]}"`);
+
+    if (typeof designStyle !== 'string' || !DESIGN_STYLES.includes(designStyle as DesignStyle)) throw new Error(`Config "designStyle" must be one of ${DESIGN_STYLES.join(', ')}`);
+    if (typeof centerlineTrace !== 'boolean') throw new Error('Config "centerlineTrace" must be true or false');
+    if (typeof widthMm !== 'number' || !isFinite(widthMm) || widthMm < WIDTH_LIMITS_MM.min || widthMm > WIDTH_LIMITS_MM.max) {
+        throw new Error(`Config "widthMm" must be between ${WIDTH_LIMITS_MM.min} and ${WIDTH_LIMITS_MM.max}`);
+    }
+    if (typeof colorCount !== 'number' || !Number.isInteger(colorCount) || colorCount < 1 || colorCount > MAX_VECTORIZE_COLORS) {
+        throw new Error(`Config "colorCount" must be a whole number from 1 to ${MAX_VECTORIZE_COLORS}`);
+    }
+
+    return {
+        designStyle: designStyle as DesignStyle,
+        centerlineTrace,
+        widthMm,
+        colorCount,
+        vectorize: validateVectorizeOptions(vectorize)
+    };
+};
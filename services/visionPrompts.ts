@@ -0,0 +1,108 @@
+import { DesignStyle } from '../types';
+
+/**
+ * VISION PROMPTS (versioned templates)
+ *
+ * The instructions sent with the image to the vision provider, one template per design style on top
+ * of a shared preamble. Templates are never edited once in use: a change is a new version, so a
+ * bitmap can always be traced back to the exact words that produced it (the route reports the
+ * version) and an older version stays available through VISION_PROMPT_VERSION.
+ * Placeholders: {{colorCount}}.
+ */
+
+export interface VisionPromptTemplate {
+    preamble: string;
+    styles: Record<DesignStyle, string>;
+}
+
+const V1: VisionPromptTemplate = {
+    preamble: `
+ROLE:
+You are an image pre-processing engine in an embroidery auto-vectorization pipeline.
+Your job is to transform the input image into a clean "Pre-Production Bitmap" that will later be auto-traced into SVG and converted to stitches.
+
+TASK:
+Analyze the input image and generate a bitmap that is optimized for automatic vector tracing and embroidery.
+
+STRICT OUTPUT RULES:
+1. OUTPUT FORMAT:
+   - Return only a raster image as a CLEAN, FLAT PNG.
+   - Do NOT generate SVG code.
+   - Do NOT include any text, captions or explanations in the response, only the image.
+
+2. BACKGROUND:
+   - REMOVE THE BACKGROUND COMPLETELY.
+   - Replace it with a PURE WHITE background (#FFFFFF).
+   - No shadows, no gradients, no textures, no vignettes.
+
+3. SUBJECT AND COMPOSITION:
+   - Keep the main subject fully visible and not cropped.
+   - Preserve the original pose and proportions of the subject.
+   - Do NOT add new objects, logos, text or decorations that were not in the original image.
+
+4. GRADIENTS AND SHADING:
+   - NO GRADIENTS.
+   - Flatten all gradients and soft shading into solid color regions.
+   - Do NOT simulate gradients using dithering, noise or halftone patterns.
+
+5. EDGES AND ANTI-ALIASING:
+   - NO ANTI-ALIASING on the SUBJECT edges.
+   - Edges must be sharp, crisp and aliased, with no soft blur and no semi-transparent pixels on the borders.
+   - Avoid glow, feathering, motion blur or soft eraser effects.
+
+6. CLEANUP AND SIMPLIFICATION:
+   - Remove small "confetti" noise pixels and tiny isolated spots.
+   - Simplify details that are too fine for embroidery, while keeping the main shapes and recognisable features.
+
+7. SIZE AND ASPECT RATIO:
+   - Keep the same aspect ratio as the original image.
+   - Use a resolution high enough for clean vector tracing (at least 1024 pixels on the longest side, if possible).
+
+STYLE SPECIFIC:
+`,
+    styles: {
+        vintage: `
+STYLE: "Vintage" Redwork / Skeleton Line Art
+- CONTENT: Black lines on a pure White background.
+- LINES: Consistent line width, clean and continuous.
+- SHAPES: Use outlines only, no filled areas.
+- SIMPLIFY: Emphasize key contours and important interior lines. Avoid dense hatching or shading.`,
+        patch_line: `
+STYLE: Bold Patch Outline
+- CONTENT: Thick black shapes on a pure White background.
+- SHAPES: The black shapes define the filled patch areas.
+- INTENT: These black areas will be filled with Tatami stitch, so make them chunky and well separated.
+- AVOID: Tiny holes, very thin gaps or micro-details inside shapes.`,
+        patch_fill: `
+STYLE: "Poster Art" / Vector Illustration
+- CONTENT: High-contrast, flat vector art style.
+- PALETTE: Reduce the SUBJECT colors to EXACTLY {{colorCount}} solid, high-contrast colors. Do NOT count the white background as a color. Avoid near-duplicate shades.
+- SIMPLIFICATION: Aggressively simplify complex details into bold, solid color shapes.
+- LOOK: Like a screen print or a vintage travel poster.
+- INTENT: Multi-color Tatami fill. Each color region must be large enough to be embroidered.
+- AVOID: Realism, photographic shading, textures, or small isolated pixels.`,
+    },
+};
+
+export const VISION_PROMPTS: Record<string, VisionPromptTemplate> = { v1: V1 };
+export const DEFAULT_VISION_PROMPT_VERSION = 'v1';
+
+export interface VisionPromptInput {
+    designStyle: DesignStyle;
+    colorCount: number;
+    detail?: string; // Free text from the user, appended as is
+}
+
+// {{name}} -> value; a placeholder without a value throws instead of reaching the model
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+    template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+        if (!Object.hasOwn(values, name)) throw new Error(`Prompt placeholder "${name}" has no value`);
+        return String(values[name]);
+    });
+
+export const renderVisionPrompt = ({ designStyle, colorCount, detail }: VisionPromptInput, version: string = DEFAULT_VISION_PROMPT_VERSION): string => {
+    if (!Object.hasOwn(VISION_PROMPTS, version)) throw new Error(`Unknown prompt version "${version}"`);
+    const template = VISION_PROMPTS[version];
+    const prompt = template.preamble + fillTemplate(template.styles[designStyle], { colorCount });
+    return `${prompt} ${detail || ""}`;
+};
@@ -0,0 +1,172 @@
+import { GoogleGenAI } from "@google/genai";
+import { DEFAULT_VISION_PROMPT_VERSION, VISION_PROMPTS } from './visionPrompts';
+
+/**
+ * VISION PROVIDERS (server only, behind /api/vision)
+ *
+ * The bitmap cleanup step as an interface: image + prompt in, cleaned image out. Which provider and
+ * model run is server configuration (environment), never a client choice:
+ * - gemini: Google Gemini image model (GEMINI_API_KEY).
+ * - openai: any OpenAI-compatible `/images/edits` endpoint (OPENAI_API_KEY, OPENAI_BASE_URL for
+ *   self-hosted or proxy servers).
+ * - local: a local HTTP stand-in, e.g. a small bridge in front of a Stable Diffusion or ComfyUI
+ *   workflow (VISION_LOCAL_URL). It receives JSON `{ model, prompt, image: { data, mimeType } }` and
+ *   answers `{ image: { data, mimeType } }`, base64 without the data URL prefix.
+ * - mock: returns the input unchanged, for tests and offline development.
+ *
+ *   VISION_PROVIDER   gemini (default) | openai | local | mock
+ *   VISION_MODEL      Overrides the provider's default model
+ *   VISION_PROMPT_VERSION, VISION_TIMEOUT_MS
+ */
+
+export type VisionProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface VisionImage {
+    data: string; // Base64, no data URL prefix
+    mimeType: string;
+}
+
+export interface VisionRequest {
+    image: VisionImage;
+    prompt: string;
+}
+
+export interface VisionProvider {
+    id: VisionProviderId;
+    model: string;
+    cleanup: (request: VisionRequest) => Promise<VisionImage>;
+}
+
+export interface VisionConfig {
+    provider: VisionProviderId;
+    model: string;
+    promptVersion: string;
+    timeoutMs: number;
+}
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_MODELS: Record<VisionProviderId, string> = {
+    gemini: 'gemini-2.5-flash-image',
+    openai: 'gpt-image-1',
+    local: 'default',
+    mock: 'echo',
+};
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Every configuration problem surfaces as this message prefix (the route answers 500 with it)
+const configError = (message: string) => new Error(`Server configuration error: ${message}`);
+
+export const readVisionConfig = (env: Env = process.env): VisionConfig => {
+    const provider = (env.VISION_PROVIDER || 'gemini') as VisionProviderId;
+    if (!Object.hasOwn(DEFAULT_MODELS, provider)) throw configError(`Unknown VISION_PROVIDER "${provider}"`);
+    const promptVersion = env.VISION_PROMPT_VERSION || DEFAULT_VISION_PROMPT_VERSION;
+    if (!Object.hasOwn(VISION_PROMPTS, promptVersion)) throw configError(`Unknown VISION_PROMPT_VERSION "${promptVersion}"`);
+    const timeoutMs = env.VISION_TIMEOUT_MS ? Number(env.VISION_TIMEOUT_MS) : DEFAULT_TIMEOUT_MS;
+    if (!(timeoutMs > 0)) throw configError('VISION_TIMEOUT_MS must be a positive number of milliseconds');
+    return { provider, model: env.VISION_MODEL || DEFAULT_MODELS[provider], promptVersion, timeoutMs };
+};
+
+// --- PROVIDERS ---
+
+const geminiProvider = (model: string, env: Env): VisionProvider => {
+    const apiKey = env.GEMINI_API_KEY;
+    if (!apiKey) throw configError('Missing API Key');
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        model,
+        cleanup: async ({ image, prompt }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: {
+                    parts: [
+                        { inlineData: { data: image.data, mimeType: image.mimeType } },
+                        { text: prompt },
+                    ],
+                },
+            });
+
+            const parts = response.candidates?.[0]?.content?.parts || [];
+            const imagePart = parts.find(part => part.inlineData?.data);
+            if (!imagePart) throw new Error("Gemini did not return an image.");
+            return { data: imagePart.inlineData!.data!, mimeType: imagePart.inlineData!.mimeType || 'image/png' };
+        },
+    };
+};
+
+const openAiProvider = (model: string, timeoutMs: number, env: Env): VisionProvider => {
+    const baseUrl = (env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const apiKey = env.OPENAI_API_KEY;
+    if (!apiKey && baseUrl === OPENAI_DEFAULT_BASE_URL) throw configError('Missing OPENAI_API_KEY');
+
+    return {
+        id: 'openai',
+        model,
+        cleanup: async ({ image, prompt }) => {
+            const form = new FormData();
+            form.append('model', model);
+            form.append('prompt', prompt);
+            form.append('image', new Blob([Buffer.from(image.data, 'base64')], { type: image.mimeType }), `image.${image.mimeType.split('/')[1] || 'png'}`);
+            if (model.startsWith('dall-e')) form.append('response_format', 'b64_json'); // gpt-image models always answer base64
+
+            const response = await fetch(`${baseUrl}/images/edits`, {
+                method: 'POST',
+                headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+                body: form,
+                signal: AbortSignal.timeout(timeoutMs),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(`Image edit API failed: ${body?.error?.message || response.statusText}`);
+
+            const result = body?.data?.[0];
+            if (result?.b64_json) return { data: result.b64_json, mimeType: 'image/png' };
+            if (result?.url) {
+                const download = await fetch(result.url, { signal: AbortSignal.timeout(timeoutMs) });
+                if (!download.ok) throw new Error(`Image download failed: ${download.statusText}`);
+                return { data: Buffer.from(await download.arrayBuffer()).toString('base64'), mimeType: download.headers.get('content-type') || 'image/png' };
+            }
+            throw new Error("Image edit API did not return an image.");
+        },
+    };
+};
+
+const localProvider = (model: string, timeoutMs: number, env: Env): VisionProvider => {
+    const url = env.VISION_LOCAL_URL;
+    if (!url) throw configError('Missing VISION_LOCAL_URL');
+
+    return {
+        id: 'local',
+        model,
+        cleanup: async ({ image, prompt }) => {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model, prompt, image }),
+                signal: AbortSignal.timeout(timeoutMs),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(`Local vision server failed: ${body?.error || response.statusText}`);
+            if (!body?.image?.data) throw new Error("Local vision server did not return an image.");
+            return { data: body.image.data, mimeType: body.image.mimeType || 'image/png' };
+        },
+    };
+};
+
+const mockProvider = (model: string): VisionProvider => ({
+    id: 'mock',
+    model,
+    cleanup: async ({ image }) => image,
+});
+
+export const createVisionProvider = (config: VisionConfig, env: Env = process.env): VisionProvider => {
+    switch (config.provider) {
+        case 'gemini': return geminiProvider(config.model, env);
+        case 'openai': return openAiProvider(config.model, config.timeoutMs, env);
+        case 'local': return localProvider(config.model, config.timeoutMs, env);
+        case 'mock': return mockProvider(config.model);
+    }
+};
@@ -0,0 +1,176 @@
+import { Stitch } from '../types';
+import { ByteWriter, ColorBlock, createByteWriter, getColorBlocks, getStitchExtents, hexToRgb, toMachineUnits } from './exportUtils';
+
+/**
+ * HUSQVARNA VIKING / PFAFF VP3 FORMAT
+ *
+ * Structure (all integers big-endian):
+ * - "%vsm%\0" signature + producer string.
+ * - File block (00 02 00): extents in 1/1000mm, hoop block, colour count.
+ * - One colour block (00 05 00) per thread: start position, thread description
+ *   (RGB, catalog number, name, brand) and the stitch bytes for that thread.
+ *   - Stitch: signed dx, dy bytes (0.1mm).
+ *   - 0x80 0x01 dx(int16) dy(int16) 0x80 0x02: Long move.
+ *   - 0x80 0x03: Trim.
+ * VP3 has no jump command: moves are long stitches after a trim, and colour changes
+ * are implied by the block boundaries.
+ *
+ * VP3 uses a Y axis pointing down, our mm space points up, so Y is negated on write.
+ */
+
+export interface Vp3ThreadInfo {
+    catalogNumber?: string;
+    description?: string;
+    brand?: string;
+}
+
+export interface Vp3ExportOptions {
+    notes?: string; // Free text comment stored in the file header
+    threads?: (Vp3ThreadInfo | undefined)[]; // By colorIndex (layer order)
+}
+
+const VP3_PRODUCER = 'Produced by     Software Ltd';
+
+const writeString8 = (w: ByteWriter, str: string) => {
+    const bytes = new TextEncoder().encode(str);
+    w.u16be(bytes.length);
+    w.bytes(bytes);
+};
+
+const writeString16 = (w: ByteWriter, str: string) => {
+    w.u16be(str.length * 2);
+    for (let i = 0; i < str.length; i++) w.u16be(str.charCodeAt(i));
+};
+
+const writeThread = (w: ByteWriter, hexColor: string, info: Vp3ThreadInfo) => {
+    const rgb = hexToRgb(hexColor);
+    w.u8(1); // Colours in this thread
+    w.u8(0); // Transition
+    w.u24be((rgb.r << 16) | (rgb.g << 8) | rgb.b);
+    w.u8(0); // Parts
+    w.u8(0); // Colour length
+    w.u8(5); // Thread type (rayon/poly)
+    w.u8(40); // Weight
+    writeString8(w, info.catalogNumber || '');
+    writeString8(w, info.description || hexColor.toUpperCase());
+    writeString8(w, info.brand || '');
+};
+
+const writeColorBlock = (w: ByteWriter, block: ColorBlock, nextStart: { x: number, y: number } | null, info: Vp3ThreadInfo) => {
+    const positioned = block.stitches.filter(s => s.type !== 'trim');
+    if (positioned.length === 0) return;
+    const first = positioned[0];
+    const startX = toMachineUnits(first.x);
+    const startY = -toMachineUnits(first.y);
+
+    w.u8(0x00); w.u8(0x05); w.u8(0x00);
+    const lengthPos = w.position;
+    w.i32be(0); // Distance to end of block placeholder
+
+    // Start position relative to the design centre (1/1000mm)
+    w.i32be(startX * 100);
+    w.i32be(startY * 100);
+    writeThread(w, block.hexColor, info);
+
+    // Displacement to the next block's start
+    const last = positioned[positioned.length - 1];
+    const lastX = toMachineUnits(last.x);
+    const lastY = -toMachineUnits(last.y);
+    w.i32be(nextStart ? (nextStart.x - lastX) * 100 : 0);
+    w.i32be(nextStart ? (nextStart.y - lastY) * 100 : 0);
+    w.u8(0x00); w.u8(0x01); w.u8(0x00);
+    w.i32be(0);
+
+    // Stitch data
+    w.u8(0x0A); w.u8(0xF6); w.u8(0x00);
+    let currentX = startX;
+    let currentY = startY;
+
+    for (const s of block.stitches) {
+        if (s.type === 'trim') {
+            w.u8(0x80); w.u8(0x03);
+            continue;
+        }
+        const targetX = toMachineUnits(s.x);
+        const targetY = -toMachineUnits(s.y);
+        const dx = targetX - currentX;
+        const dy = targetY - currentY;
+        if (dx === 0 && dy === 0) continue;
+
+        if (dx >= -127 && dx <= 127 && dy >= -127 && dy <= 127) {
+            w.u8(dx); w.u8(dy);
+        } else {
+            w.u8(0x80); w.u8(0x01);
+            w.u16be(dx); w.u16be(dy);
+            w.u8(0x80); w.u8(0x02);
+        }
+        currentX = targetX;
+        currentY = targetY;
+    }
+
+    w.setI32be(lengthPos, w.position - (lengthPos + 4));
+};
+
+export const createVp3File = (stitches: Stitch[], options: Vp3ExportOptions = {}): Uint8Array => {
+    const blocks = getColorBlocks(stitches);
+    const extents = getStitchExtents(stitches);
+    // Extents in 1/1000mm, Y down
+    const right = extents.maxX * 100;
+    const left = extents.minX * 100;
+    const top = -extents.maxY * 100;
+    const bottom = -extents.minY * 100;
+    const stitchCount = stitches.filter(s => s.type === 'stitch').length;
+
+    const w = createByteWriter(stitches.length * 3 + 4096);
+
+    // 1. Signature
+    w.ascii('%vsm%');
+    w.u8(0);
+    writeString16(w, VP3_PRODUCER);
+
+    // 2. File block
+    w.u8(0x00); w.u8(0x02); w.u8(0x00);
+    const fileLengthPos = w.position;
+    w.i32be(0); // Distance to end of file placeholder
+    writeString16(w, options.notes || '');
+    w.i32be(right);
+    w.i32be(-top);
+    w.i32be(left);
+    w.i32be(-bottom);
+    w.i32be(stitchCount);
+    w.u16be(blocks.length);
+    w.bytes([0x0C, 0x00, 0x01, 0x00, 0x03, 0x00]);
+    w.i32be(0);
+
+    // 3. Hoop block (design centred on 0,0)
+    w.i32be(0); // Centre X
+    w.i32be(0); // Centre Y
+    w.bytes([0x00, 0x00, 0x00]);
+    w.i32be(right);
+    w.i32be(-top);
+    w.i32be(left);
+    w.i32be(-bottom);
+    w.i32be(right - left);
+    w.i32be(bottom - top);
+    writeString16(w, '');
+    w.bytes([0x64, 0x64]);
+    w.i32be(4096);
+    w.i32be(0);
+    w.i32be(0);
+    w.i32be(4096);
+    w.ascii('xxPP');
+    w.u8(0x01); w.u8(0x00);
+    writeString16(w, VP3_PRODUCER);
+    w.u16be(blocks.length);
+
+    // 4. Colour blocks
+    blocks.forEach((block, i) => {
+        const next = blocks[i + 1];
+        const nextFirst = next ? next.stitches.find(s => s.type !== 'trim') : undefined;
+        const nextStart = nextFirst ? { x: toMachineUnits(nextFirst.x), y: -toMachineUnits(nextFirst.y) } : null;
+        writeColorBlock(w, block, nextStart, options.threads?.[block.colorIndex] || {});
+    });
+
+    w.setI32be(fileLengthPos, w.position - (fileLengthPos + 4));
+    return w.toUint8Array();
+};
@@ -1,5 +1,7 @@
-import { VectorLayer, Point } from '../types';
-import { parseSVG, makeAbsolute } from 'svg-path-parser';
+import { VectorLayer, Point, RasterImage, TracingConfig } from '../types';
+import svgPathParser from 'svg-path-parser';
+
+const { parseSVG, makeAbsolute } = svgPathParser;
 
 // Helper to flatten Bezier curves into points
 const flattenCommand = (cmd: any, currentX: number, currentY: number): Point[] => {
@@ -52,26 +54,27 @@ const flattenCommand = (cmd: any, currentX: number, currentY: number): Point[] =
     return points;
 };
 
-export const processVTracer = async (
-    imageData: ImageData,
-    widthMm: number,
-    colorCount: number
-): Promise<{ layers: VectorLayer[], svgPaths: string, colors: string[] }> => {
+// Browser side of patch tracing: the bitmap goes to /api/vectorize (native VTracer) as a PNG
+export const requestVTracerSvg = async (
+    image: RasterImage,
+    config: Pick<TracingConfig, 'colorCount' | 'vectorize'>
+): Promise<string> => {
 
-    // Convert ImageData to Blob/File to send to API
+    // Convert the pixels to a PNG Blob to send to the API
     const canvas = document.createElement('canvas');
-    canvas.width = imageData.width;
-    canvas.height = imageData.height;
+    canvas.width = image.width;
+    canvas.height = image.height;
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error("Canvas context failed");
-    ctx.putImageData(imageData, 0, 0);
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
 
     const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
     if (!blob) throw new Error("Failed to convert image to blob");
 
     const formData = new FormData();
     formData.append('image', blob);
-    formData.append('colorCount', colorCount.toString());
+    formData.append('colorCount', config.colorCount.toString());
+    formData.append('options', JSON.stringify(config.vectorize));
 
     // Call local API
     const response = await fetch('/api/vectorize', {
@@ -80,149 +83,120 @@ export const processVTracer = async (
     });
 
     if (!response.ok) {
-        throw new Error(`Vectorization API failed: ${response.statusText}`);
+        const body = await response.json().catch(() => null);
+        throw new Error(`Vectorization API failed: ${body?.details || response.statusText}`);
     }
 
-    const svgString = await response.text();
+    return await response.text();
+};
+
+// Attribute value from a start tag (double or single quoted)
+const readAttribute = (tag: string, name: string): string | null => {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+    return match ? (match[1] ?? match[2]) : null;
+};
 
-    return parseSvgToLayers(svgString, imageData.width, imageData.height, widthMm);
+// translate(x[, y]) offsets; VTracer places every path with one. Other transforms are not supported
+const readTranslate = (tag: string): Point => {
+    const match = (readAttribute(tag, 'transform') || '').match(/translate\(\s*([-\d.eE+]+)(?:[\s,]+([-\d.eE+]+))?\s*\)/);
+    return match ? { x: parseFloat(match[1]), y: match[2] ? parseFloat(match[2]) : 0 } : { x: 0, y: 0 };
 };
 
+// No DOMParser: the SVG is read with regular expressions so this also runs on the server
 export const parseSvgToLayers = (
     svgString: string,
     pixelWidth: number, // Fallback width if viewBox missing
     pixelHeight: number, // Fallback height if viewBox missing
     widthMm: number
-): { layers: VectorLayer[], svgPaths: string, colors: string[] } => {
+): { layers: VectorLayer[], svgPaths: string, colors: string[], viewBoxWidth: number, viewBoxHeight: number } => {
     const layers: VectorLayer[] = [];
     const colorMap: Map<string, Point[][]> = new Map();
 
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(svgString, "image/svg+xml");
-
     // Determine coordinate system size from viewBox
-    const svgEl = doc.querySelector('svg');
+    const svgTag = svgString.match(/<svg\b[^>]*>/i)?.[0];
     let viewBoxWidth = pixelWidth;
     let viewBoxHeight = pixelHeight;
-    let cx = pixelWidth / 2;
-    let cy = pixelHeight / 2;
-
-    if (svgEl) {
-        const viewBox = svgEl.getAttribute('viewBox');
-        if (viewBox) {
-            const parts = viewBox.split(/\s+|,/).map(parseFloat);
-            if (parts.length === 4) {
-                viewBoxWidth = parts[2];
-                viewBoxHeight = parts[3];
-                // We assume viewBox starts at 0,0 for simplicity or handle offset if needed
-                // But for centering, we use the width/height
-            }
-        } else {
-            // Try width/height attributes
-            const w = svgEl.getAttribute('width');
-            const h = svgEl.getAttribute('height');
-            if (w && h) {
-                viewBoxWidth = parseFloat(w);
-                viewBoxHeight = parseFloat(h);
-            }
+
+    if (svgTag) {
+        const viewBox = readAttribute(svgTag, 'viewBox');
+        const w = readAttribute(svgTag, 'width');
+        const h = readAttribute(svgTag, 'height');
+        const parts = viewBox ? viewBox.trim().split(/[\s,]+/).map(parseFloat) : [];
+        if (parts.length === 4) {
+            // We assume viewBox starts at 0,0 for simplicity
+            viewBoxWidth = parts[2];
+            viewBoxHeight = parts[3];
+        } else if (w && h && parseFloat(w) > 0 && parseFloat(h) > 0) {
+            viewBoxWidth = parseFloat(w);
+            viewBoxHeight = parseFloat(h);
         }
-        cx = viewBoxWidth / 2;
-        cy = viewBoxHeight / 2;
     }
+    const cx = viewBoxWidth / 2;
+    const cy = viewBoxHeight / 2;
 
     const pixelsPerMm = viewBoxWidth / widthMm;
 
-    const pathEls = doc.querySelectorAll('path');
+    const pathTags = svgString.match(/<path\b[^>]*>/gi) || [];
 
-    pathEls.forEach(pathEl => {
-        const d = pathEl.getAttribute('d');
+    pathTags.forEach(pathTag => {
+        const d = readAttribute(pathTag, 'd');
         if (!d) return;
 
-        let fill = pathEl.getAttribute('fill');
+        let fill = readAttribute(pathTag, 'fill');
 
         // Handle style attribute
         if (!fill) {
-            const style = pathEl.getAttribute('style');
+            const style = readAttribute(pathTag, 'style');
             if (style) {
                 const fillMatch = style.match(/fill:\s*([^;"]+)/);
                 if (fillMatch) fill = fillMatch[1].trim();
             }
         }
 
-        if (!fill || fill === 'none') {
-            // Check computed style? No, not attached to DOM.
-            // Default to black if not specified? Or skip?
-            // If it's a stroke-only path, we might want to skip or handle differently.
-            // For patch fill, we need fill.
-            // Let's assume black if missing, unless explicitly none.
-            if (fill === 'none') return;
-            fill = '#000000';
-        }
+        // Stroke-only paths are skipped; a missing fill is black (the SVG default)
+        if (fill === 'none') return;
+        if (!fill) fill = '#000000';
+
+        const offset = readTranslate(pathTag);
 
         // Parse path data
         // We need makeAbsolute to handle relative commands correctly
         const commands = makeAbsolute(parseSVG(d));
 
-        const pathPoints: Point[] = [];
+        // Each M starts a new subpath (holes, separate islands)
+        const subpaths: Point[][] = [];
+        let pathPoints: Point[] = [];
         let currentX = 0;
         let currentY = 0;
 
-        // Initialize current position from first Move command
-        if (commands.length > 0 && commands[0].code === 'M') {
-            currentX = commands[0].x;
-            currentY = commands[0].y;
-        }
-
         for (const cmd of commands) {
+            if (cmd.code === 'M' && pathPoints.length > 0) {
+                subpaths.push(pathPoints);
+                pathPoints = [];
+            }
             const pts = flattenCommand(cmd, currentX, currentY);
             if (pts.length > 0) {
                 // Convert pixels to mm relative to center
-                const mmPts = pts.map(p => ({
-                    x: (p.x - cx) / pixelsPerMm,
-                    y: (cy - p.y) / pixelsPerMm
-                }));
-                pathPoints.push(...mmPts);
+                pathPoints.push(...pts.map(p => ({
+                    x: (p.x + offset.x - cx) / pixelsPerMm,
+                    y: (cy - p.y - offset.y) / pixelsPerMm
+                })));
 
+                // flattenCommand returns absolute points (makeAbsolute), the last one is the new pen position
                 const last = pts[pts.length - 1];
-                // Note: flattenCommand returns absolute points, but we need to track current pos
-                // Actually flattenCommand implementation above calculates absolute points based on currentX/Y
-                // But for M/L/C/Q in makeAbsolute, x/y are absolute.
-                // My flattenCommand implementation uses cmd.x/y directly for M/L.
-                // For C/Q it uses cmd.x/y as target.
-                // So the points returned ARE absolute.
-                // We just need to update currentX/Y to the last point.
-
-                // Wait, flattenCommand implementation above:
-                // if M/L: points.push({x: cmd.x, y: cmd.y}) -> cmd.x is absolute because of makeAbsolute
-                // So yes, points are absolute.
-
-                // Update currentX/Y for next command (needed for H/V/relative logic if not fully absolute)
-                // makeAbsolute makes coords absolute, but H/V might still need current context if converted to L?
-                // makeAbsolute converts H/V to L usually? No, it keeps H/V but makes args absolute.
-                // If H x=10, and we are at 5, it means line to 10.
-                // My flattenCommand handles H/V using currentY/currentX.
-
-                // So we need to update currentX/Y.
-                // But wait, flattenCommand returns points. The last point IS the new current position.
-                // UNLESS it's Z.
-                if (cmd.code !== 'Z') {
-                    // For M, L, C, Q, S, T, A, H, V the command ends at a specific point.
-                    // makeAbsolute ensures cmd.x/cmd.y exists for most.
-                    // For H, cmd.x exists. For V, cmd.y exists.
-
-                    // Let's rely on the last emitted point.
-                    currentX = last.x;
-                    currentY = last.y;
-                }
+                currentX = last.x;
+                currentY = last.y;
             }
         }
+        subpaths.push(pathPoints);
 
-        if (pathPoints.length > 2) {
-            if (!colorMap.has(fill)) {
-                colorMap.set(fill, []);
+        subpaths.forEach(points => {
+            if (points.length <= 2) return;
+            if (!colorMap.has(fill!)) {
+                colorMap.set(fill!, []);
             }
-            colorMap.get(fill)?.push(pathPoints);
-        }
+            colorMap.get(fill!)?.push(points);
+        });
     });
 
     // Convert Map to VectorLayer[]
@@ -233,6 +207,8 @@ export const parseSvgToLayers = (
     return {
         layers,
         svgPaths: svgString, // Return raw SVG for preview
-        colors: Array.from(colorMap.keys())
+        colors: Array.from(colorMap.keys()),
+        viewBoxWidth,
+        viewBoxHeight
     };
 };
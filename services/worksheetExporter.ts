@@ -0,0 +1,149 @@
+import { EmbroideryDesign, Hoop, Stitch, ThreadColor } from '../types';
+import { computeStitchStats, DEFAULT_MACHINE_PROFILE, formatDuration, formatMeters, MachineProfile } from './stitchStats';
+import { getThreadBrandLabel } from './threadCatalog';
+
+/**
+ * PRODUCTION WORKSHEET
+ *
+ * Printable A4 job sheet (SVG in mm units, prints 1:1 from any browser):
+ * - Design render inside the selected hoop.
+ * - Dimensions, hoop, stitch / trim / jump counts, estimated run time, thread consumption.
+ * - Colour sequence with thread codes, stitches and meters of thread per colour.
+ */
+
+export interface WorksheetOptions {
+    design: EmbroideryDesign;
+    hoop: Hoop;
+    designName?: string;
+    threads?: (ThreadColor | undefined)[]; // By colorIndex
+    machine?: MachineProfile; // Run time estimate
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const RENDER_TOP = 32;
+const RENDER_HEIGHT = 110;
+const ROW_HEIGHT = 7;
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fmt = (n: number) => n.toFixed(1);
+
+// One polyline per sewn run, jumps and trims lift the pen
+const renderStitchPaths = (stitches: Stitch[], toSheet: (x: number, y: number) => { x: number, y: number }) => {
+    const paths: string[] = [];
+    let d = '';
+    let color = '';
+
+    const flush = () => {
+        if (d.includes('L')) {
+            paths.push(`<path d="${d}" fill="none" stroke="${color}" stroke-width="0.25" stroke-linejoin="round" stroke-linecap="round"/>`);
+        }
+        d = '';
+    };
+
+    for (const s of stitches) {
+        if (s.type !== 'stitch') {
+            flush();
+            continue;
+        }
+        const p = toSheet(s.x, s.y);
+        const hex = s.hexColor || '#000000';
+        if (hex !== color) {
+            flush();
+            color = hex;
+        }
+        d += d ? ` L${fmt(p.x)} ${fmt(p.y)}` : `M${fmt(p.x)} ${fmt(p.y)}`;
+    }
+    flush();
+    return paths.join('\n');
+};
+
+export const createWorksheetSvg = ({ design, hoop, designName = 'SR_LUCAS', threads, machine = DEFAULT_MACHINE_PROFILE }: WorksheetOptions): string => {
+    const stats = computeStitchStats(design.stitches, machine);
+    const out: string[] = [];
+
+    // 1. Layout (the colour table grows the page for designs with many threads)
+    const tableTop = RENDER_TOP + RENDER_HEIGHT + 58;
+    const pageHeight = Math.max(PAGE_HEIGHT, tableTop + (stats.colors.length + 1) * ROW_HEIGHT + MARGIN);
+
+    out.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${pageHeight}mm" viewBox="0 0 ${PAGE_WIDTH} ${pageHeight}" font-family="Helvetica, Arial, sans-serif">`);
+    out.push(`<rect width="${PAGE_WIDTH}" height="${pageHeight}" fill="#FFFFFF"/>`);
+
+    // 2. Title
+    out.push(`<text x="${MARGIN}" y="${MARGIN + 4}" font-size="7" font-weight="bold" fill="#1C1C1C">Folha de Produção</text>`);
+    out.push(`<text x="${MARGIN}" y="${MARGIN + 11}" font-size="4" fill="#2A4F60">${escapeXml(designName)}</text>`);
+    out.push(`<text x="${PAGE_WIDTH - MARGIN}" y="${MARGIN + 4}" font-size="3" fill="#5D5D5D" text-anchor="end">Sr. Lucas · Atelier Digital</text>`);
+    out.push(`<text x="${PAGE_WIDTH - MARGIN}" y="${MARGIN + 11}" font-size="3" fill="#5D5D5D" text-anchor="end">${new Date().toLocaleDateString('pt-PT')}</text>`);
+
+    // 3. Render: hoop and design share one scale, centred on 0,0
+    const renderWidth = PAGE_WIDTH - MARGIN * 2;
+    const spanX = Math.max(hoop.width, design.width);
+    const spanY = Math.max(hoop.height, design.height);
+    const scale = Math.min(renderWidth / spanX, RENDER_HEIGHT / spanY) * 0.95;
+    const cx = PAGE_WIDTH / 2;
+    const cy = RENDER_TOP + RENDER_HEIGHT / 2;
+    const toSheet = (x: number, y: number) => ({ x: cx + x * scale, y: cy - y * scale }); // Stitch Y points up
+
+    out.push(`<rect x="${MARGIN}" y="${RENDER_TOP}" width="${renderWidth}" height="${RENDER_HEIGHT}" fill="#FDFBF7" stroke="#E8E6E2" stroke-width="0.3"/>`);
+    const hw = (hoop.width * scale) / 2;
+    const hh = (hoop.height * scale) / 2;
+    if (hoop.shape === 'oval') {
+        out.push(`<ellipse cx="${fmt(cx)}" cy="${fmt(cy)}" rx="${fmt(hw)}" ry="${fmt(hh)}" fill="none" stroke="#A0A0A0" stroke-width="0.3" stroke-dasharray="2 1"/>`);
+    } else {
+        out.push(`<rect x="${fmt(cx - hw)}" y="${fmt(cy - hh)}" width="${fmt(hw * 2)}" height="${fmt(hh * 2)}" fill="none" stroke="#A0A0A0" stroke-width="0.3" stroke-dasharray="2 1"/>`);
+    }
+    out.push(`<path d="M${fmt(cx - 3)} ${fmt(cy)} H${fmt(cx + 3)} M${fmt(cx)} ${fmt(cy - 3)} V${fmt(cy + 3)}" stroke="#A0A0A0" stroke-width="0.2"/>`);
+    out.push(renderStitchPaths(design.stitches, toSheet));
+
+    // 4. Summary
+    const summary: [string, string][] = [
+        ['Dimensões', `${fmt(design.width)} × ${fmt(design.height)} mm`],
+        ['Bastidor', hoop.name],
+        ['Pontos', stats.stitchCount.toLocaleString('pt-PT')],
+        ['Cores', `${stats.colors.length} (${stats.colorChangeCount} trocas)`],
+        ['Trims', String(stats.trimCount)],
+        ['Saltos', String(stats.jumpCount)],
+        ['Tempo estimado', `${formatDuration(stats.estimatedSeconds)} @ ${machine.speedSpm} SPM`],
+        ['Linha superior', formatMeters(stats.topThreadMeters)],
+        ['Bobina', formatMeters(stats.bobbinMeters)],
+    ];
+    const summaryTop = RENDER_TOP + RENDER_HEIGHT + 10;
+    summary.forEach(([label, value], i) => {
+        const col = i % 2;
+        const row = Math.floor(i / 2);
+        const x = MARGIN + col * (renderWidth / 2);
+        const y = summaryTop + row * ROW_HEIGHT;
+        out.push(`<text x="${x}" y="${y}" font-size="3" fill="#5D5D5D">${label}</text>`);
+        out.push(`<text x="${x + 32}" y="${y}" font-size="3.5" font-weight="bold" fill="#1C1C1C">${escapeXml(value)}</text>`);
+    });
+
+    // 5. Colour sequence
+    out.push(`<text x="${MARGIN}" y="${tableTop - 4}" font-size="4" font-weight="bold" fill="#2A4F60">Sequência de Cores</text>`);
+    const headerY = tableTop + 3;
+    out.push(`<line x1="${MARGIN}" y1="${tableTop + 5}" x2="${PAGE_WIDTH - MARGIN}" y2="${tableTop + 5}" stroke="#E8E6E2" stroke-width="0.3"/>`);
+    out.push(`<text x="${MARGIN}" y="${headerY}" font-size="3" fill="#5D5D5D">#</text>`);
+    out.push(`<text x="${MARGIN + 22}" y="${headerY}" font-size="3" fill="#5D5D5D">Linha</text>`);
+    out.push(`<text x="${PAGE_WIDTH - MARGIN - 50}" y="${headerY}" font-size="3" fill="#5D5D5D" text-anchor="end">Superior</text>`);
+    out.push(`<text x="${PAGE_WIDTH - MARGIN - 25}" y="${headerY}" font-size="3" fill="#5D5D5D" text-anchor="end">Bobina</text>`);
+    out.push(`<text x="${PAGE_WIDTH - MARGIN}" y="${headerY}" font-size="3" fill="#5D5D5D" text-anchor="end">Pontos</text>`);
+
+    stats.colors.forEach((c, i) => {
+        const y = tableTop + (i + 1) * ROW_HEIGHT + 3;
+        const thread = threads?.[c.colorIndex];
+        const label = thread
+            ? `${getThreadBrandLabel(thread.brand)} ${thread.code} · ${thread.name}`
+            : c.hexColor.toUpperCase();
+        out.push(`<text x="${MARGIN}" y="${y}" font-size="3.5" fill="#1C1C1C">${i + 1}</text>`);
+        out.push(`<rect x="${MARGIN + 8}" y="${y - 4}" width="10" height="5" rx="1" fill="${c.hexColor}" stroke="#A0A0A0" stroke-width="0.2"/>`);
+        out.push(`<text x="${MARGIN + 22}" y="${y}" font-size="3.5" fill="#1C1C1C">${escapeXml(label)}</text>`);
+        out.push(`<text x="${PAGE_WIDTH - MARGIN - 50}" y="${y}" font-size="3.5" fill="#1C1C1C" text-anchor="end">${formatMeters(c.topThreadMeters)}</text>`);
+        out.push(`<text x="${PAGE_WIDTH - MARGIN - 25}" y="${y}" font-size="3.5" fill="#1C1C1C" text-anchor="end">${formatMeters(c.bobbinMeters)}</text>`);
+        out.push(`<text x="${PAGE_WIDTH - MARGIN}" y="${y}" font-size="3.5" fill="#1C1C1C" text-anchor="end">${c.stitchCount.toLocaleString('pt-PT')}</text>`);
+    });
+
+    out.push('</svg>');
+    return out.join('\n');
+};
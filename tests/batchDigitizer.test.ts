@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyConfigOverrides } from '../services/batchDigitizer';
+import { styleDefaults } from '../services/designPresets';
+
+const base = styleDefaults('patch_fill');
+
+test('overrides replace top level fields and merge nested ones', () => {
+    const config = applyConfigOverrides(base, { densityMm: 0.42, stitchType: 'satin', border: { mode: 'silhouette', widthMm: 5 } });
+    assert.equal(config.densityMm, 0.42);
+    assert.equal(config.stitchType, 'satin');
+    assert.deepEqual(config.border, { ...base.border, mode: 'silhouette', widthMm: 5 });
+    assert.equal(base.border.mode, 'none'); // The defaults are not touched
+});
+
+test('unknown fields are named', () => {
+    assert.throws(() => applyConfigOverrides(base, { density: 0.4 }), /Unknown config field "density"/);
+    assert.throws(() => applyConfigOverrides(base, { border: { style: 'x' } }), /Unknown config field "border.style"/);
+});
+
+test('values of the wrong type are named', () => {
+    assert.throws(() => applyConfigOverrides(base, { densityMm: '0.4' }), /Config "densityMm" must be a number/);
+    assert.throws(() => applyConfigOverrides(base, { border: 'none' }), /Config "border" must be a object/);
+    assert.throws(() => applyConfigOverrides(base, { border: { underlay: 1 } }), /Config "border.underlay" must be a boolean/);
+    assert.throws(() => applyConfigOverrides(base, { fillStitchLengthMm: [] }), /Config "fillStitchLengthMm" must be a object/);
+});
+
+test('fields with a fixed set of values reject the others', () => {
+    assert.throws(() => applyConfigOverrides(base, { stitchType: 'cross' }), /Config "stitchType" must be one of running, bean/);
+    assert.throws(() => applyConfigOverrides(base, { border: { mode: 'outline' } }), /Config "border.mode" must be one of none, layer, silhouette/);
+});
+
+test('tracing fields get the same checks as /api/layers', () => {
+    assert.throws(() => applyConfigOverrides(base, { colorCount: 0 }), /Config "colorCount" must be a whole number/);
+    assert.throws(() => applyConfigOverrides(base, { vectorize: { mode: 'bezier' } }), /mode/);
+});
@@ -0,0 +1,10 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRoundTripCases, runExportRoundTripSuite } from '../services/exportVerification';
+
+// Every synthetic design must decode from DST and EXP exactly as it was encoded
+runExportRoundTripSuite(buildRoundTripCases()).forEach(result => {
+    test(`${result.format.toUpperCase()} round trip: ${result.caseName}`, () => {
+        assert.deepEqual(result.failures, []);
+    });
+});
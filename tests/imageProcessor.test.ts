@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Point, ProcessingConfig, Stitch, VectorLayer } from '../types';
+import { digitizeDesign, removeHiddenFill } from '../services/imageProcessor';
+import { styleDefaults } from '../services/designPresets';
+
+const config = (overrides: Partial<ProcessingConfig> = {}): ProcessingConfig =>
+    ({ ...styleDefaults('patch_fill'), enableUnderlay: false, tatamiAngle: 0, ...overrides });
+
+const layer = (paths: Point[][], extra: Partial<VectorLayer> = {}): VectorLayer => ({ color: '#C8102E', paths, ...extra });
+
+// U open towards the top: two arms sewn as their own sections above a shared base
+const U_SHAPE: Point[] = [
+    { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 20 }, { x: 20, y: 20 },
+    { x: 20, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 30 }, { x: 0, y: 30 }, { x: 0, y: 0 },
+];
+
+// Rows already sewn when each travel stitch is made (rows run along X at tatamiAngle 0)
+const travelOverSewnRows = (stitches: Stitch[], rowSpacing: number): Point[] => {
+    const sewn: { y: number, x1: number, x2: number }[] = [];
+    const exposed: Point[] = [];
+    stitches.forEach((s, k) => {
+        const prev = stitches[k - 1];
+        if (s.type !== 'stitch') return;
+        if (s.isStructure) {
+            if (sewn.some(r => Math.abs(r.y - s.y) < rowSpacing / 2 && s.x > r.x1 + 0.5 && s.x < r.x2 - 0.5)) exposed.push(s);
+        } else if (prev && prev.type === 'stitch' && !prev.isStructure && Math.abs(prev.y - s.y) < 1e-6) {
+            sewn.push({ y: s.y, x1: Math.min(prev.x, s.x), x2: Math.max(prev.x, s.x) });
+        }
+    });
+    return exposed;
+};
+
+test('tatami travel never runs over rows that are already sewn', () => {
+    const mirrored = U_SHAPE.map(p => ({ x: 30 - p.x, y: p.y })).reverse();
+    [U_SHAPE, mirrored].forEach((shape, n) => {
+        const cfg = config();
+        const { stitches } = digitizeDesign([layer([shape])], cfg);
+        assert.ok(stitches.some(s => s.type === 'stitch' && s.isStructure), `shape ${n}: no travel between sections`);
+        assert.equal(stitches.filter(s => s.type === 'jump').length, 1, `shape ${n}: travel should not need a jump past the first`);
+        assert.deepEqual(travelOverSewnRows(stitches, cfg.densityMm), [], `shape ${n}: travel left on top of the fill`);
+    });
+});
+
+const square = (x: number, y: number, size: number): Point[] =>
+    [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }, { x, y }];
+
+const area = (paths: Point[][]) => paths.reduce((sum, path) => {
+    let a = 0;
+    path.forEach((p, i) => { const q = path[(i + 1) % path.length]; a += p.x * q.y - q.x * p.y; });
+    return sum + a / 2;
+}, 0);
+
+test('only layers that sew their inside hide the layers below', () => {
+    const bottom = layer([square(0, 0, 40)]);
+    const top = layer([square(10, 10, 20)], { color: '#1B2A4E' });
+
+    // Fill on top: the bottom keeps a frame around it (plus the overlap margin), the whole square stays stacked
+    const [trimmed] = removeHiddenFill([bottom, top], 'tatami');
+    assert.ok(Math.abs(Math.abs(area(trimmed.paths)) - (1600 - 400)) < 60, `visible area ${area(trimmed.paths)}`);
+    assert.deepEqual(trimmed.stackedPaths, bottom.paths);
+
+    // Outline on top, globally or as its own setting: nothing below is cut
+    [
+        removeHiddenFill([bottom, top], 'running'),
+        removeHiddenFill([bottom, { ...top, settings: { stitchType: 'bean' } }], 'tatami'),
+    ].forEach(([kept]) => {
+        assert.deepEqual(kept.paths, bottom.paths);
+        assert.equal(kept.stackedPaths, undefined);
+    });
+
+    // Switching back starts from the whole shapes again
+    const [again] = removeHiddenFill(removeHiddenFill([bottom, top], 'tatami'), 'estitch');
+    assert.deepEqual(again.paths, bottom.paths);
+});
+
+// How far inside the square a point is (negative outside)
+const depthIn = (p: Point, x: number, y: number, size: number) =>
+    Math.min(p.x - x, x + size - p.x, p.y - y, y + size - p.y);
+
+test('appliqué sews placement, stop, tack-down, stop, cover for each layer', () => {
+    const pieces = [{ x: 0, y: 0, color: '#C8102E' }, { x: 60, y: 0, color: '#1B2A4E' }];
+    const cfg = config({ stitchType: 'applique' });
+    const { stitches } = digitizeDesign(pieces.map(p => layer([square(p.x, p.y, 30)], { color: p.color })), cfg);
+
+    pieces.forEach(({ x, y, color }) => {
+        // Split the layer at its stops (same thread: the operator places and trims the fabric)
+        const own = stitches.filter(s => s.hexColor === color);
+        const stops = own.filter(s => s.type === 'color_change' && stitches[stitches.indexOf(s) - 1]?.hexColor === color);
+        assert.equal(stops.length, 2, `${color}: stops`);
+        const phases = [own.slice(0, own.indexOf(stops[0])), own.slice(own.indexOf(stops[0]) + 1, own.indexOf(stops[1])), own.slice(own.indexOf(stops[1]) + 1)]
+            .map(phase => phase.filter(s => s.type === 'stitch'));
+        const [placement, tack, cover] = phases.map(phase => phase.map(s => depthIn(s, x, y, 30)));
+        assert.ok(placement.length > 0 && tack.length > 0 && cover.length > 0, `${color}: empty phase`);
+
+        // Placement on the cut line (ties may step past a corner), tack-down just inside it, cover over the raw edge and past it
+        const run = phases[0].filter(s => !s.isStructure).map(s => depthIn(s, x, y, 30));
+        assert.ok(run.every(d => Math.abs(d) < 0.05), `${color}: placement off the line`);
+        assert.ok(tack.every(d => d > -0.05 && d < 1.6), `${color}: tack-down outside its band`);
+        assert.ok(Math.min(...cover) < -0.3, `${color}: cover does not reach past the edge`);
+        assert.ok(Math.max(...cover) > 2.5, `${color}: cover too narrow`);
+    });
+});
@@ -0,0 +1,298 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Stitch, ThreadColor } from '../types';
+import { buildRoundTripCases } from '../services/exportVerification';
+import { createPesFile, PEC_PALETTE } from '../services/pesExporter';
+import { createJefFile } from '../services/jefExporter';
+import { createVp3File } from '../services/vp3Exporter';
+import { getColorBlocks, getStitchExtents, toMachineUnits } from '../services/exportUtils';
+
+// Structure of the machine format writers: each file is read back field by field with the layout
+// documented at the top of its exporter, on the same synthetic designs as the DST/EXP round trips.
+
+const COLORS = ['#EC0000', '#0F75FF', '#FFE600']; // PEC Red, Blue, Yellow
+const HOOP = { name: '130x180', width: 130, height: 180, shape: 'rect' as const };
+
+const CASES = buildRoundTripCases().map(c => ({
+    name: c.name,
+    stitches: c.stitches.map(s => ({ ...s, hexColor: COLORS[s.colorIndex ?? 0] }))
+}));
+
+interface Point { x: number, y: number }
+
+const ascii = (data: Uint8Array, start: number, length: number) => String.fromCharCode(...Array.from(data.subarray(start, start + length)));
+const viewOf = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+const int8 = (b: number) => (b > 127 ? b - 256 : b);
+
+// 0.1mm units without -0 (Math.round gives -0 for small negatives, the readers give plain 0)
+const units = (mm: number) => toMachineUnits(mm) + 0;
+const extentsOf = (stitches: Stitch[]) => {
+    const { minX, maxX, minY, maxY } = getStitchExtents(stitches);
+    return { minX: minX + 0, maxX: maxX + 0, minY: minY + 0, maxY: maxY + 0 };
+};
+
+// Needle penetrations in 0.1mm, Y up; a stitch that does not move is not one
+const penetrations = (stitches: Stitch[]): Point[] => {
+    const result: Point[] = [];
+    let pos = { x: 0, y: 0 };
+    stitches.forEach(s => {
+        if (s.type === 'end' || s.type === 'trim' || s.type === 'color_change') return;
+        const p = { x: units(s.x), y: units(s.y) };
+        if (s.type === 'stitch' && (p.x !== pos.x || p.y !== pos.y)) result.push(p);
+        pos = p;
+    });
+    return result;
+};
+
+// Every position the needle moves to (stitches and jumps), Y up
+const moves = (stitches: Stitch[]): Point[] => {
+    const result: Point[] = [];
+    let pos = { x: 0, y: 0 };
+    stitches.forEach(s => {
+        if (s.type === 'end' || s.type === 'trim' || s.type === 'color_change') return;
+        const p = { x: units(s.x), y: units(s.y) };
+        if (p.x !== pos.x || p.y !== pos.y) result.push(p);
+        pos = p;
+    });
+    return result;
+};
+
+const boundsOf = (points: Point[]) => ({
+    minX: Math.min(...points.map(p => p.x)), maxX: Math.max(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)), maxY: Math.max(...points.map(p => p.y)),
+});
+
+// --- PES ---
+
+const PEC_ICON_BYTES = 6 * 38;
+
+const readPes = (data: Uint8Array) => {
+    const view = viewOf(data);
+    const pecOffset = view.getInt32(8, true);
+    const colorCount = data[pecOffset + 48] + 1;
+    const threads = Array.from(data.subarray(pecOffset + 49, pecOffset + 49 + colorCount));
+
+    const blockStart = pecOffset + 512;
+    const blockLength = data[blockStart + 2] | (data[blockStart + 3] << 8) | (data[blockStart + 4] << 16);
+    const width = view.getUint16(blockStart + 8, true);
+    const height = view.getUint16(blockStart + 10, true);
+
+    // 7-bit short or 12-bit long (high bit set, 0x10 jump, 0x20 trim) per axis, FE B0 xx colour change, FF end
+    const readAxis = (i: number): { value: number, flags: number, next: number } => {
+        const b = data[i];
+        if (b & 0x80) {
+            const raw = ((b & 0x0F) << 8) | data[i + 1];
+            return { value: raw & 0x800 ? raw - 0x1000 : raw, flags: b & 0x70, next: i + 2 };
+        }
+        return { value: b & 0x40 ? b - 0x80 : b, flags: 0, next: i + 1 };
+    };
+    const stitches: Point[] = [];
+    const visited: Point[] = [];
+    let colorChanges = 0;
+    let i = blockStart + 20;
+    let pos = { x: 0, y: 0 };
+    while (data[i] !== 0xFF) {
+        if (data[i] === 0xFE && data[i + 1] === 0xB0) { colorChanges++; i += 3; continue; }
+        const dx = readAxis(i);
+        const dy = readAxis(dx.next);
+        i = dy.next;
+        const next = { x: pos.x + dx.value, y: pos.y - dy.value };
+        if (!(dx.flags | dy.flags) && (next.x !== pos.x || next.y !== pos.y)) stitches.push(next);
+        if (next.x !== pos.x || next.y !== pos.y) visited.push(next);
+        pos = next;
+    }
+    return { pecOffset, colorCount, threads, blockStart, blockLength, stitchesEnd: i + 1, width, height, stitches, visited, colorChanges };
+};
+
+test('PES: header, PEC offset, thread table, stitch block and thumbnails', () => {
+    const red: ThreadColor = { brand: 'brother', code: '800', name: 'Red', hex: '#EC0000' };
+    CASES.forEach(({ name, stitches }) => {
+        const data = createPesFile(stitches, { designName: 'TEST', threads: [red] });
+        const pes = readPes(data);
+        const blocks = getColorBlocks(stitches);
+        const extents = extentsOf(stitches);
+
+        assert.equal(ascii(data, 0, 8), '#PES0001', name);
+        assert.equal(ascii(data, 22, 9), '\x07\x00CEmbOne', name);
+        assert.equal(ascii(data, pes.pecOffset, 20), 'LA:TEST            \r', name);
+
+        assert.equal(pes.colorCount, blocks.length, name);
+        assert.equal(pes.colorChanges, blocks.length - 1, name);
+        assert.deepEqual(pes.threads, blocks.map((b, k) => k === 0 ? PEC_PALETTE.findIndex(p => p.name === 'Red') + 1 : COLORS.indexOf(b.hexColor) === 1 ? 2 : 13), name);
+
+        assert.equal(pes.stitchesEnd - pes.blockStart, pes.blockLength, `${name}: PEC block length`);
+        assert.equal(data.length, pes.stitchesEnd + (blocks.length + 1) * PEC_ICON_BYTES, `${name}: thumbnails`);
+
+        assert.deepEqual(pes.stitches, penetrations(stitches), `${name}: stitches`);
+        assert.equal(pes.width, extents.maxX - extents.minX, name);
+        assert.equal(pes.height, extents.maxY - extents.minY, name);
+        assert.deepEqual(boundsOf(pes.visited), boundsOf(moves(stitches)), `${name}: extents`);
+    });
+});
+
+// --- JEF ---
+
+const readJef = (data: Uint8Array) => {
+    const view = viewOf(data);
+    const offset = view.getInt32(0, true);
+    const colorCount = view.getInt32(24, true);
+    const threads = Array.from({ length: colorCount }, (_, k) => view.getInt32(0x74 + k * 4, true));
+    const types = Array.from({ length: colorCount }, (_, k) => view.getInt32(0x74 + (colorCount + k) * 4, true));
+
+    // Signed dx dy pairs; 80 01 colour change, 80 02 jump (zero = trim), 80 10 end
+    const stitches: Point[] = [];
+    const visited: Point[] = [];
+    let points = 0, colorChanges = 0, i = offset;
+    let pos = { x: 0, y: 0 };
+    while (true) {
+        let command = 0;
+        if (data[i] === 0x80) {
+            command = data[i + 1];
+            points += command === 0x10 ? 1 : 2;
+            if (command === 0x10) { i += 2; break; }
+            if (command === 0x01) colorChanges++;
+            i += 2;
+        } else {
+            points++;
+        }
+        const next = { x: pos.x + int8(data[i]), y: pos.y + int8(data[i + 1]) };
+        i += 2;
+        if (command === 0 && (next.x !== pos.x || next.y !== pos.y)) stitches.push(next);
+        if (next.x !== pos.x || next.y !== pos.y) visited.push(next);
+        pos = next;
+    }
+    return {
+        offset, colorCount, threads, types, end: i, stitches, visited, colorChanges, points,
+        pointCount: view.getInt32(28, true), hoopCode: view.getInt32(32, true),
+        halfWidth: view.getInt32(36, true), halfHeight: view.getInt32(40, true),
+    };
+};
+
+test('JEF: header, thread table and stitch body', () => {
+    CASES.forEach(({ name, stitches }) => {
+        const data = createJefFile(stitches, HOOP);
+        const jef = readJef(data);
+        const blocks = getColorBlocks(stitches);
+        const extents = extentsOf(stitches);
+
+        assert.equal(jef.offset, 0x74 + blocks.length * 8, name);
+        assert.equal(viewOf(data).getInt32(4, true), 0x14, name);
+        assert.match(ascii(data, 8, 14), /^\d{14}$/, name);
+        assert.equal(jef.colorCount, blocks.length, name);
+        assert.equal(jef.hoopCode, 2, name); // 140x200, the smallest Janome hoop 130x180 fits in
+        assert.deepEqual(jef.types, blocks.map(() => 0x0D), name);
+        assert.equal(jef.threads[0], 10, name); // Janome red (#FF0000)
+        jef.threads.forEach(t => assert.ok(t >= 1 && t <= 78, `${name}: thread ${t}`));
+
+        assert.equal(jef.end, data.length, `${name}: body ends at the end marker`);
+        assert.equal(jef.points, jef.pointCount, `${name}: point count`);
+        assert.equal(jef.colorChanges, blocks.length - 1, name);
+        assert.deepEqual(jef.stitches, penetrations(stitches), `${name}: stitches`);
+        assert.equal(jef.halfWidth, Math.round((extents.maxX - extents.minX) / 2), name);
+        assert.equal(jef.halfHeight, Math.round((extents.maxY - extents.minY) / 2), name);
+        assert.deepEqual(boundsOf(jef.visited), boundsOf(moves(stitches)), `${name}: extents`);
+    });
+});
+
+// --- VP3 ---
+
+const readVp3 = (data: Uint8Array) => {
+    const view = viewOf(data);
+    let p = 0;
+    const string8 = () => { const n = view.getUint16(p); p += 2 + n; return new TextDecoder().decode(data.subarray(p - n, p)); };
+    const string16 = () => {
+        const n = view.getUint16(p);
+        p += 2 + n;
+        return String.fromCharCode(...Array.from({ length: n / 2 }, (_, k) => view.getUint16(p - n + k * 2)));
+    };
+    const tag = () => { const t = Array.from(data.subarray(p, p + 3)); p += 3; return t; };
+    const i32 = () => { p += 4; return view.getInt32(p - 4); };
+
+    const signature = ascii(data, 0, 6);
+    p = 6;
+    const producer = string16();
+
+    // File block
+    const fileTag = tag();
+    const fileEnd = i32() + p;
+    const notes = string16();
+    const [maxX, maxY, minX, minY] = [i32(), i32(), i32(), i32()];
+    const stitchCount = i32();
+    const colorCount = view.getUint16(p);
+    p += 2 + 6 + 4;
+
+    // Hoop block
+    p += 4 + 4 + 3 + 6 * 4;
+    string16();
+    p += 2 + 4 * 4 + 4 + 2;
+    string16();
+    const hoopColorCount = view.getUint16(p);
+    p += 2;
+
+    // Colour blocks: start position, thread, then dx dy bytes; 80 01 long move 80 02, 80 03 trim
+    const blocks: { tag: number[], rgb: number, catalog: string, description: string, brand: string, points: Point[] }[] = [];
+    while (p < data.length) {
+        const blockTag = tag();
+        const blockEnd = i32() + p;
+        let pos = { x: i32() / 100, y: i32() / 100 };
+        p += 2;
+        const rgb = (data[p] << 16) | (data[p + 1] << 8) | data[p + 2];
+        p += 3 + 4;
+        const [catalog, description, brand] = [string8(), string8(), string8()];
+        p += 8 + 3 + 4 + 3;
+        const points = [pos];
+        while (p < blockEnd) {
+            if (data[p] === 0x80 && data[p + 1] === 0x03) { p += 2; continue; }
+            let dx: number, dy: number;
+            if (data[p] === 0x80) {
+                dx = view.getInt16(p + 2); dy = view.getInt16(p + 4);
+                assert.deepEqual(Array.from(data.subarray(p + 6, p + 8)), [0x80, 0x02]);
+                p += 8;
+            } else {
+                dx = int8(data[p]); dy = int8(data[p + 1]);
+                p += 2;
+            }
+            pos = { x: pos.x + dx, y: pos.y + dy };
+            points.push(pos);
+        }
+        assert.equal(p, blockEnd, 'colour block length');
+        blocks.push({ tag: blockTag, rgb, catalog, description, brand, points });
+    }
+    return { signature, producer, fileTag, fileEnd, notes, extents: { minX, maxX, minY, maxY }, stitchCount, colorCount, hoopColorCount, blocks };
+};
+
+test('VP3: signature, file block, extents and colour blocks', () => {
+    CASES.forEach(({ name, stitches }) => {
+        const threads = [{ catalogNumber: '800', description: 'Red', brand: 'Brother' }];
+        const data = createVp3File(stitches, { notes: 'Tempo: 1min', threads });
+        const vp3 = readVp3(data);
+        const blocks = getColorBlocks(stitches);
+        const extents = extentsOf(stitches);
+
+        assert.equal(vp3.signature, '%vsm%\0', name);
+        assert.deepEqual(vp3.fileTag, [0x00, 0x02, 0x00], name);
+        assert.equal(vp3.fileEnd, data.length, `${name}: file block length`);
+        assert.equal(vp3.notes, 'Tempo: 1min', name);
+        assert.deepEqual(vp3.extents, { minX: extents.minX * 100, maxX: extents.maxX * 100, minY: extents.minY * 100, maxY: extents.maxY * 100 }, name);
+        assert.equal(vp3.stitchCount, stitches.filter(s => s.type === 'stitch').length, name);
+        assert.equal(vp3.colorCount, blocks.length, name);
+        assert.equal(vp3.hoopColorCount, blocks.length, name);
+
+        assert.equal(vp3.blocks.length, blocks.length, name);
+        vp3.blocks.forEach((block, k) => {
+            assert.deepEqual(block.tag, [0x00, 0x05, 0x00], name);
+            assert.equal(block.rgb, parseInt(blocks[k].hexColor.slice(1), 16), name);
+            assert.deepEqual([block.catalog, block.description, block.brand], k === 0 ? ['800', 'Red', 'Brother'] : ['', blocks[k].hexColor, ''], name);
+        });
+
+        // No jump command in VP3: every move is a needle position, Y down
+        const expected: Point[] = [];
+        stitches.forEach(s => {
+            if (s.type === 'end' || s.type === 'trim' || s.type === 'color_change') return;
+            const p = { x: units(s.x), y: 0 - units(s.y) };
+            const last = expected[expected.length - 1];
+            if (!last || last.x !== p.x || last.y !== p.y) expected.push(p);
+        });
+        assert.deepEqual(vp3.blocks.flatMap(b => b.points), expected, `${name}: stitches`);
+    });
+});
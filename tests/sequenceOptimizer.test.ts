@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Point, ProcessingConfig, VectorLayer } from '../types';
+import { digitizeDesign } from '../services/imageProcessor';
+import { optimizeSequence, orderLayers, sequenceCost, SequenceItem } from '../services/sequenceOptimizer';
+import { styleDefaults } from '../services/designPresets';
+
+const TRIM_PENALTY_MM = 20; // Same weight the optimizer gives a trim
+
+const config = (overrides: Partial<ProcessingConfig> = {}): ProcessingConfig =>
+    ({ ...styleDefaults('patch_fill'), enableUnderlay: false, tatamiAngle: 0, ...overrides });
+
+const square = (x: number, y: number, size: number): Point[] =>
+    [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }, { x, y }];
+
+// Deterministic scatter, so a failure names a layout that can be rerun
+const scatter = (seed: number, count: number): Point[] => {
+    let s = seed;
+    const next = () => (s = (s * 1103515245 + 12345) % 2147483648) / 2147483648;
+    return Array.from({ length: count }, () => ({ x: Math.round(next() * 90), y: Math.round(next() * 90) }));
+};
+
+test('optimizeSequence visits every item once and picks the way round that saves travel', () => {
+    // Runs along a line, traced out of order and half of them backwards
+    const runs = [0, 60, 20, 80, 40].map((x, k) => (k % 2 ? [{ x: x + 10, y: 0 }, { x, y: 0 }] : [{ x, y: 0 }, { x: x + 10, y: 0 }]));
+    const items: SequenceItem[] = runs.map(([a, b]) => ({ options: [{ entry: a, exit: b }, { entry: b, exit: a }] }));
+    const tour = optimizeSequence(items, { x: 0, y: 0 }, 2);
+
+    assert.deepEqual(tour.map(s => s.item).sort(), [0, 1, 2, 3, 4]);
+    const route = tour.map(s => items[s.item].options[s.option]);
+    const traced = items.map(item => item.options[0]);
+    assert.deepEqual(route.map(o => o.entry.x), [0, 20, 40, 60, 80]);
+    assert.ok(sequenceCost(route, { x: 0, y: 0 }, 2) < sequenceCost(traced, { x: 0, y: 0 }, 2));
+});
+
+test('the sewing order never travels further than the traced one', () => {
+    for (let seed = 1; seed <= 6; seed++) {
+        const paths = scatter(seed, 12).map(p => square(p.x, p.y, 4));
+        const { sequence } = digitizeDesign([{ color: '#1B2A4E', paths }], config({ stitchType: 'running' }));
+        const before = sequence.jumpMmBefore + sequence.trimsBefore * TRIM_PENALTY_MM;
+        const after = sequence.jumpMmAfter + sequence.trimsAfter * TRIM_PENALTY_MM;
+        assert.ok(after <= before + 1e-6, `seed ${seed}: ${after.toFixed(1)} > ${before.toFixed(1)}`);
+    }
+
+    // Traced in the shortest order, where nearest neighbour and 2-opt alone come out longer
+    const traced = [{ x: 60, y: 4 }, { x: 44, y: 4 }, { x: 23, y: 2 }, { x: 4, y: 40 }, { x: 37, y: 30 }, { x: 55, y: 49 }];
+    const { sequence } = digitizeDesign([{ color: '#1B2A4E', paths: traced.map(p => square(p.x, p.y, 1)) }], config({ stitchType: 'running' }));
+    assert.equal(sequence.trimsAfter, sequence.trimsBefore);
+    assert.ok(Math.abs(sequence.jumpMmAfter - sequence.jumpMmBefore) < 1e-6, `${sequence.jumpMmAfter} != ${sequence.jumpMmBefore}`);
+});
+
+test('orderLayers sews light colours first unless a lower layer overlaps', () => {
+    // 0 dark under 1 light; 2 stands apart
+    const overlapping = (a: number, b: number) => (a === 0 && b === 1) || (a === 1 && b === 0);
+    assert.deepEqual(orderLayers([0.1, 0.9, 0.5], overlapping), [2, 0, 1]);
+    assert.deepEqual(orderLayers([0.1, 0.9, 0.5], () => false), [1, 2, 0]);
+    assert.deepEqual(orderLayers([0.1, 0.9, 0.5], () => true), [0, 1, 2]);
+});
+
+test('overlapping layers keep their stacking in the stitches', () => {
+    const dark: VectorLayer = { color: '#1B2A4E', paths: [square(0, 0, 30)] };
+    const light: VectorLayer = { color: '#FFE600', paths: [square(10, 10, 10)] };
+    const apart: VectorLayer = { color: '#F5F5F5', paths: [square(60, 0, 10)] };
+    const { stitches } = digitizeDesign([dark, light, apart], config());
+
+    const colours = stitches.filter(s => s.type === 'stitch').map(s => s.hexColor)
+        .filter((hex, k, all) => k === 0 || hex !== all[k - 1]);
+    assert.deepEqual(colours, ['#F5F5F5', '#1B2A4E', '#FFE600']);
+});
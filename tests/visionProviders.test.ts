@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { POST } from '../app/api/vision/route';
+import { renderVisionPrompt } from '../services/visionPrompts';
+import { createVisionProvider, readVisionConfig } from '../services/visionProviders';
+
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+test('mock provider returns the image it was given', async () => {
+    const config = readVisionConfig({ VISION_PROVIDER: 'mock' });
+    assert.deepEqual(config, { provider: 'mock', model: 'echo', promptVersion: 'v1', timeoutMs: 120000 });
+
+    const provider = createVisionProvider(config, {});
+    const prompt = renderVisionPrompt({ designStyle: 'patch_fill', colorCount: 3, detail: 'keep the star' }, config.promptVersion);
+    assert.match(prompt, /keep the star$/);
+    assert.doesNotMatch(prompt, /\{\{\w+\}\}/);
+
+    const image = { data: PIXEL, mimeType: 'image/png' };
+    assert.deepEqual(await provider.cleanup({ image, prompt }), image);
+});
+
+test('config names that only exist on Object.prototype are rejected', () => {
+    assert.throws(() => readVisionConfig({ VISION_PROVIDER: 'toString' }), /Unknown VISION_PROVIDER "toString"/);
+    assert.throws(() => readVisionConfig({ VISION_PROVIDER: 'mock', VISION_PROMPT_VERSION: 'constructor' }), /Unknown VISION_PROMPT_VERSION "constructor"/);
+    assert.throws(() => renderVisionPrompt({ designStyle: 'vintage', colorCount: 1 }, '__proto__'), /Unknown prompt version/);
+});
+
+test('route answers with the mock cleanup and reports what ran', async () => {
+    process.env.VISION_PROVIDER = 'mock';
+    try {
+        const request = new NextRequest('http://localhost/api/vision', {
+            method: 'POST',
+            body: JSON.stringify({ base64Image: `data:image/png;base64,${PIXEL}`, colorCount: 2, designStyle: 'patch_line' }),
+        });
+        const response = await POST(request);
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), {
+            resultImage: `data:image/png;base64,${PIXEL}`,
+            provider: 'mock',
+            model: 'echo',
+            promptVersion: 'v1',
+        });
+
+        const invalid = await POST(new NextRequest('http://localhost/api/vision', {
+            method: 'POST',
+            body: JSON.stringify({ base64Image: PIXEL, designStyle: 'cartoon' }),
+        }));
+        assert.equal(invalid.status, 400);
+    } finally {
+        delete process.env.VISION_PROVIDER;
+    }
+});
@@ -13,7 +13,7 @@ export interface Stitch extends Point {
 
 export enum AppState {
   IDLE = 'IDLE',
-  ANALYZING = 'ANALYZING', // Gemini Vision -> Bitmap
+  ANALYZING = 'ANALYZING', // Gemini Vision (or local cleanup) -> Bitmap
   REVIEW_BITMAP = 'REVIEW_BITMAP', // User approves AI cleanup
   VECTORIZING = 'VECTORIZING', // Bitmap -> Potrace
   REVIEW_VECTORS = 'REVIEW_VECTORS', // User approves Geometry
@@ -22,9 +22,29 @@ export enum AppState {
   ERROR = 'ERROR'
 }
 
+export type ThreadBrand = 'madeira_polyneon' | 'isacord' | 'robison_anton' | 'brother' | 'gunold';
+
+export interface ThreadColor {
+  brand: ThreadBrand;
+  code: string; // Catalog number printed on the cone
+  name: string;
+  hex: string;
+}
+
 export interface VectorLayer {
   color: string;
   paths: Point[][]; // Coordinates in mm
+  stackedPaths?: Point[][]; // Whole shapes before hidden fill removal (only when it trimmed the layer)
+  thread?: ThreadColor; // Real thread sewn for this layer (nearest match or manual choice)
+  threadLocked?: boolean; // Manual override, kept when threads are re-matched
+  settings?: LayerStitchSettings; // Overrides the global config for this layer only
+  satinColumns?: SatinColumn[]; // Explicit two-rail columns, sewn as satin on top of the paths
+}
+
+// Satin column between two rails (mm), both running the same way
+export interface SatinColumn {
+  left: Point[];
+  right: Point[];
 }
 
 export interface EmbroideryDesign {
@@ -35,7 +55,66 @@ export interface EmbroideryDesign {
 }
 
 export type DesignStyle = 'vintage' | 'patch_line' | 'patch_fill';
-export type StitchType = 'running' | 'satin' | 'tatami';
+export type ExportFormat = 'exp' | 'dst' | 'pes' | 'jef' | 'vp3';
+export type StitchType = 'running' | 'bean' | 'motif' | 'estitch' | 'satin' | 'tatami' | 'applique'; // Bean: triple run, estitch: blanket edge
+export type RunMotif = 'zigzag' | 'blanket' | 'cross' | 'custom';
+export type TatamiUnderlayMode = 'auto' | 'edge' | 'fill' | 'edge_fill'; // 'auto' picks from the shape area
+export type FillPattern = 'brick' | 'twill' | 'random' | 'diamond' | 'cross' | 'custom';
+export type SatinCornerStyle = 'auto' | 'mitre' | 'cap' | 'lap'; // 'auto' picks by corner angle
+export type BorderMode = 'none' | 'layer' | 'silhouette'; // Outline of one fill layer or of the whole design
+
+// Merrow-look satin border, sewn after every layer
+export interface PatchBorderConfig {
+  mode: BorderMode;
+  layerIndex: number; // 'layer' mode: the fill layer to outline
+  widthMm: number; // Satin column width
+  color: string; // Border thread (hex)
+  overlapMm: number; // How far the column reaches over the fill, hides the gap left by pull
+  underlay: boolean; // Edge runs (and a zigzag on wide columns) under the column
+}
+
+// Travel of the sewing order in tracer order (before) and after sequence optimization
+export interface SequenceReport {
+  trimsBefore: number;
+  trimsAfter: number;
+  jumpMmBefore: number;
+  jumpMmAfter: number;
+}
+
+export type VectorizePreset = 'detailed' | 'balanced' | 'smooth' | 'bold' | 'custom'; // 'custom': edited in the advanced panel
+
+// VTracer settings sent to /api/vectorize (pixel units of the uploaded bitmap)
+export interface VectorizeOptions {
+  filterSpeckle: number; // Patches smaller than this (px) are dropped
+  colorPrecision: number; // Significant bits per RGB channel (1-8)
+  layerDifference: number; // Colour difference between stacked layers, higher = fewer layers
+  cornerThreshold: number; // Degrees, sharper turns stay corners
+  lengthThreshold: number; // Segments are subdivided and smoothed until shorter than this
+  maxIterations: number;
+  spliceThreshold: number; // Degrees of displacement before a spline is spliced
+  pathPrecision: number; // Decimals in the SVG path data
+  mode: 'none' | 'polygon' | 'spline'; // Curve fitting
+  hierarchical: 'stacked' | 'cutout'; // Shapes stacked on each other or cut out side by side
+}
+
+// Decoded bitmap, RGBA rows top to bottom (ImageData has the same shape)
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Settings the bitmap/SVG to vector stage reads
+export type TracingConfig = Pick<ProcessingConfig, 'designStyle' | 'centerlineTrace' | 'widthMm' | 'colorCount' | 'vectorize'>;
+
+// Vector stage output: layers in mm plus an SVG preview in processing pixels
+export interface VectorizedDesign {
+  layers: VectorLayer[];
+  width: number; // mm
+  height: number;
+  svgPreview: string;
+  colors: string[];
+}
 
 export interface Hoop {
     name: string;
@@ -46,15 +125,24 @@ export interface Hoop {
 
 export interface ProcessingConfig {
   designStyle: DesignStyle; 
+  centerlineTrace: boolean; // Vintage: one path along the middle of each line instead of both of its edges
   widthMm: number;
   stitchType: StitchType;
   
   // --- Physics & Engineering (PDF Requirements) ---
   densityMm: number; // 0.38 - 0.42mm (Tatami standard)
   satinColumnWidthMm: number; 
+  satinCornerStyle: SatinCornerStyle; // Centerline satin corners: mitre, cap or lapped split
   pullCompensationMm: number; // 0.2 - 0.4mm
   enableUnderlay: boolean; // Smart Underlay logic
+  tatamiUnderlay: TatamiUnderlayMode; // Edge walk, low density fill at tatamiAngle + 90, or both
   tatamiAngle: number;
+  fillPattern: FillPattern; // Needle layout of the tatami rows
+  fillStitchLengthMm: Record<FillPattern, number>; // Each pattern keeps its own stitch length
+  fillCustomOffsets: number[]; // Custom pattern: needle shift per row (fraction of the stitch length), repeats
+  border: PatchBorderConfig;
+  runMotif: RunMotif; // Motif run: needle group repeated every stitch length, satinColumnWidthMm wide
+  runMotifCustom: Point[]; // Custom motif: x along one repeat (0..1), y across (-1..1)
   
   // --- Machine Limits & Quality ---
   maxStitchLengthMm: number; // 7mm (Satin) or 4mm (Tatami) before splitting
@@ -62,4 +150,9 @@ export interface ProcessingConfig {
   trimJumpDistanceMm: number; // > 2mm or 6mm -> TRIM
   
   colorCount: number;
-}
\ No newline at end of file
+  vectorize: VectorizeOptions; // Patch tracing (VTracer)
+}
+
+// Stitch settings a layer can override (unset fields follow the global config)
+export type LayerStitchSettings = Partial<Pick<ProcessingConfig,
+  'stitchType' | 'densityMm' | 'tatamiAngle' | 'pullCompensationMm' | 'enableUnderlay' | 'tatamiUnderlay' | 'satinColumnWidthMm'>>;
@@ -12,4 +12,7 @@ declare module 'svg-path-parser' {
     }
     export function parseSVG(d: string): Command[];
     export function makeAbsolute(commands: Command[]): Command[];
+    // CommonJS module: Node's ESM loader (scripts run with tsx) only sees the default export
+    const svgPathParser: { parseSVG: typeof parseSVG, makeAbsolute: typeof makeAbsolute };
+    export default svgPathParser;
 }